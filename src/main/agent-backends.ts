@@ -0,0 +1,62 @@
+import type { BrowserWindow } from 'electron'
+import type { AgentBackendId } from '../shared/types'
+import { executeClaudeQuery, type ClaudeSDKOptions } from './claude-sdk'
+import {
+  codexSpec,
+  geminiSpec,
+  runCliBackend,
+  type CliBackendSpec,
+} from './cli-backends'
+import { runReplay } from './replay-backend'
+
+// ============================================================================
+// Agent Backends
+// ============================================================================
+// LOGIC: A backend runs one turn of a conversation in its worktree and streams
+// AgentMessages to the renderer on 'command-output'. The Claude SDK is the
+// default; other agents plug in by implementing the same interface, so the
+// scheduler, journal and conversation view don't care which one is running.
+
+export interface AgentBackend {
+  id: AgentBackendId
+  label: string
+  supportsPermissions: boolean // Can ask the user before each tool call
+  run: (
+    options: ClaudeSDKOptions,
+    sender: BrowserWindow['webContents']
+  ) => Promise<void>
+}
+
+const claudeBackend: AgentBackend = {
+  id: 'claude-code',
+  label: 'Claude Code',
+  supportsPermissions: true,
+  run: executeClaudeQuery,
+}
+
+const cliBackend = (spec: CliBackendSpec): AgentBackend => ({
+  id: spec.id,
+  label: spec.label,
+  supportsPermissions: false,
+  run: (options, sender) => runCliBackend(spec, options, sender),
+})
+
+const backends: Record<AgentBackendId, AgentBackend> = {
+  'claude-code': claudeBackend,
+  codex: cliBackend(codexSpec),
+  'gemini-cli': cliBackend(geminiSpec),
+  // Plays back a recorded conversation log, for demos and UI testing
+  replay: {
+    id: 'replay',
+    label: 'Replay',
+    supportsPermissions: true,
+    run: runReplay,
+  },
+}
+
+/**
+ * Backend for a run, falling back to Claude for unknown or missing ids
+ */
+export function getAgentBackend(id?: AgentBackendId): AgentBackend {
+  return (id && backends[id]) || claudeBackend
+}
@@ -0,0 +1,75 @@
+import { appendFileSync, existsSync, readFileSync } from 'node:fs'
+import type { AuditLogEntry } from '../shared/types'
+
+// ============================================================================
+// Permission Audit Log
+// ============================================================================
+// LOGIC: Every canUseTool decision (auto-accepted, accepted by the user or
+// denied) is appended as one JSON line to the project's audit-log.jsonl, so
+// "who approved that rm?" can be answered after the conversation is gone.
+// The file is only ever appended to; the workspace's Audit section reads it
+// back and exports filtered entries as CSV or JSON.
+
+const CSV_COLUMNS: Array<keyof AuditLogEntry> = [
+  'timestamp',
+  'promptId',
+  'conversationTitle',
+  'toolName',
+  'decision',
+  'decidedBy',
+  'reason',
+  'inputEdited',
+  'toolInput',
+]
+
+/**
+ * Append a decision. Failures are logged, never thrown: a broken audit file
+ * must not stop the tool call.
+ */
+export function appendAuditEntry(auditLogPath: string, entry: AuditLogEntry) {
+  try {
+    appendFileSync(auditLogPath, `${JSON.stringify(entry)}\n`)
+  } catch (error) {
+    console.error('❌ [Audit] Failed to append audit entry:', error)
+  }
+}
+
+/**
+ * Read all entries, newest first. Lines that don't parse (e.g. a write cut
+ * off by a crash) are skipped.
+ */
+export function readAuditLog(auditLogPath: string): AuditLogEntry[] {
+  if (!existsSync(auditLogPath)) return []
+
+  const entries: AuditLogEntry[] = []
+  for (const line of readFileSync(auditLogPath, 'utf8').split('\n')) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line))
+    } catch {
+      console.warn('⚠️  [Audit] Skipping unreadable audit log line')
+    }
+  }
+  return entries.reverse()
+}
+
+const toCsvField = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize entries for export
+ */
+export function formatAuditLog(
+  entries: AuditLogEntry[],
+  format: 'csv' | 'json'
+): string {
+  if (format === 'json') return JSON.stringify(entries, null, 2)
+
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column => toCsvField(entry[column])).join(',')
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
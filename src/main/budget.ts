@@ -0,0 +1,73 @@
+import type { BudgetLimits } from '../shared/types'
+
+// ============================================================================
+// Cost Estimation
+// ============================================================================
+// The SDK only reports the real cost in the final `result` message, so while a
+// run is in progress we estimate it from each assistant message's token usage.
+// Prices are USD per million tokens, by model family.
+
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  opus: { input: 15, output: 75 },
+  sonnet: { input: 3, output: 15 },
+  haiku: { input: 1, output: 5 },
+}
+
+// Cache writes cost 1.25x input, cache reads 0.1x input
+const CACHE_WRITE_MULTIPLIER = 1.25
+const CACHE_READ_MULTIPLIER = 0.1
+
+/**
+ * Estimate the USD cost of one assistant message from its token usage.
+ * Unknown models are priced as Opus so the estimate errs on the high side.
+ */
+export const estimateMessageCostUsd = (model: string, usage: any): number => {
+  if (!usage) return 0
+
+  const family =
+    Object.keys(MODEL_PRICING).find(name =>
+      model?.toLowerCase().includes(name)
+    ) || 'opus'
+  const pricing = MODEL_PRICING[family]
+
+  const inputTokens =
+    (usage.input_tokens || 0) +
+    (usage.cache_creation_input_tokens || 0) * CACHE_WRITE_MULTIPLIER +
+    (usage.cache_read_input_tokens || 0) * CACHE_READ_MULTIPLIER
+  const outputTokens = usage.output_tokens || 0
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1e6
+}
+
+// ============================================================================
+// Budget Resolution
+// ============================================================================
+
+/**
+ * Combine project-level and per-prompt limits. A prompt can tighten the
+ * project's limits but not raise them, so the smaller one applies when both
+ * are set; unset or zero values mean "no limit".
+ */
+export const resolveBudgetLimits = (
+  projectBudget?: BudgetLimits,
+  promptBudget?: BudgetLimits
+): BudgetLimits => {
+  const pick = (key: keyof BudgetLimits) => {
+    const limits = [promptBudget?.[key], projectBudget?.[key]].filter(
+      (limit): limit is number => !!limit
+    )
+    return limits.length > 0 ? Math.min(...limits) : undefined
+  }
+
+  return {
+    maxCostUsd: pick('maxCostUsd'),
+    maxTurns: pick('maxTurns'),
+    maxDurationMinutes: pick('maxDurationMinutes'),
+  }
+}
+
+/**
+ * Whether any limit is set
+ */
+export const hasBudgetLimits = (budget?: BudgetLimits): boolean =>
+  !!(budget?.maxCostUsd || budget?.maxTurns || budget?.maxDurationMinutes)
@@ -1,13 +1,56 @@
 import {
   query,
+  type AgentDefinition,
   type CanUseTool,
+  type McpStdioServerConfig,
   type PermissionResult,
 } from '@anthropic-ai/claude-agent-sdk'
 import type { BrowserWindow } from 'electron'
 import { app, ipcMain } from 'electron'
 import { join } from 'node:path'
+import { execFileSync } from 'node:child_process'
 import { existsSync } from 'node:fs'
 import { homedir, userInfo, tmpdir } from 'node:os'
+import { randomUUID } from 'node:crypto'
+import type {
+  BudgetLimits,
+  AuditLogEntry,
+  ConversationErrorCode,
+  GuardrailAssessment,
+  GuardrailPolicy,
+  RetryPolicy,
+  ToolHook,
+  ToolPermissionRule,
+} from '../shared/types'
+import {
+  evaluatePermissionRules,
+  describePermissionRule,
+} from './permission-rules'
+import {
+  assessToolRisk,
+  describeGuardrailAssessment,
+  getGuardrailAction,
+  DEFAULT_GUARDRAIL_POLICY,
+} from './guardrails'
+import { estimateMessageCostUsd } from './budget'
+import { agentAllowsTool } from './mcp-servers'
+import { buildToolHooks } from './tool-hooks'
+import { snapshotWorktree } from './conversation-fork'
+import { recordJournalState, removeJournalRun } from './run-journal'
+import {
+  classifyTransientError,
+  getRetryDelayMs,
+  DEFAULT_RETRY_POLICY,
+  RETRY_CONTINUE_PROMPT,
+  TRANSIENT_ERROR_LABELS,
+} from './retry-policy'
+import { classifyConversationError } from './conversation-errors'
+import {
+  maskSecrets,
+  maskValue,
+  restoreMaskedInput,
+  wildcardSecrets,
+} from './project-env'
 
 // ============================================================================
 // PATH Augmentation - Runs IMMEDIATELY at Module Load Time
@@ -53,6 +96,50 @@ import { homedir, userInfo, tmpdir } from 'node:os'
   }
 })()
 
+/**
+ * Merge the login shell's PATH into ours, for node installs the fixed list
+ * above misses (nvm, fnm, volta, asdf). Used by the "Fix PATH" action after
+ * a run failed with 'command_not_found'.
+ */
+export function refreshPathFromLoginShell(): {
+  success: boolean
+  nodePath?: string
+  addedPaths: string[]
+  error?: string
+} {
+  const shell = process.env.SHELL || '/bin/zsh'
+  try {
+    // Interactive login shells can print banners, so PATH is the last line
+    const output = execFileSync(shell, ['-ilc', 'printf "\\n%s" "$PATH"'], {
+      encoding: 'utf8',
+      timeout: 10000,
+    })
+    const shellPath = output.trim().split('\n').pop() || ''
+
+    const currentPaths = (process.env.PATH || '').split(':')
+    const addedPaths = shellPath
+      .split(':')
+      .filter(p => p && !currentPaths.includes(p) && existsSync(p))
+    if (addedPaths.length > 0) {
+      process.env.PATH = [...addedPaths, ...currentPaths].join(':')
+      console.log(`🔧 [PATH] Added from ${shell}: ${addedPaths.join(', ')}`)
+    }
+
+    const nodeDir = process.env.PATH?.split(':').find(p =>
+      existsSync(join(p, 'node'))
+    )
+    return {
+      success: Boolean(nodeDir),
+      nodePath: nodeDir ? join(nodeDir, 'node') : undefined,
+      addedPaths,
+      error: nodeDir ? undefined : `node was not found on ${shell}'s PATH`,
+    }
+  } catch (error: any) {
+    console.error('❌ [PATH] Failed to read the login shell PATH:', error)
+    return { success: false, addedPaths: [], error: error.message }
+  }
+}
+
 // ============================================================================
 // SDK Path Resolution (Development vs Production)
 // ============================================================================
@@ -228,18 +315,42 @@ export interface ConversationState {
     | 'completed'
     | 'error'
     | 'aborted'
+    | 'budget_exceeded'
+    | 'queued'
+    | 'interrupted'
+    | 'retrying'
   sessionId?: string
+  queuePosition?: number // 1-based position while status is 'queued'
+  retryAttempt?: number // Retries so far (see retry-policy.ts)
+  maxRetryAttempts?: number
+  nextRetryAt?: number // Epoch ms of the next attempt while 'retrying'
   pendingPermission?: {
     requestId: string
     toolName: string
     toolInput: any
+    guardrail?: GuardrailAssessment
   }
   error?: string
+  errorCode?: ConversationErrorCode
+  errorHint?: string
   lastUpdated: number
 }
 
 const conversationStateCache = new Map<string, ConversationState>()
 
+// Project secret values of each conversation's current run. Tool inputs and
+// errors in its state are masked with them before the state is cached,
+// journaled and broadcast; maskSender only covers 'command-output'.
+const runSecretValues = new Map<string, string[]>()
+
+/**
+ * Set the secret values to mask in a conversation's state (see
+ * resolveProjectEnv)
+ */
+export function registerRunSecrets(promptId: string, secretValues: string[]) {
+  runSecretValues.set(promptId, secretValues)
+}
+
 /**
  * Update the auto-accept state for a specific conversation
  * Called via IPC when user toggles the auto-accept switch
@@ -254,7 +365,7 @@ export function updateAutoAcceptState(promptId: string, enabled: boolean) {
 /**
  * Get the current auto-accept state for a conversation
  */
-function getAutoAcceptState(
+export function getAutoAcceptState(
   promptId: string | undefined,
   fallback: boolean
 ): boolean {
@@ -272,6 +383,21 @@ function clearAutoAcceptState(promptId: string | undefined) {
   }
 }
 
+/**
+ * Let abortQuery stop a run started by another agent backend (see
+ * cli-backends.ts). The Claude backend registers its own controller.
+ */
+export function registerAbortController(
+  promptId: string,
+  controller: AbortController
+) {
+  abortControllers.set(promptId, controller)
+}
+
+export function releaseAbortController(promptId: string) {
+  abortControllers.delete(promptId)
+}
+
 // ============================================================================
 // Conversation State Management Functions
 // ============================================================================
@@ -298,9 +424,21 @@ export function updateConversationState(
     lastUpdated: Date.now(),
   }
 
+  const secretValues = runSecretValues.get(promptId) || []
+  if (secretValues.length > 0) {
+    if (updated.error) updated.error = maskSecrets(updated.error, secretValues)
+    if (updated.pendingPermission) {
+      updated.pendingPermission = maskValue(
+        updated.pendingPermission,
+        secretValues
+      ) as ConversationState['pendingPermission']
+    }
+  }
+
   conversationStateCache.set(promptId, updated)
+  recordJournalState(updated)
   console.log(
-    `📡 [State] Updated ${promptId}: ${updated.status}${updates.error ? ` (${updates.error})` : ''}`
+    `📡 [State] Updated ${promptId}: ${updated.status}${updates.error ? ` (${updated.error})` : ''}`
   )
 
   // Broadcast to all renderer windows
@@ -333,6 +471,8 @@ export function getAllConversationStates(): ConversationState[] {
  */
 export function clearConversationState(promptId: string) {
   conversationStateCache.delete(promptId)
+  runSecretValues.delete(promptId)
+  removeJournalRun(promptId)
   console.log(`🧹 [State] Cleared conversation state for ${promptId}`)
 
   // Broadcast deletion
@@ -357,11 +497,35 @@ export interface ClaudeSDKOptions {
   allowedTools?: string[]
   permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
   resume?: string // Session ID to resume
+  resumeSessionAt?: string // Resume only up to this assistant message ID (forks)
+  forkSession?: boolean // Continue the resumed session under a new session ID (forks)
   abortController?: AbortController
   // New fields for permission system:
   promptId?: string // Which conversation is this (needed to route permissions)
   conversationTitle?: string // Display name for UI (first 50 chars of prompt)
   autoAcceptEnabled?: boolean // Whether auto-accept is enabled (bypass permissions)
+  model?: string // Model for this run; overrides ANTHROPIC_MODEL from the auth provider
+  getPermissionRules?: () => ToolPermissionRule[] // Project allow/deny rules, re-read on every tool call
+  addPermissionRule?: (rule: ToolPermissionRule) => void // Saves an "Always allow" rule to the project
+  getGuardrailPolicy?: () => GuardrailPolicy | undefined // Project guardrails, re-read on every tool call
+  // Prompt agent fields (resolved from ~/.almondcoder/agents/prompts.json):
+  agentName?: string // Display name of the selected agent (for logs and denials)
+  appendSystemPrompt?: string // Agent system prompt appended to the claude_code preset
+  agentTools?: string[] // If non-empty, only these tools may be used in this run
+  // Budget fields (project budget merged with the prompt's own limits):
+  budget?: BudgetLimits
+  spentCostUsd?: number // Cost of earlier runs of this conversation, counted against maxCostUsd
+  onBudgetStop?: (estimatedCostUsd: number) => void // Run was aborted before the SDK reported its cost
+  onPermissionDecision?: (entry: Omit<AuditLogEntry, 'id' | 'timestamp'>) => void // Every canUseTool decision, for the audit log
+  mcpServers?: Record<string, McpStdioServerConfig> // Enabled global + project MCP servers
+  agents?: Record<string, AgentDefinition> // Subagents the Task tool can delegate to
+  toolHooks?: ToolHook[] // Project hooks, run in workingDirectory around tool calls
+  projectEnv?: Record<string, string> // Project variables and .env, added to the CLI's environment
+  nonInteractive?: boolean // No one can answer permission requests (headless runs)
+  replayLogPath?: string // Recorded conversation log played by the replay backend
+  retryPolicy?: RetryPolicy // Retries for overloaded, rate-limit and network errors
+  retryAttempt?: number // Retries already made for this run (set when retrying)
+  durationDeadline?: number // Epoch ms when maxDurationMinutes runs out (set when retrying)
 }
 
 export async function abortQuery(
@@ -395,8 +559,13 @@ export async function abortQuery(
     // Clean up abort controller
     abortControllers.delete(prompId)
 
-    // Update conversation state to 'aborted'
-    updateConversationState(prompId, 'aborted')
+    // Update conversation state to 'aborted'. Runs cancelled while waiting
+    // (a retry backoff, a pending permission) rely on this being the final state
+    updateConversationState(prompId, {
+      status: 'aborted',
+      pendingPermission: undefined,
+      nextRetryAt: undefined,
+    })
   } else {
     console.log(`Query ${prompId} not found`)
   }
@@ -412,20 +581,71 @@ export async function executeClaudeQuery(
     allowedTools = ['Read', 'Glob', 'Grep'],
     permissionMode = 'default', // Changed from 'acceptEdits' to 'default' to use canUseTool
     resume,
+    resumeSessionAt,
+    forkSession,
     promptId,
     conversationTitle,
     autoAcceptEnabled = false,
     abortController = new AbortController(),
+    model,
+    getPermissionRules = () => [],
+    addPermissionRule,
+    getGuardrailPolicy = () => undefined,
+    agentName,
+    appendSystemPrompt,
+    agentTools = [],
+    nonInteractive = false,
+    retryPolicy = DEFAULT_RETRY_POLICY,
+    retryAttempt = 0,
+    budget = {},
+    durationDeadline = budget.maxDurationMinutes
+      ? Date.now() + budget.maxDurationMinutes * 60 * 1000
+      : undefined,
+    spentCostUsd = 0,
+    onBudgetStop,
+    onPermissionDecision,
+    mcpServers = {},
+    agents = {},
+    toolHooks = [],
+    projectEnv = {},
   } = options
 
+  // ============================================================================
+  // Apply Agent Tool Restrictions
+  // ============================================================================
+  // LOGIC: allowedTools are pre-approved by the SDK and never reach canUseTool,
+  // so when an agent restricts its tools we must also drop any pre-approved
+  // tool the agent doesn't list. Everything else is enforced in canUseTool.
+  const isToolRestricted = agentTools.length > 0
+  const agentAllowedTools = isToolRestricted
+    ? allowedTools.filter(tool => agentAllowsTool(agentTools, tool))
+    : allowedTools
+
+  // Project rules are checked in canUseTool too, so tools with a rule aren't
+  // pre-approved. Calls no rule decides are still allowed there (see
+  // rulePreApprovedTools); rules added mid-run apply from the next run.
+  const ruleToolNames = new Set(getPermissionRules().map(rule => rule.toolName))
+  const effectiveAllowedTools = agentAllowedTools.filter(
+    tool => !ruleToolNames.has(tool)
+  )
+  const rulePreApprovedTools = agentAllowedTools.filter(tool =>
+    ruleToolNames.has(tool)
+  )
+
   console.log('Starting Claude SDK query:', {
     prompt: prompt.substring(0, 50),
     workingDirectory,
-    allowedTools,
+    allowedTools: effectiveAllowedTools,
     permissionMode,
     resume,
     promptId,
     autoAcceptEnabled,
+    model,
+    agentName,
+    agentTools,
+    budget,
+    spentCostUsd,
+    mcpServers: Object.keys(mcpServers),
     abortController,
   })
 
@@ -459,10 +679,104 @@ export async function executeClaudeQuery(
     updateConversationState(promptId, {
       status: 'running',
       sessionId: resume,
+      error: undefined,
+      errorCode: undefined,
+      errorHint: undefined,
+      queuePosition: undefined,
+      nextRetryAt: undefined,
     })
   }
 
   let messageCount = 0
+  let runSessionId = resume // Latest session ID, resumed when retrying
+  let resultError: string | undefined // API error reported in the result message
+  let stderrOutput = '' // Tail of the CLI's stderr, checked for transient errors
+
+  // ============================================================================
+  // Budget Enforcement
+  // ============================================================================
+  // LOGIC: maxTurns is enforced by the SDK itself (it ends with an
+  // 'error_max_turns' result). Cost and wall time are enforced here by
+  // aborting the query; cost is estimated from assistant message usage until
+  // the result message reports the real total.
+  let budgetExceeded: string | undefined
+  let runCostUsd = 0
+  let resultReceived = false
+  const countedMessageIds = new Set<string>()
+
+  const stopForBudget = (reason: string) => {
+    if (budgetExceeded) return
+    budgetExceeded = reason
+    console.warn(`💸 [Budget] ${promptId}: ${reason}, aborting query`)
+    abortController.abort()
+  }
+
+  // Retries keep the first attempt's deadline, so backoffs and retries
+  // count against the same wall time
+  const durationTimer = durationDeadline
+    ? setTimeout(
+        () =>
+          stopForBudget(
+            `Time limit of ${budget.maxDurationMinutes} min reached`
+          ),
+        Math.max(durationDeadline - Date.now(), 0)
+      )
+    : undefined
+
+  const trackBudget = (message: any) => {
+    if (message.type === 'assistant') {
+      // Partial and tool-use messages share one API message id; count it once
+      const messageId = message.message?.id
+      if (messageId && countedMessageIds.has(messageId)) return
+      if (messageId) countedMessageIds.add(messageId)
+      runCostUsd += estimateMessageCostUsd(
+        message.message?.model || model,
+        message.message?.usage
+      )
+    } else if (message.type === 'result') {
+      resultReceived = true
+      runCostUsd = message.total_cost_usd ?? runCostUsd
+      if (message.subtype === 'error_max_turns') {
+        budgetExceeded = `Turn limit of ${budget.maxTurns} reached`
+      }
+    } else {
+      return
+    }
+
+    const totalCostUsd = spentCostUsd + runCostUsd
+    if (budget.maxCostUsd && totalCostUsd > budget.maxCostUsd) {
+      stopForBudget(
+        `Cost limit of $${budget.maxCostUsd.toFixed(2)} exceeded ($${totalCostUsd.toFixed(2)} spent)`
+      )
+    }
+  }
+
+  const finishBudgetStop = () => {
+    if (!budgetExceeded) return false
+
+    if (!resultReceived) onBudgetStop?.(runCostUsd)
+    clearAutoAcceptState(promptId)
+
+    if (promptId) {
+      abortControllers.delete(promptId)
+      // Kept until the next run so the UI can show which limit was hit
+      updateConversationState(promptId, {
+        status: 'budget_exceeded',
+        pendingPermission: undefined,
+        error: budgetExceeded,
+      })
+    }
+    return true
+  }
+
+  // Don't start a run the conversation can no longer afford
+  if (budget.maxCostUsd && spentCostUsd >= budget.maxCostUsd) {
+    clearTimeout(durationTimer)
+    budgetExceeded = `Cost limit of $${budget.maxCostUsd.toFixed(2)} already reached ($${spentCostUsd.toFixed(2)} spent)`
+    console.warn(`💸 [Budget] ${promptId}: ${budgetExceeded}, not starting`)
+    finishBudgetStop()
+    return
+  }
 
   // ============================================================================
   // canUseTool Callback - Permission System Core
@@ -471,13 +785,141 @@ export async function executeClaudeQuery(
   // We intercept tool execution to ask the user for permission.
   //
   // Flow:
-  // 1. If auto-accept is enabled → immediately return 'allow'
-  // 2. If auto-accept is OFF → pause execution, send IPC to renderer asking for permission
-  // 3. Wait for user to either Accept (allow) or type new prompt (deny)
-  // 4. Return PermissionResult to SDK which continues or blocks the tool
+  // 1. If a project deny rule matches → immediately return 'deny'
+  // 2. If guardrails block the call → 'deny'; if they require approval → step 5
+  // 3. If a project allow rule matches → immediately return 'allow'
+  // 4. If auto-accept is enabled → immediately return 'allow'
+  // 5. If auto-accept is OFF → pause execution, send IPC to renderer asking for permission
+  // 6. Wait for user to either Accept (allow) or type new prompt (deny)
+  // 7. Return PermissionResult to SDK which continues or blocks the tool
   const canUseTool: CanUseTool = async (toolName, toolInput, { signal }) => {
     console.log(`🔒 [Permission] Tool "${toolName}" requesting permission`)
 
+    // AUDIT: Every decision below is recorded before it is returned
+    const recordDecision = (
+      decision: AuditLogEntry['decision'],
+      decidedBy: AuditLogEntry['decidedBy'],
+      details: Pick<AuditLogEntry, 'reason' | 'toolInput' | 'inputEdited'> = {
+        toolInput,
+      }
+    ) => {
+      if (!promptId) return
+      onPermissionDecision?.({
+        promptId,
+        conversationTitle: conversationTitle || prompt.substring(0, 50),
+        toolName,
+        decision,
+        decidedBy,
+        ...details,
+      })
+    }
+
+    // PLAN REVIEW: In plan mode Claude presents its plan through ExitPlanMode.
+    // The plan always goes to the user, regardless of rules, auto-accept or
+    // the agent's tool list
+    const isPlanReview = toolName === 'ExitPlanMode'
+
+    // AGENT RESTRICTION: Tools outside the agent's list are denied outright,
+    // even when auto-accept is on
+    if (
+      isToolRestricted &&
+      !isPlanReview &&
+      !agentAllowsTool(agentTools, toolName)
+    ) {
+      console.log(
+        `🚫 [Permission] "${toolName}" is not in agent "${agentName}" tool list, denying`
+      )
+      recordDecision('denied', 'agent', {
+        toolInput,
+        reason: `Not in the tool list of agent "${agentName}"`,
+      })
+      return {
+        behavior: 'deny',
+        message: `The "${toolName}" tool is not available to the "${agentName || 'selected'}" agent. Available tools: ${agentTools.join(', ')}`,
+      }
+    }
+
+    // PROJECT RULES: Persistent allow/deny rules decide before auto-accept or
+    // asking the user. Rules are re-read so edits apply to running conversations
+    const matchedRule = isPlanReview
+      ? undefined
+      : evaluatePermissionRules(getPermissionRules(), toolName, toolInput)
+
+    if (matchedRule?.behavior === 'deny') {
+      console.log(
+        `🚫 [Permission] Rule "${describePermissionRule(matchedRule)}" denied "${toolName}"`
+      )
+      recordDecision('denied', 'permission_rule', {
+        toolInput,
+        reason: describePermissionRule(matchedRule),
+      })
+      return {
+        behavior: 'deny',
+        message: `This ${toolName} call is blocked by a project permission rule (${describePermissionRule(matchedRule)}). Do not retry it; find another approach or ask the user.`,
+      }
+    }
+
+    // GUARDRAILS: Risky commands and paths are blocked, or need the user's
+    // approval even when an allow rule or auto-accept would let them through
+    const guardrailPolicy: GuardrailPolicy = {
+      ...DEFAULT_GUARDRAIL_POLICY,
+      ...getGuardrailPolicy(),
+    }
+    const assessment = isPlanReview
+      ? undefined
+      : assessToolRisk(
+          toolName,
+          toolInput,
+          workingDirectory,
+          guardrailPolicy.allowedPaths
+        )
+    const guardrailAction = assessment
+      ? getGuardrailAction(assessment, guardrailPolicy)
+      : 'allow'
+    const guardrail = guardrailAction === 'ask' ? assessment : undefined
+
+    if (assessment && guardrailAction === 'block') {
+      console.log(
+        `🛑 [Guardrails] Blocked "${toolName}" (${describeGuardrailAssessment(assessment)})`
+      )
+      recordDecision('denied', 'guardrail', {
+        toolInput,
+        reason: describeGuardrailAssessment(assessment),
+      })
+      return {
+        behavior: 'deny',
+        message: `This ${toolName} call is blocked by the project's guardrails (${describeGuardrailAssessment(assessment)}). Do not retry it; find a safer approach or ask the user to run it themselves.`,
+      }
+    }
+
+    if (guardrail) {
+      console.log(
+        `⚠️  [Guardrails] "${toolName}" needs manual approval (${describeGuardrailAssessment(guardrail)})`
+      )
+    }
+
+    if (matchedRule?.behavior === 'allow' && !guardrail) {
+      console.log(
+        `✅ [Permission] Rule "${describePermissionRule(matchedRule)}" allowed "${toolName}"`
+      )
+      recordDecision('auto_accepted', 'permission_rule', {
+        toolInput,
+        reason: describePermissionRule(matchedRule),
+      })
+      return { behavior: 'allow', updatedInput: toolInput }
+    }
+
+    // Pre-approved tools only come here because they have a project rule;
+    // calls no rule denied keep their pre-approval
+    if (rulePreApprovedTools.includes(toolName) && !guardrail) {
+      console.log(`✅ [Permission] "${toolName}" is pre-approved, allowing`)
+      recordDecision('auto_accepted', 'auto_accept', {
+        toolInput,
+        reason: 'Pre-approved tool with no matching project rule',
+      })
+      return { behavior: 'allow', updatedInput: toolInput }
+    }
+
     // ============================================================================
     // ✅ FIX: Read from in-memory cache instead of stale closure
     // ============================================================================
@@ -488,13 +930,32 @@ export async function executeClaudeQuery(
     console.log(`   Auto-accept enabled (from cache): ${currentAutoAccept}`)
 
     // FAST PATH: If auto-accept is enabled, immediately allow without asking
-    if (currentAutoAccept) {
+    if (currentAutoAccept && !isPlanReview && !guardrail) {
       console.log(
         `✅ [Permission] Auto-accept enabled, allowing "${toolName}" immediately`
       )
+      recordDecision('auto_accepted', 'auto_accept')
       return { behavior: 'allow', updatedInput: toolInput }
     }
 
+    // NON-INTERACTIVE: Headless runs have no one to ask, so anything not
+    // allowed by a rule or auto-accept is denied
+    if (nonInteractive) {
+      console.log(
+        `🚫 [Permission] No one to approve "${toolName}" in a headless run, denying`
+      )
+      recordDecision('denied', 'non_interactive', {
+        toolInput,
+        reason: guardrail ? describeGuardrailAssessment(guardrail) : undefined,
+      })
+      return {
+        behavior: 'deny',
+        message: guardrail
+          ? `${toolName} needs manual approval under the project's guardrails (${describeGuardrailAssessment(guardrail)}), but this run is non-interactive. Continue without it if you can.`
+          : `${toolName} needs approval, but this run is non-interactive. Only tools allowed by project permission rules can be used; continue without it if you can.`,
+      }
+    }
+
     // PERMISSION NEEDED: Auto-accept is OFF, we must ask the user
     // Generate unique request ID to track this specific permission request
     const requestId = `${promptId || 'unknown'}-${Date.now()}-${Math.random()}`
@@ -513,6 +974,7 @@ export async function executeClaudeQuery(
       toolName,
       toolInput,
       timestamp: Date.now(),
+      guardrail,
     })
 
     // ✅ Update conversation state to 'waiting_permission'
@@ -523,6 +985,7 @@ export async function executeClaudeQuery(
           requestId,
           toolName,
           toolInput,
+          guardrail,
         },
       })
     }
@@ -538,14 +1001,72 @@ export async function executeClaudeQuery(
       // ============================================================================
       // Listen for Accept Response
       // ============================================================================
-      // LOGIC: User clicked "Accept" button in the UI
-      const acceptListener = (_event: any, data: { requestId: string }) => {
+      // LOGIC: User clicked "Accept" button in the UI. If they edited the tool
+      // input first (e.g. fixed a Bash command), the edited input replaces
+      // Claude's original input. The renderer only sees masked secrets, so
+      // the edit is applied on top of the unmasked input (restoreMaskedInput)
+      const acceptListener = (
+        _event: any,
+        data: {
+          requestId: string
+          updatedInput?: Record<string, unknown>
+          alwaysAllow?: boolean
+        }
+      ) => {
         if (data.requestId !== requestId) return // Not for this request, ignore
 
         cleanup()
+        const secretValues = (promptId && runSecretValues.get(promptId)) || []
+        let approvedInput = toolInput
+        try {
+          if (data.updatedInput) {
+            approvedInput = restoreMaskedInput(
+              toolInput,
+              data.updatedInput,
+              secretValues
+            ) as Record<string, unknown>
+          }
+        } catch (error: any) {
+          console.warn(
+            `⚠️  [Permission] Could not apply edited input for "${toolName}": ${error.message}`
+          )
+          recordDecision('denied', 'user', { toolInput, reason: error.message })
+          if (promptId) {
+            updateConversationState(promptId, {
+              status: 'running',
+              pendingPermission: undefined,
+            })
+          }
+          resolve({
+            behavior: 'deny',
+            message: `The user's edit to this tool call could not be applied (${error.message}). Ask the user how to proceed.`,
+          })
+          return
+        }
+
+        // "Always allow" rules are built here rather than in the renderer, so
+        // they match the real command; secrets become wildcards (see
+        // wildcardSecrets) so they aren't stored in project settings
+        if (data.alwaysAllow && addPermissionRule) {
+          addPermissionRule({
+            id: randomUUID(),
+            toolName,
+            pattern:
+              toolName === 'Bash'
+                ? wildcardSecrets(String(approvedInput.command), secretValues)
+                : undefined,
+            behavior: 'allow',
+            createdAt: new Date(),
+          })
+        }
         console.log(
-          `✅ [Permission] User accepted "${toolName}" for request ${requestId}`
+          `✅ [Permission] User accepted "${toolName}" for request ${requestId}${data.updatedInput ? ' (with edited input)' : ''}`
         )
+        recordDecision('user_accepted', 'user', {
+          toolInput: approvedInput,
+          inputEdited: Boolean(data.updatedInput),
+          reason: guardrail ? describeGuardrailAssessment(guardrail) : undefined,
+        })
 
         // ✅ Update conversation state back to 'running'
         if (promptId) {
@@ -555,8 +1076,22 @@ export async function executeClaudeQuery(
           })
         }
 
+        // Approving a plan leaves plan mode so the same session continues
+        // in edit mode (tool permissions still go through this callback)
+        if (isPlanReview) {
+          console.log('📋 [Plan] Plan approved, switching session to edit mode')
+          resolve({
+            behavior: 'allow',
+            updatedInput: approvedInput,
+            updatedPermissions: [
+              { type: 'setMode', mode: 'default', destination: 'session' },
+            ],
+          })
+          return
+        }
+
         // Allow the tool to execute
-        resolve({ behavior: 'allow', updatedInput: toolInput })
+        resolve({ behavior: 'allow', updatedInput: approvedInput })
       }
 
       // ============================================================================
@@ -574,6 +1109,20 @@ export async function executeClaudeQuery(
         console.log(
           `❌ [Permission] User cancelled "${toolName}" with new prompt: "${data.newPrompt.substring(0, 50)}..."`
         )
+        recordDecision('denied', 'user', {
+          toolInput,
+          reason: data.newPrompt,
+        })
+
+        // Rejecting a plan keeps the session in plan mode, so the feedback
+        // produces a revised plan rather than edits
+        if (isPlanReview) {
+          resolve({
+            behavior: 'deny',
+            message: `The user rejected this plan with the following feedback: "${data.newPrompt}". Revise the plan to address the feedback and present it again with ExitPlanMode.`,
+          })
+          return
+        }
 
         // Deny the tool and pass the new prompt as context to Claude
         resolve({
@@ -629,6 +1178,8 @@ export async function executeClaudeQuery(
       LANG: process.env.LANG || 'en_US.UTF-8',
       // AWS_SDK_LOAD_CONFIG: Explicitly tell AWS SDK to load ~/.aws/config
       AWS_SDK_LOAD_CONFIG: '1',
+      // Project variables win over the app's environment (see project-env.ts)
+      ...projectEnv,
     }
 
     console.log(`🔍 [SDK Query] Environment prepared for CLI spawn:`)
@@ -637,20 +1188,52 @@ export async function executeClaudeQuery(
     console.log(`   TMPDIR: ${spawnEnv.TMPDIR}`)
     console.log(`   LANG: ${spawnEnv.LANG}`)
     console.log(`   AWS_SDK_LOAD_CONFIG: ${spawnEnv.AWS_SDK_LOAD_CONFIG}`)
+    if (Object.keys(projectEnv).length > 0) {
+      console.log(`   Project env: ${Object.keys(projectEnv).join(', ')}`)
+    }
 
     const result = query({
       prompt,
       options: {
         cwd: workingDirectory,
-        allowedTools,
+        allowedTools: effectiveAllowedTools,
         permissionMode, // Now 'default' instead of 'acceptEdits'
         canUseTool, // ✨ ADD OUR CUSTOM PERMISSION CALLBACK
         resume, // Session resumption
-        includePartialMessages: false,
-        abortController, // CRITICAL: Enable streaming of partial messages
+        resumeSessionAt,
+        forkSession,
+        model, // undefined falls back to ANTHROPIC_MODEL / CLI default
+        maxTurns: budget.maxTurns || undefined,
+        mcpServers, // MCP tools (mcp__<server>__<tool>) go through canUseTool like any other
+        agents, // Subagents for Task; their tool calls also go through canUseTool
+        hooks: toolHooks.some(hook => hook.enabled)
+          ? buildToolHooks(toolHooks, workingDirectory, projectEnv, result => {
+              // Reported like an SDK message so it is logged and shown inline
+              sender.send('command-output', {
+                type: 'stdout',
+                data: `${JSON.stringify({
+                  type: 'hook_result',
+                  event: result.hook.event,
+                  command: result.hook.command,
+                  toolName: result.toolName,
+                  exitCode: result.exitCode,
+                  output: result.output,
+                  blocked: result.blocked,
+                })}\n`,
+                rawData: false,
+                promptId: promptId,
+              })
+            })
+          : undefined,
+        stderr: data => {
+          stderrOutput = (stderrOutput + data).slice(-4000)
+        },
+        includePartialMessages: true, // Stream text deltas as 'stream_event' messages
+        abortController,
         systemPrompt: {
           type: 'preset',
           preset: 'claude_code',
+          append: appendSystemPrompt || undefined,
         },
         // ✨ CRITICAL FIX: Pass complete environment with all required variables
         env: spawnEnv,
@@ -661,9 +1244,31 @@ export async function executeClaudeQuery(
     // This ensures real-time output to the user
     for await (const message of result) {
       messageCount++
+      trackBudget(message)
+      if (message.session_id) runSessionId = message.session_id
+      if (message.type === 'result' && message.is_error) {
+        resultError =
+          message.subtype === 'success' ? message.result : message.subtype
+      }
+
+      // Record the worktree state at the end of the turn, so a later fork
+      // from this turn starts from it (see resolveForkStartPoint)
+      const worktreeSnapshot =
+        message.type === 'result'
+          ? await snapshotWorktree(workingDirectory).catch(error => {
+              console.warn(
+                `⚠️  [Fork] Failed to snapshot the worktree: ${error.message}`
+              )
+              return undefined
+            })
+          : undefined
 
       // Convert SDK message to JSON string (matching CLI output format)
-      const jsonMessage = JSON.stringify(message)
+      const jsonMessage = JSON.stringify(
+        worktreeSnapshot
+          ? { ...message, worktree_snapshot: worktreeSnapshot }
+          : message
+      )
 
       // IMMEDIATELY send to renderer - no buffering!
       // This sends each message as soon as it's received from the SDK
@@ -672,13 +1277,24 @@ export async function executeClaudeQuery(
         data: `${jsonMessage}\n`, // Add newline to match CLI format
         rawData: false, // This is JSON, not ANSI
         promptId: promptId, // Identify which conversation this message belongs to
+        partial: message.type === 'stream_event', // Display-only chunk, never persisted
       })
     }
 
+    clearTimeout(durationTimer)
+
+    // API errors (e.g. overloaded) can end the stream with an error result
+    // instead of throwing; let the retry logic below see them
+    if (resultError && classifyTransientError(resultError)) {
+      throw new Error(resultError)
+    }
+
     console.log(
       `✅ Claude SDK query completed successfully (${messageCount} messages)`
     )
 
+    if (finishBudgetStop()) return
+
     // ============================================================================
     // Cleanup and Mark as Completed
     // ============================================================================
@@ -691,11 +1307,96 @@ export async function executeClaudeQuery(
       setTimeout(() => clearConversationState(promptId), 1000)
     }
   } catch (error) {
+    clearTimeout(durationTimer)
+
     console.error('❌ Error during Claude SDK query:', error)
     console.error(`   Streamed ${messageCount} messages before error`)
 
     // Send error message to renderer so user sees it
-    const errorMessage = error instanceof Error ? error.message : String(error)
+    const errorMessage = budgetExceeded
+      ? `Budget exceeded: ${budgetExceeded}`
+      : error instanceof Error
+        ? error.message
+        : String(error)
+
+    // ============================================================================
+    // Retry Transient Failures
+    // ============================================================================
+    // LOGIC: Overloaded, rate-limit and network errors resume the session after
+    // an exponential backoff. The wait shows as 'retrying' with a countdown and
+    // can be cancelled with abort like a running query.
+    const transientError =
+      budgetExceeded || abortController.signal.aborted
+        ? null
+        : classifyTransientError(errorMessage, stderrOutput)
+
+    if (
+      transientError &&
+      promptId &&
+      retryPolicy.enabled &&
+      retryAttempt < retryPolicy.maxAttempts
+    ) {
+      const attempt = retryAttempt + 1
+      const delayMs = getRetryDelayMs(retryPolicy, attempt)
+      const reason = `${TRANSIENT_ERROR_LABELS[transientError]}: ${errorMessage}`
+      console.warn(
+        `🔁 [Retry] ${reason}. Retry ${attempt}/${retryPolicy.maxAttempts} in ${Math.round(delayMs / 1000)}s`
+      )
+
+      updateConversationState(promptId, {
+        status: 'retrying',
+        sessionId: runSessionId,
+        pendingPermission: undefined,
+        error: reason,
+        retryAttempt: attempt,
+        maxRetryAttempts: retryPolicy.maxAttempts,
+        nextRetryAt: Date.now() + delayMs,
+      })
+
+      const resumed = await new Promise<boolean>(resolve => {
+        const timer = setTimeout(() => resolve(true), delayMs)
+        abortController.signal.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timer)
+            resolve(false)
+          },
+          { once: true }
+        )
+      })
+      // Cancelled during the backoff; abortQuery already set 'aborted'
+      if (!resumed) return
+
+      // Once any message arrived the session has the prompt, so it is told to
+      // continue; otherwise the prompt is sent again
+      return executeClaudeQuery(
+        {
+          ...options,
+          prompt: messageCount > 0 ? RETRY_CONTINUE_PROMPT : prompt,
+          resume: runSessionId,
+          // Once a fork's new session has started it is resumed as is
+          ...(runSessionId !== resume && {
+            resumeSessionAt: undefined,
+            forkSession: undefined,
+          }),
+          autoAcceptEnabled: getAutoAcceptState(promptId, autoAcceptEnabled),
+          spentCostUsd: spentCostUsd + runCostUsd,
+          retryAttempt: attempt,
+          durationDeadline,
+          abortController,
+        },
+        sender
+      )
+    }
+
+    // Stopped by the user: abortQuery already set 'aborted', which isn't a
+    // failure to report. A budget stop also aborts and is handled below
+    if (abortController.signal.aborted && !budgetExceeded) {
+      console.log('🛑 Claude SDK query aborted by the user')
+      clearAutoAcceptState(promptId)
+      return
+    }
+
     sender.send('command-output', {
       type: 'stderr',
       data: `${JSON.stringify({
@@ -707,11 +1408,14 @@ export async function executeClaudeQuery(
       promptId: promptId, // Identify which conversation this error belongs to
     })
 
-    // If we got at least one message, the query partially succeeded
-    // Don't throw if we got a result message (indicates completion)
-    if (messageCount > 0 && errorMessage.includes('exited with code 1')) {
+    // A budget stop is a deliberate abort, not a failure
+    if (finishBudgetStop()) return
+
+    // The CLI can exit with code 1 after it reported the result; the turn
+    // itself completed
+    if (resultReceived && errorMessage.includes('exited with code 1')) {
       console.log(
-        '⚠️  Process exited with code 1, but messages were received. Treating as success.'
+        '⚠️  Process exited with code 1 after the result message. Treating as success.'
       )
       // Cleanup cache even on partial success
       clearAutoAcceptState(promptId)
@@ -727,11 +1431,22 @@ export async function executeClaudeQuery(
     clearAutoAcceptState(promptId)
 
     if (promptId) {
+      // LOGIC: Classified errors stay in the state so the conversation view
+      // keeps showing their recovery action until the next run replaces them
+      const { errorCode, errorHint } = classifyConversationError(
+        `${errorMessage}\n${stderrOutput}`,
+        { workingDirectory }
+      )
+      console.log(`🏷️  [Error] Classified as ${errorCode}`)
       updateConversationState(promptId, {
         status: 'error',
         error: errorMessage,
+        errorCode,
+        errorHint,
       })
-      setTimeout(() => clearConversationState(promptId), 3000)
+      if (errorCode === 'unknown') {
+        setTimeout(() => clearConversationState(promptId), 3000)
+      }
     }
 
     throw error
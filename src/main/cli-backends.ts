@@ -0,0 +1,489 @@
+import { spawn } from 'node:child_process'
+import { createInterface } from 'node:readline'
+import type { BrowserWindow } from 'electron'
+import type { AgentBackendId, AgentMessage, AgentUsage } from '../shared/types'
+import {
+  clearConversationState,
+  registerAbortController,
+  releaseAbortController,
+  updateConversationState,
+  type ClaudeSDKOptions,
+} from './claude-sdk'
+import { classifyConversationError } from './conversation-errors'
+
+// ============================================================================
+// CLI Agent Backends
+// ============================================================================
+// LOGIC: Codex and Gemini CLI run headless and print JSON events, one per
+// line. Each backend translates its events into AgentMessages so the renderer
+// handles them exactly like Claude SDK messages. The CLIs can't ask us for
+// permission per tool call, so they run with their own read-only defaults;
+// their "full auto" modes would bypass agent tool lists, permission rules,
+// guardrails and the audit log, so runs that need those are refused (see
+// getUnsupportedPolicies).
+
+interface CliEventParser {
+  parseEvent: (event: any) => AgentMessage[]
+  flush: () => AgentMessage[] // Called when the process exits
+}
+
+export interface CliBackendSpec {
+  id: AgentBackendId
+  label: string
+  command: string
+  buildArgs: (options: ClaudeSDKOptions, prompt: string) => string[]
+  createParser: (options: ClaudeSDKOptions) => CliEventParser
+}
+
+// ============================================================================
+// AgentMessage Builders
+// ============================================================================
+
+const initMessage = (
+  sessionId: string,
+  model: string,
+  cwd: string
+): AgentMessage => ({
+  type: 'system',
+  subtype: 'init',
+  session_id: sessionId,
+  model,
+  cwd,
+})
+
+const textMessage = (
+  sessionId: string,
+  id: string,
+  model: string,
+  text: string
+): AgentMessage => ({
+  type: 'assistant',
+  session_id: sessionId,
+  message: { id, model, content: [{ type: 'text', text }] },
+})
+
+const toolUseMessage = (
+  sessionId: string,
+  id: string,
+  name: string,
+  input: any
+): AgentMessage => ({
+  type: 'assistant',
+  session_id: sessionId,
+  message: { content: [{ type: 'tool_use', id, name, input }] },
+})
+
+const toolResultMessage = (
+  sessionId: string,
+  toolUseId: string,
+  content: string,
+  isError: boolean
+): AgentMessage => ({
+  type: 'user',
+  session_id: sessionId,
+  message: {
+    content: [
+      {
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        content,
+        is_error: isError,
+      },
+    ],
+  },
+})
+
+const resultMessage = (
+  sessionId: string,
+  startedAt: number,
+  isError: boolean,
+  usage?: AgentUsage
+): AgentMessage => ({
+  type: 'result',
+  subtype: isError ? 'error_during_execution' : 'success',
+  session_id: sessionId,
+  is_error: isError,
+  duration_ms: Date.now() - startedAt,
+  num_turns: 1,
+  usage,
+})
+
+// ============================================================================
+// Codex (`codex exec --json`)
+// ============================================================================
+
+export const codexSpec: CliBackendSpec = {
+  id: 'codex',
+  label: 'Codex',
+  command: 'codex',
+  buildArgs: (options, prompt) => [
+    'exec',
+    '--json',
+    '--skip-git-repo-check',
+    '--sandbox',
+    'read-only',
+    ...(options.resume ? ['resume', options.resume] : []),
+    prompt,
+  ],
+  createParser: options => {
+    const startedAt = Date.now()
+    const model = 'codex'
+    let sessionId = options.resume || ''
+    let resultSent = false
+
+    return {
+      parseEvent: event => {
+        const item = event.item
+        switch (event.type) {
+          case 'thread.started':
+            sessionId = event.thread_id
+            return [initMessage(sessionId, model, options.workingDirectory)]
+
+          case 'item.started':
+            return item?.type === 'command_execution'
+              ? [
+                  toolUseMessage(sessionId, item.id, 'Bash', {
+                    command: item.command,
+                  }),
+                ]
+              : []
+
+          case 'item.completed':
+            switch (item?.type) {
+              case 'agent_message':
+                return [textMessage(sessionId, item.id, model, item.text)]
+              case 'command_execution':
+                return [
+                  toolResultMessage(
+                    sessionId,
+                    item.id,
+                    item.aggregated_output || '',
+                    item.exit_code !== 0
+                  ),
+                ]
+              case 'file_change': {
+                const changes: Array<{ path: string; kind: string }> =
+                  item.changes || []
+                return [
+                  toolUseMessage(sessionId, item.id, 'Edit', {
+                    file_path: changes.map(change => change.path).join(', '),
+                  }),
+                  toolResultMessage(
+                    sessionId,
+                    item.id,
+                    changes
+                      .map(change => `${change.kind} ${change.path}`)
+                      .join('\n'),
+                    item.status === 'failed'
+                  ),
+                ]
+              }
+              default:
+                return []
+            }
+
+          case 'turn.completed':
+            resultSent = true
+            return [
+              resultMessage(sessionId, startedAt, false, {
+                input_tokens: event.usage?.input_tokens,
+                output_tokens: event.usage?.output_tokens,
+                cache_read_input_tokens: event.usage?.cached_input_tokens,
+              }),
+            ]
+
+          case 'turn.failed':
+          case 'error':
+            console.error(
+              '❌ [Codex]',
+              event.error?.message || event.message || event
+            )
+            resultSent = true
+            return [resultMessage(sessionId, startedAt, true)]
+
+          default:
+            return []
+        }
+      },
+      flush: () =>
+        resultSent ? [] : [resultMessage(sessionId, startedAt, false)],
+    }
+  },
+}
+
+// ============================================================================
+// Gemini CLI (`gemini --output-format stream-json`)
+// ============================================================================
+
+export const geminiSpec: CliBackendSpec = {
+  id: 'gemini-cli',
+  label: 'Gemini CLI',
+  command: 'gemini',
+  buildArgs: (options, prompt) => [
+    '--output-format',
+    'stream-json',
+    ...(options.resume ? ['--resume', options.resume] : []),
+    '--prompt',
+    prompt,
+  ],
+  createParser: options => {
+    const startedAt = Date.now()
+    let model = 'gemini'
+    let sessionId = options.resume || ''
+    let resultSent = false
+    let textBuffer = ''
+    let textCount = 0
+
+    // Assistant text arrives as deltas; emit it as one message once a
+    // different event (or the end of the run) closes the text block
+    const flushText = (): AgentMessage[] => {
+      if (!textBuffer) return []
+      const message = textMessage(
+        sessionId,
+        `gemini-${sessionId}-${textCount++}`,
+        model,
+        textBuffer
+      )
+      textBuffer = ''
+      return [message]
+    }
+
+    return {
+      parseEvent: event => {
+        switch (event.type) {
+          case 'init':
+            sessionId = event.session_id || sessionId
+            model = event.model || model
+            return [initMessage(sessionId, model, options.workingDirectory)]
+
+          case 'message':
+            if (event.role === 'assistant') textBuffer += event.content || ''
+            return []
+
+          case 'tool_use':
+            return [
+              ...flushText(),
+              toolUseMessage(
+                sessionId,
+                event.tool_id,
+                event.tool_name,
+                event.parameters
+              ),
+            ]
+
+          case 'tool_result':
+            return [
+              ...flushText(),
+              toolResultMessage(
+                sessionId,
+                event.tool_id,
+                event.output ?? event.error?.message ?? '',
+                event.status === 'error'
+              ),
+            ]
+
+          case 'error':
+            console.error('❌ [Gemini CLI]', event.message || event)
+            return []
+
+          case 'result':
+            resultSent = true
+            return [
+              ...flushText(),
+              resultMessage(sessionId, startedAt, event.status === 'error', {
+                input_tokens: event.stats?.input_tokens,
+                output_tokens: event.stats?.output_tokens,
+              }),
+            ]
+
+          default:
+            return []
+        }
+      },
+      flush: () => [
+        ...flushText(),
+        ...(resultSent ? [] : [resultMessage(sessionId, startedAt, false)]),
+      ],
+    }
+  },
+}
+
+// ============================================================================
+// CLI Runner
+// ============================================================================
+
+/**
+ * Policies this run asks for that a CLI backend can't enforce, because the
+ * CLI decides its tool calls itself and reports no cost until it exits
+ */
+const getUnsupportedPolicies = (options: ClaudeSDKOptions): string[] => {
+  const { autoAcceptEnabled, agentTools, agentName, budget } = options
+  return [
+    autoAcceptEnabled &&
+      'auto-accept (guardrails, permission rules and the audit log only see Claude Code tool calls)',
+    agentTools?.length &&
+      `the tool list of the ${agentName || 'selected'} agent`,
+    (budget?.maxCostUsd || budget?.maxTurns || budget?.maxDurationMinutes) &&
+      'budget limits',
+  ].filter((policy): policy is string => !!policy)
+}
+
+/**
+ * Run a CLI backend: spawn it in the worktree, translate its JSON events into
+ * AgentMessages on 'command-output', and keep ConversationState up to date
+ */
+export async function runCliBackend(
+  spec: CliBackendSpec,
+  options: ClaudeSDKOptions,
+  sender: BrowserWindow['webContents']
+): Promise<void> {
+  const {
+    prompt,
+    workingDirectory,
+    resume,
+    promptId,
+    appendSystemPrompt,
+    projectEnv = {},
+    abortController = new AbortController(),
+  } = options
+
+  // Agent instructions have no system prompt slot in the CLIs, so they are
+  // sent with the first prompt of the session
+  const fullPrompt =
+    appendSystemPrompt && !resume
+      ? `${appendSystemPrompt}\n\n${prompt}`
+      : prompt
+
+  console.log(`Starting ${spec.label} run:`, {
+    prompt: prompt.substring(0, 50),
+    workingDirectory,
+    resume,
+    promptId,
+  })
+
+  if (promptId) {
+    registerAbortController(promptId, abortController)
+    updateConversationState(promptId, {
+      status: 'running',
+      sessionId: resume,
+      error: undefined,
+      errorCode: undefined,
+      errorHint: undefined,
+      queuePosition: undefined,
+    })
+  }
+
+  const send = (message: AgentMessage) => {
+    sender.send('command-output', {
+      type: 'stdout',
+      data: `${JSON.stringify(message)}\n`,
+      rawData: false,
+      promptId: promptId,
+    })
+  }
+
+  const parser = spec.createParser(options)
+  let messageCount = 0
+
+  try {
+    const unsupported = getUnsupportedPolicies(options)
+    if (unsupported.length > 0) {
+      throw new Error(
+        `${spec.label} can't enforce ${unsupported.join(', ')}. Turn ${unsupported.length > 1 ? 'them' : 'it'} off for this conversation or run it with Claude Code.`
+      )
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(spec.command, spec.buildArgs(options, fullPrompt), {
+        cwd: workingDirectory,
+        env: { ...process.env, ...projectEnv },
+        signal: abortController.signal,
+      })
+
+      let stderr = ''
+      child.stderr.on('data', chunk => {
+        stderr += chunk.toString()
+      })
+
+      createInterface({ input: child.stdout }).on('line', line => {
+        if (!line.trim()) return
+
+        let event: any
+        try {
+          event = JSON.parse(line)
+        } catch {
+          console.log(`[${spec.label}] ${line}`)
+          return
+        }
+
+        for (const message of parser.parseEvent(event)) {
+          messageCount++
+          send(message)
+        }
+      })
+
+      child.on('error', reject)
+      child.on('close', code => {
+        for (const message of parser.flush()) {
+          messageCount++
+          send(message)
+        }
+
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(
+            new Error(
+              `${spec.command} exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`
+            )
+          )
+        }
+      })
+    })
+
+    console.log(
+      `✅ ${spec.label} run completed successfully (${messageCount} messages)`
+    )
+
+    if (promptId) {
+      updateConversationState(promptId, { status: 'completed' })
+      setTimeout(() => clearConversationState(promptId), 1000)
+    }
+  } catch (error) {
+    console.error(`❌ Error during ${spec.label} run:`, error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    sender.send('command-output', {
+      type: 'stderr',
+      data: `${JSON.stringify({
+        type: 'error',
+        error: errorMessage,
+        messageCount,
+      })}\n`,
+      rawData: false,
+      promptId: promptId,
+    })
+
+    // A cancelled run ends here too; don't leave it 'running'
+    if (promptId && abortController.signal.aborted) {
+      updateConversationState(promptId, { status: 'aborted' })
+    } else if (promptId) {
+      const { errorCode, errorHint } = classifyConversationError(errorMessage, {
+        workingDirectory,
+      })
+      updateConversationState(promptId, {
+        status: 'error',
+        error: errorMessage,
+        errorCode,
+        errorHint,
+      })
+      if (errorCode === 'unknown') {
+        setTimeout(() => clearConversationState(promptId), 3000)
+      }
+    }
+
+    throw error
+  } finally {
+    if (promptId) releaseAbortController(promptId)
+  }
+}
@@ -0,0 +1,87 @@
+import { existsSync } from 'node:fs'
+import type { ConversationErrorCode } from '../shared/types'
+import { classifyTransientError } from './retry-policy'
+
+// ============================================================================
+// Conversation Error Classification
+// ============================================================================
+// LOGIC: A failed run only reports an error string (SDK exception, CLI exit,
+// git stderr). Matching it against known failures gives the conversation view
+// a code to pick a recovery action for, and a hint on what to do:
+// - auth_failed → re-authenticate in Settings
+// - context_overflow → start a fresh session
+// - command_not_found → look node (or the CLI) up on the login shell's PATH
+// - worktree_missing / git_failed → recreate the worktree
+// A missing working directory is checked first, because spawning in it fails
+// with the same ENOENT as a missing binary.
+
+export interface ConversationErrorInfo {
+  errorCode: ConversationErrorCode
+  errorHint?: string
+}
+
+const ERROR_PATTERNS: Array<[ConversationErrorCode, RegExp]> = [
+  [
+    'auth_failed',
+    /invalid api key|invalid x-api-key|authentication_error|authentication failed|\b401\b|unauthori[sz]ed|not logged in|please run \/login|oauth token (has )?expired|could not load credentials|ExpiredToken|UnrecognizedClientException/i,
+  ],
+  [
+    'context_overflow',
+    /prompt is too long|context (window|length)|maximum context|context_length_exceeded|input is too long|too many tokens/i,
+  ],
+  [
+    'command_not_found',
+    /spawn \S+ ENOENT|node: (command )?not found|env: .?node.?: No such file/i,
+  ],
+  [
+    'worktree_missing',
+    /is not a working tree|worktree .* (does not exist|is missing)|not a git repository/i,
+  ],
+  [
+    'git_failed',
+    /^fatal:|Command failed: git|\bgit (worktree|checkout|branch|fetch)\b|already checked out|invalid reference|not a valid object name/im,
+  ],
+]
+
+const ERROR_HINTS: Record<Exclude<ConversationErrorCode, 'unknown'>, string> = {
+  auth_failed:
+    'The provider rejected the credentials. Sign in again or check the API key, then resend the message.',
+  context_overflow:
+    'The session is larger than the model can read. Start a fresh session to continue on the same worktree.',
+  command_not_found:
+    'The agent could not be started because its executable is not on the PATH AlmondCoder was launched with.',
+  worktree_missing:
+    "The conversation's worktree no longer exists. Recreate it from the conversation's branch to continue.",
+  git_failed:
+    'A git command failed. Check that the branch exists and is not checked out elsewhere, then recreate the worktree.',
+  provider_unavailable:
+    'The provider is still overloaded, rate limiting or unreachable after retrying. Try again in a few minutes.',
+}
+
+const withHint = (errorCode: ConversationErrorCode): ConversationErrorInfo =>
+  errorCode === 'unknown'
+    ? { errorCode }
+    : { errorCode, errorHint: ERROR_HINTS[errorCode] }
+
+/**
+ * Classify a failed run or worktree operation. `fallback` is the code for
+ * errors no pattern matches, e.g. 'git_failed' for worktree IPC handlers.
+ */
+export function classifyConversationError(
+  message: string,
+  {
+    workingDirectory,
+    fallback = 'unknown',
+  }: { workingDirectory?: string; fallback?: ConversationErrorCode } = {}
+): ConversationErrorInfo {
+  if (workingDirectory && !existsSync(workingDirectory)) {
+    return withHint('worktree_missing')
+  }
+
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))
+  if (match) return withHint(match[0])
+
+  if (classifyTransientError(message)) return withHint('provider_unavailable')
+
+  return withHint(fallback)
+}
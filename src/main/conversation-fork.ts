@@ -0,0 +1,228 @@
+import { copyFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { homedir } from 'node:os'
+import { exec } from 'node:child_process'
+import { promisify } from 'node:util'
+
+const execAsync = promisify(exec)
+
+// ============================================================================
+// Conversation Forks
+// ============================================================================
+// LOGIC: "Fork from here" on an assistant message starts a new conversation
+// that branches off at that message:
+// - The worktree starts from the parent worktree as it was at the message.
+//   Forking from the latest message uses the live worktree; older messages
+//   use the snapshot recorded at the end of their turn (snapshotWorktree).
+//   Both carry over uncommitted changes to tracked files
+// - The conversation log is copied up to and including the message
+// - The first run resumes the parent's Claude session at the message as a new
+//   session. Sessions are stored per working directory, so the session file
+//   is copied to the fork's worktree first. Without a session to resume (other
+//   backends, deleted session files) the transcript is sent with the first
+//   prompt instead.
+
+export interface ConversationLogEntry {
+  from: 'user' | 'ai' | 'system'
+  timestamp: string
+  data: { content: any }
+}
+
+const isAssistantEntry = (entry: ConversationLogEntry, messageId?: string) =>
+  entry.from === 'ai' &&
+  entry.data?.content?.type === 'assistant' &&
+  (messageId === undefined || entry.data.content.message?.id === messageId)
+
+/**
+ * Log entries up to and including the assistant message `messageId`. An
+ * assistant message can span several entries (one per content block).
+ */
+export function truncateLogAtMessage(
+  entries: ConversationLogEntry[],
+  messageId: string
+): ConversationLogEntry[] {
+  let lastIndex = -1
+  entries.forEach((entry, index) => {
+    if (isAssistantEntry(entry, messageId)) lastIndex = index
+  })
+  if (lastIndex === -1) {
+    throw new Error(`Message ${messageId} is not in the conversation log`)
+  }
+  return entries.slice(0, lastIndex + 1)
+}
+
+/**
+ * A worktree's state: its HEAD commit and, if it has uncommitted changes, a
+ * stash commit of them
+ */
+export interface WorktreeSnapshot {
+  commit: string
+  stash?: string
+}
+
+/**
+ * Snapshot a worktree without touching it: `git stash create` only writes
+ * the commit object. Recorded on each result message as `worktree_snapshot`
+ * so later forks can start from the state at the end of that turn. The stash
+ * commits are unreferenced, so `git gc` eventually prunes old ones.
+ */
+export async function snapshotWorktree(
+  worktreePath: string
+): Promise<WorktreeSnapshot> {
+  const { stdout: commit } = await execAsync('git rev-parse HEAD', {
+    cwd: worktreePath,
+  })
+  const { stdout: stash } = await execAsync('git stash create', {
+    cwd: worktreePath,
+  })
+  return { commit: commit.trim(), stash: stash.trim() || undefined }
+}
+
+const isResultEntry = (entry: ConversationLogEntry) =>
+  entry.from === 'ai' && entry.data?.content?.type === 'result'
+
+const getSnapshot = (entry?: ConversationLogEntry) =>
+  entry?.data.content.worktree_snapshot as WorktreeSnapshot | undefined
+
+// Whether two snapshots hold the same files. Stash commits differ in their
+// timestamps, so their trees are compared
+const isSameSnapshot = async (
+  worktreePath: string,
+  a: WorktreeSnapshot,
+  b: WorktreeSnapshot
+) => {
+  if (a.commit !== b.commit || Boolean(a.stash) !== Boolean(b.stash)) {
+    return false
+  }
+  if (!a.stash || !b.stash) return true
+
+  const { stdout } = await execAsync(
+    `git rev-parse "${a.stash}^{tree}" "${b.stash}^{tree}"`,
+    { cwd: worktreePath }
+  )
+  const [treeA, treeB] = stdout.trim().split('\n')
+  return treeA === treeB
+}
+
+/**
+ * Where the fork's worktree starts, given the parent's log and the length of
+ * the log truncated at the forked message (see truncateLogAtMessage):
+ * - The latest message: the parent worktree as it is now
+ * - The last message of an earlier turn: that turn's snapshot
+ * - A message mid-turn: the turn's snapshot if no files changed during the
+ *   turn (it matches the previous turn's snapshot)
+ * Otherwise the state at the message isn't known and the fork is refused,
+ * since the resumed session would assume edits the worktree doesn't have.
+ */
+export async function resolveForkStartPoint(
+  parentWorktreePath: string,
+  parentLog: ConversationLogEntry[],
+  truncatedLength: number
+): Promise<WorktreeSnapshot> {
+  const laterEntries = parentLog.slice(truncatedLength)
+  if (!laterEntries.some(entry => isAssistantEntry(entry))) {
+    return snapshotWorktree(parentWorktreePath)
+  }
+
+  const turnEnd = laterEntries.findIndex(isResultEntry)
+  const turnSnapshot = getSnapshot(laterEntries[turnEnd])
+  if (!turnSnapshot) {
+    throw new Error(
+      'No worktree snapshot was recorded for this message, so only the latest message can be forked'
+    )
+  }
+
+  const isMidTurn = laterEntries
+    .slice(0, turnEnd)
+    .some(entry => isAssistantEntry(entry))
+  if (!isMidTurn) return turnSnapshot
+
+  const previousSnapshot = getSnapshot(
+    parentLog.slice(0, truncatedLength).findLast(isResultEntry)
+  )
+  if (
+    !previousSnapshot ||
+    !(await isSameSnapshot(parentWorktreePath, previousSnapshot, turnSnapshot))
+  ) {
+    throw new Error(
+      "Files changed later in this message's turn, so the worktree at this message isn't known. Fork from the last message of the turn instead"
+    )
+  }
+  return turnSnapshot
+}
+
+/**
+ * Apply the parent's uncommitted changes (see resolveForkStartPoint) in the
+ * fork's worktree. Best-effort: the fork is usable without them.
+ */
+export async function applyForkChanges(
+  worktreePath: string,
+  stash: string
+): Promise<void> {
+  try {
+    await execAsync(`git stash apply "${stash}"`, { cwd: worktreePath })
+    console.log('✅ [Fork] Applied the parent worktree changes')
+  } catch (error: any) {
+    console.warn(
+      `⚠️  [Fork] Failed to apply the parent worktree changes: ${error.message}`
+    )
+  }
+}
+
+// Claude stores sessions in ~/.claude/projects/<cwd with non-alphanumerics
+// replaced by '-'>/<sessionId>.jsonl
+const getClaudeProjectDir = (cwd: string) =>
+  join(
+    process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude'),
+    'projects',
+    cwd.replace(/[^a-zA-Z0-9]/g, '-')
+  )
+
+/**
+ * Copy a Claude session file so it can be resumed from another working
+ * directory. Returns false if the session file doesn't exist.
+ */
+export function copySessionToWorktree(
+  sessionId: string,
+  fromCwd: string,
+  toCwd: string
+): boolean {
+  const source = join(getClaudeProjectDir(fromCwd), `${sessionId}.jsonl`)
+  if (!existsSync(source)) {
+    console.warn(`⚠️  [Fork] Session file not found: ${source}`)
+    return false
+  }
+
+  const targetDir = getClaudeProjectDir(toCwd)
+  mkdirSync(targetDir, { recursive: true })
+  copyFileSync(source, join(targetDir, `${sessionId}.jsonl`))
+  return true
+}
+
+/**
+ * The conversation so far as plain text, sent with the first prompt of a fork
+ * that has no session to resume
+ */
+export function loadForkTranscript(logPath: string, messageId: string): string {
+  const entries: ConversationLogEntry[] = JSON.parse(
+    readFileSync(logPath, 'utf8')
+  )
+  return buildForkTranscript(truncateLogAtMessage(entries, messageId))
+}
+
+function buildForkTranscript(entries: ConversationLogEntry[]): string {
+  const turns = entries.flatMap(entry => {
+    const content = entry.data?.content
+    if (entry.from === 'user' && content?.type === 'text' && content.text) {
+      return [`User: ${content.text}`]
+    }
+    if (isAssistantEntry(entry)) {
+      return (content.message.content || [])
+        .filter((block: any) => block.type === 'text' && block.text)
+        .map((block: any) => `Assistant: ${block.text}`)
+    }
+    return []
+  })
+
+  return `This conversation continues an earlier one. The transcript so far:\n\n${turns.join('\n\n')}\n\nContinue from there.`
+}
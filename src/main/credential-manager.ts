@@ -101,6 +101,102 @@ export async function setActiveProvider(provider: AuthProvider): Promise<void> {
   }
 }
 
+// Project secrets are stored per project under 'project-env:<path>:<name>'
+const projectSecretAccount = (projectPath: string, name: string) =>
+  `project-env:${projectPath}:${name}`
+
+/**
+ * Get the value of a project environment secret from OS keychain
+ */
+export async function getProjectSecret(
+  projectPath: string,
+  name: string,
+): Promise<string | null> {
+  try {
+    return await keytar.getPassword(
+      SERVICE_NAME,
+      projectSecretAccount(projectPath, name),
+    )
+  } catch (error) {
+    console.error(`Failed to get project secret ${name}:`, error)
+    return null
+  }
+}
+
+/**
+ * Save the value of a project environment secret to OS keychain
+ */
+export async function saveProjectSecret(
+  projectPath: string,
+  name: string,
+  value: string,
+): Promise<void> {
+  try {
+    await keytar.setPassword(
+      SERVICE_NAME,
+      projectSecretAccount(projectPath, name),
+      value,
+    )
+  } catch (error) {
+    console.error(`Failed to save project secret ${name}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Delete a project environment secret
+ */
+export async function deleteProjectSecret(
+  projectPath: string,
+  name: string,
+): Promise<void> {
+  try {
+    await keytar.deletePassword(
+      SERVICE_NAME,
+      projectSecretAccount(projectPath, name),
+    )
+  } catch (error) {
+    console.error(`Failed to delete project secret ${name}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Names of the project secrets that have a value stored (values stay in the
+ * keychain)
+ */
+export async function listProjectSecretNames(
+  projectPath: string,
+): Promise<string[]> {
+  try {
+    const prefix = projectSecretAccount(projectPath, '')
+    const credentials = await keytar.findCredentials(SERVICE_NAME)
+    return credentials
+      .filter(({ account }) => account.startsWith(prefix))
+      .map(({ account }) => account.slice(prefix.length))
+  } catch (error) {
+    console.error('Failed to list project secrets:', error)
+    return []
+  }
+}
+
+/**
+ * Move a project's secrets to its new path after the project was relinked
+ */
+export async function moveProjectSecrets(
+  oldPath: string,
+  newPath: string,
+): Promise<number> {
+  const names = await listProjectSecretNames(oldPath)
+  for (const name of names) {
+    const value = await getProjectSecret(oldPath, name)
+    if (value === null) continue
+    await saveProjectSecret(newPath, name, value)
+    await deleteProjectSecret(oldPath, name)
+  }
+  return names.length
+}
+
 /**
  * Detect existing environment variables for a provider
  */
@@ -0,0 +1,248 @@
+import { homedir } from 'node:os'
+import { basename, isAbsolute, relative, resolve } from 'node:path'
+import type {
+  GuardrailAssessment,
+  GuardrailPolicy,
+  GuardrailRiskLevel,
+} from '../shared/types'
+
+// ============================================================================
+// Command Guardrails
+// ============================================================================
+// LOGIC: Some tool calls should never run unattended, so canUseTool scores
+// Bash commands and file paths for risk before project allow rules and
+// auto-accept are applied:
+// - Known destructive commands (rm -rf /, curl | sh, git push --force, ...)
+// - Writes outside the conversation's worktree, or into .git
+// - Access to credential files (~/.ssh, ~/.aws, ...)
+// The project's policy decides which levels need manual approval and which
+// are denied outright. The reasons are shown on the permission card.
+
+const RISK_LEVELS: GuardrailRiskLevel[] = ['low', 'medium', 'high', 'critical']
+
+const riskRank = (level: GuardrailRiskLevel) => RISK_LEVELS.indexOf(level)
+
+export const DEFAULT_GUARDRAIL_POLICY: GuardrailPolicy = {
+  enabled: true,
+  askAt: 'high',
+  blockAt: 'critical',
+  allowedPaths: ['/tmp'],
+}
+
+const COMMAND_RISKS: Array<[GuardrailRiskLevel, RegExp, string]> = [
+  [
+    'critical',
+    /\brm\s+(?:-\S+\s+)*-\w*[rR]\w*\s+(?:-\S+\s+)*["']?(?:\/|\/\*|~\/?|\$HOME\/?|\*|\.\.?\/?)["']?(?=\s|$|[;&|])/,
+    'Recursively deletes the filesystem root, the home directory or the whole working directory',
+  ],
+  [
+    'critical',
+    /\b(?:curl|wget)\b[^|;&]*\|\s*(?:sudo\s+)?(?:ba|z|da|k)?sh\b/,
+    'Pipes a downloaded script straight into a shell',
+  ],
+  ['critical', /\bmkfs(?:\.\w+)?\b/, 'Formats a filesystem'],
+  [
+    'critical',
+    /\bdd\b[^;&|]*\bof=\/dev\/|>\s*\/dev\/(?:sd|nvme|disk|hd)/,
+    'Writes directly to a disk device',
+  ],
+  ['critical', /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/, 'Fork bomb'],
+  [
+    'high',
+    /\bgit\s+push\b[^;&|]*(?:\s--force(?!-with-lease)\b|\s-\w*f\w*\b|\s\+\S+)/,
+    'Force-pushes, which can overwrite the remote history',
+  ],
+  [
+    'high',
+    /\bgit\s+push\b[^;&|]*(?:\s--delete\b|\s-d\b|\s:\S+)|\bgit\s+branch\s+(?:-\S+\s+)*-D\b/,
+    'Deletes a branch',
+  ],
+  [
+    'high',
+    /\bgit\s+reset\s+(?:\S+\s+)*--hard\b/,
+    'Discards uncommitted changes',
+  ],
+  ['high', /\bgit\s+clean\s+(?:\S+\s+)*-\w*f/, 'Deletes untracked files'],
+  ['high', /(?:^|[;&|]\s*)sudo\b/, 'Runs with root privileges'],
+  [
+    'high',
+    /\b(?:npm|pnpm|yarn|cargo|gem)\s+publish\b|\btwine\s+upload\b|\bgh\s+release\s+create\b/,
+    'Publishes a package or release',
+  ],
+  [
+    'high',
+    /\b(?:shutdown|reboot|halt|poweroff)\b/,
+    'Shuts down or restarts the machine',
+  ],
+  ['medium', /\bgit\s+push\b/, 'Pushes to a remote'],
+  ['medium', /\brm\s+(?:-\S+\s+)*-\w*[rR]/, 'Recursively deletes files'],
+  ['medium', /\b(?:pkill|killall)\b|\bkill\s+-9\b/, 'Stops processes'],
+]
+
+// Commands whose path arguments are written to (cp, ln, install and rsync
+// only write their last argument)
+const WRITE_COMMANDS = new Set([
+  'rm',
+  'rmdir',
+  'unlink',
+  'shred',
+  'mv',
+  'cp',
+  'ln',
+  'install',
+  'rsync',
+  'touch',
+  'mkdir',
+  'chmod',
+  'chown',
+  'tee',
+  'truncate',
+])
+const LAST_ARGUMENT_COMMANDS = new Set(['cp', 'ln', 'install', 'rsync'])
+
+const FILE_WRITE_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit'])
+const SAFE_DEVICE_PATHS = [
+  '/dev/null',
+  '/dev/stdout',
+  '/dev/stderr',
+  '/dev/tty',
+]
+const CREDENTIAL_PATH_PATTERN =
+  /(?:^|\/)(?:\.ssh|\.aws|\.gnupg|\.kube|\.netrc|\.npmrc|\.pypirc|\.docker\/config\.json)(?:\/|$)/
+
+const expandHome = (path: string) =>
+  path.replace(/^(?:~|\$HOME|\$\{HOME\})(?=\/|$)/, homedir())
+
+const isInside = (path: string, directory: string) => {
+  const relativePath = relative(directory, path)
+  return (
+    relativePath === '' ||
+    (!relativePath.startsWith('..') && !isAbsolute(relativePath))
+  )
+}
+
+const unquote = (token: string) => token.replace(/^["']|["']$/g, '')
+
+/**
+ * Paths a Bash command writes to: redirect targets and the path arguments of
+ * file-changing commands, in each part of a command list or pipeline
+ */
+const getBashWriteTargets = (command: string): string[] => {
+  const targets: string[] = []
+
+  for (const match of command.matchAll(/\d*>{1,2}\|?\s*([^\s;&|<>]+)/g)) {
+    targets.push(unquote(match[1]))
+  }
+
+  for (const segment of command.split(/;|&&|\|\||\||&|\n/)) {
+    const tokens = segment.trim().split(/\s+/).map(unquote)
+    // Skip sudo, env and VAR=value prefixes
+    while (
+      tokens.length > 0 &&
+      (tokens[0] === 'sudo' || tokens[0] === 'env' || /^\w+=/.test(tokens[0]))
+    ) {
+      tokens.shift()
+    }
+
+    const name = basename(tokens[0] || '')
+    const isSedInPlace =
+      name === 'sed' && tokens.some(token => /^-\w*i/.test(token))
+    if (!WRITE_COMMANDS.has(name) && !isSedInPlace) continue
+
+    const args = tokens
+      .slice(1)
+      .filter(token => token && !token.startsWith('-') && !/^[<>]/.test(token))
+    targets.push(...(LAST_ARGUMENT_COMMANDS.has(name) ? args.slice(-1) : args))
+  }
+
+  return targets.filter(target => !target.startsWith('&'))
+}
+
+/**
+ * Score a tool call. Calls with nothing risky about them are 'low' with no
+ * reasons.
+ */
+export function assessToolRisk(
+  toolName: string,
+  toolInput: any,
+  workingDirectory: string,
+  allowedPaths: string[] = []
+): GuardrailAssessment {
+  const findings: Array<[GuardrailRiskLevel, string]> = []
+
+  const isWritable = (path: string) =>
+    SAFE_DEVICE_PATHS.includes(path) ||
+    [workingDirectory, ...allowedPaths.map(expandHome)].some(directory =>
+      isInside(path, directory)
+    )
+  const checkWritePath = (rawPath: string) => {
+    const path = resolve(workingDirectory, expandHome(rawPath))
+    if (!isWritable(path)) {
+      findings.push(['high', `Writes outside the worktree (${rawPath})`])
+    } else if (/(?:^|\/)\.git(?:\/|$)/.test(relative(workingDirectory, path))) {
+      findings.push(['high', `Modifies git internals (${rawPath})`])
+    }
+  }
+  const checkCredentialPath = (rawPath: string) => {
+    if (CREDENTIAL_PATH_PATTERN.test(expandHome(rawPath))) {
+      findings.push(['high', `Accesses credentials (${rawPath})`])
+    }
+  }
+
+  if (toolName === 'Bash' && typeof toolInput?.command === 'string') {
+    const command: string = toolInput.command
+    for (const [level, pattern, reason] of COMMAND_RISKS) {
+      if (pattern.test(command)) findings.push([level, reason])
+    }
+    for (const target of getBashWriteTargets(command)) {
+      checkWritePath(target)
+    }
+    for (const token of command.split(/\s+/)) {
+      checkCredentialPath(unquote(token))
+    }
+  } else {
+    const path: string | undefined =
+      toolInput?.file_path || toolInput?.notebook_path || toolInput?.path
+    if (path) {
+      if (FILE_WRITE_TOOLS.has(toolName)) checkWritePath(path)
+      checkCredentialPath(path)
+    }
+  }
+
+  if (findings.length === 0) return { level: 'low', reasons: [] }
+
+  const level = findings.reduce<GuardrailRiskLevel>(
+    (highest, [findingLevel]) =>
+      riskRank(findingLevel) > riskRank(highest) ? findingLevel : highest,
+    'low'
+  )
+  return {
+    level,
+    reasons: [...new Set(findings.map(([, reason]) => reason))],
+  }
+}
+
+/**
+ * What the policy does with an assessed call: 'block' denies it, 'ask' needs
+ * manual approval even with auto-accept or an allow rule, 'allow' leaves the
+ * decision to the usual permission flow
+ */
+export function getGuardrailAction(
+  assessment: GuardrailAssessment,
+  policy: GuardrailPolicy
+): 'allow' | 'ask' | 'block' {
+  if (!policy.enabled || assessment.reasons.length === 0) return 'allow'
+
+  const rank = riskRank(assessment.level)
+  if (policy.blockAt !== 'never' && rank >= riskRank(policy.blockAt)) {
+    return 'block'
+  }
+  return rank >= riskRank(policy.askAt) ? 'ask' : 'allow'
+}
+
+/**
+ * Describe an assessment for logs and denial messages
+ */
+export const describeGuardrailAssessment = (
+  assessment: GuardrailAssessment
+): string => `${assessment.level} risk: ${assessment.reasons.join('; ')}`
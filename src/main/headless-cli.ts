@@ -0,0 +1,172 @@
+import type { AgentBackendId } from '../shared/types'
+
+// ============================================================================
+// Headless Command-Line Runner
+// ============================================================================
+// LOGIC: `almondcoder run --project <path> --branch <branch> "prompt"` starts a
+// conversation without opening a window. It goes through the same worktree,
+// agent and prompt/conversation files as the GUI, so the run shows up in the
+// project's Prompts list afterwards. The process exits with:
+// - 0 when the run completed
+// - 1 when the run failed (SDK error, error result, budget stop)
+// - 2 when the arguments are invalid
+
+export const HEADLESS_EXIT_CODES = {
+  success: 0,
+  runFailed: 1,
+  usage: 2,
+} as const
+
+export const HEADLESS_USAGE = `Usage: almondcoder run --project <path> [options] "prompt"
+
+Options:
+  --project <path>    Project (git repository) to run in (required)
+  --branch <name>     Branch the worktree is created from (default: main)
+  --agent <name|id>   Prompt agent whose system prompt and tools apply
+  --model <model>     Model alias or ID (default: project default)
+  --backend <id>      claude-code, codex, gemini-cli or replay
+                      (default: claude-code)
+  --replay-log <file> Recorded conversation log to play back instead of
+                      calling a provider (implies --backend replay)
+  --auto-accept       Allow every tool call. Without it, tools that need
+                      approval and aren't allowed by a project rule are denied
+  --json              Print the final result as JSON
+  -h, --help          Show this help`
+
+export interface HeadlessRunArgs {
+  projectPath: string
+  branch: string
+  prompt: string
+  agent?: string
+  model?: string
+  backend?: AgentBackendId
+  replayLogPath?: string
+  autoAccept: boolean
+  json: boolean
+}
+
+export type HeadlessCommand =
+  | { type: 'run'; args: HeadlessRunArgs }
+  | { type: 'help' }
+  | { type: 'error'; message: string }
+
+const BACKEND_IDS: AgentBackendId[] = [
+  'claude-code',
+  'codex',
+  'gemini-cli',
+  'replay',
+]
+const VALUE_FLAGS = [
+  '--project',
+  '--branch',
+  '--agent',
+  '--model',
+  '--backend',
+  '--replay-log',
+]
+
+/**
+ * Parse the command line. Returns null when AlmondCoder was started normally,
+ * so the GUI starts as usual.
+ */
+export function parseHeadlessCommand(argv: string[]): HeadlessCommand | null {
+  const [command, ...rest] = argv
+  if (command !== 'run') return null
+
+  const values: Record<string, string> = {}
+  const flags = new Set<string>()
+  const positional: string[] = []
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]
+    const [flag, inlineValue] = arg.startsWith('--')
+      ? (arg.split(/=(.*)/s) as [string, string | undefined])
+      : [arg, undefined]
+
+    if (flag === '-h' || flag === '--help') return { type: 'help' }
+
+    if (VALUE_FLAGS.includes(flag)) {
+      const value = inlineValue ?? rest[++i]
+      if (value === undefined || value.startsWith('--')) {
+        return { type: 'error', message: `${flag} needs a value` }
+      }
+      values[flag] = value
+    } else if (flag === '--auto-accept' || flag === '--json') {
+      flags.add(flag)
+    } else if (arg.startsWith('-')) {
+      return { type: 'error', message: `Unknown option ${arg}` }
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  const prompt = positional.join(' ').trim()
+  if (!values['--project']) {
+    return { type: 'error', message: '--project is required' }
+  }
+  if (!prompt) {
+    return { type: 'error', message: 'A prompt is required' }
+  }
+
+  const replayLogPath = values['--replay-log']
+  const backend =
+    (values['--backend'] as AgentBackendId | undefined) ||
+    (replayLogPath ? 'replay' : undefined)
+  if (backend && !BACKEND_IDS.includes(backend)) {
+    return {
+      type: 'error',
+      message: `Unknown backend "${backend}" (expected ${BACKEND_IDS.join(', ')})`,
+    }
+  }
+  if (backend === 'replay' && !replayLogPath) {
+    return { type: 'error', message: 'The replay backend needs --replay-log' }
+  }
+
+  return {
+    type: 'run',
+    args: {
+      projectPath: values['--project'],
+      branch: values['--branch'] || 'main',
+      prompt,
+      agent: values['--agent'],
+      model: values['--model'],
+      backend,
+      replayLogPath,
+      autoAccept: flags.has('--auto-accept'),
+      json: flags.has('--json'),
+    },
+  }
+}
+
+// ============================================================================
+// Result Output
+// ============================================================================
+
+export interface HeadlessRunResult {
+  success: boolean
+  promptId?: string
+  sessionId?: string
+  worktreePath?: string
+  branch?: string
+  result?: string // Final assistant text from the result message
+  costUsd?: number
+  numTurns?: number
+  durationMs?: number
+  error?: string
+}
+
+/**
+ * Write the final result to stdout: the whole result as JSON, or just the
+ * assistant's final text. Errors also go to stderr for plain output.
+ */
+export function printHeadlessResult(result: HeadlessRunResult, json: boolean) {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`)
+    return
+  }
+
+  if (result.result) process.stdout.write(`${result.result}\n`)
+  if (!result.success) {
+    process.stderr.write(`Error: ${result.error || 'Run failed'}\n`)
+  }
+}
@@ -8,7 +8,7 @@ import {
   BrowserWindow,
   shell,
 } from 'electron'
-import { join, basename } from 'node:path'
+import { join, basename, resolve } from 'node:path'
 import {
   existsSync,
   readFileSync,
@@ -18,33 +18,88 @@ import {
   statSync,
 } from 'node:fs'
 import { homedir } from 'node:os'
-import { exec } from 'node:child_process'
+import { exec, execFile } from 'node:child_process'
 import { promisify } from 'node:util'
+import { randomUUID } from 'node:crypto'
 import * as lockfile from 'proper-lockfile'
 
 import { makeAppWithSingleInstanceLock } from 'lib/electron-app/factories/app/instance'
 import { makeAppSetup } from 'lib/electron-app/factories/app/setup'
 import { MainWindow } from './windows/main'
 import {
-  executeClaudeQuery,
   abortQuery,
+  registerRunSecrets,
   updateAutoAcceptState,
   getAllConversationStates,
   updateConversationState,
+  clearConversationState,
+  refreshPathFromLoginShell,
   type ConversationState,
 } from './claude-sdk'
+import { classifyConversationError } from './conversation-errors'
 import {
   createWorktree,
   removeWorktree,
   validateWorktreePath,
 } from './worktree-manager'
+import {
+  DEFAULT_BRANCH_NAME_TEMPLATE,
+  previewBranchName,
+  validateBranchTemplate,
+} from './worktree-naming'
+import { getProjectStorageName, relinkProject } from './project-identity'
+import { planWorktreeLinks } from './worktree-links'
+import { getSetupCommands, runSetupCommand } from './worktree-setup'
 import { parseGitDiff } from './git-diff-parser'
+import { resolveBudgetLimits } from './budget'
+import {
+  scheduleRun,
+  cancelQueuedRun,
+  moveQueuedRun,
+  setMaxConcurrentRuns,
+  DEFAULT_MAX_CONCURRENT_RUNS,
+} from './run-scheduler'
+import { registerJournalRun, takeJournalEntries } from './run-journal'
+import {
+  getMcpServerKey,
+  resolveMcpServers,
+  toSdkMcpServers,
+} from './mcp-servers'
+import { getAgentBackend } from './agent-backends'
+import { toSdkAgents } from './subagents'
+import {
+  parseHeadlessCommand,
+  printHeadlessResult,
+  HEADLESS_EXIT_CODES,
+  HEADLESS_USAGE,
+  type HeadlessRunArgs,
+  type HeadlessRunResult,
+} from './headless-cli'
+import {
+  applyForkChanges,
+  copySessionToWorktree,
+  loadForkTranscript,
+  resolveForkStartPoint,
+  truncateLogAtMessage,
+  type ConversationLogEntry,
+} from './conversation-fork'
+import { maskSecrets, maskSender, resolveProjectEnv } from './project-env'
+import { appendAuditEntry, formatAuditLog, readAuditLog } from './audit-log'
 import type {
   EnhancedPromptHistoryItem,
   ConversationHistory,
+  PromptAgent,
+  ToolPermissionRule,
+  AppSettings,
+  McpServerEntry,
+  AgentBackendId,
+  AuditLogEntry,
+  WorktreeLinkPolicy,
+  WorktreeSetupOutput,
 } from '../shared/types'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 // Store for recent projects
 const getRecentProjectsPath = () => {
@@ -73,6 +128,40 @@ const saveRecentProjects = (projects: any[]) => {
   }
 }
 
+// App-wide settings persistence functions
+const getAppSettingsPath = () => {
+  const appDataPath = join(homedir(), '.almondcoder')
+  if (!existsSync(appDataPath)) {
+    mkdirSync(appDataPath, { recursive: true })
+  }
+  return join(appDataPath, 'app-settings.json')
+}
+
+const loadAppSettings = (): AppSettings => {
+  try {
+    const filePath = getAppSettingsPath()
+    if (existsSync(filePath)) {
+      return JSON.parse(readFileSync(filePath, 'utf8'))
+    }
+  } catch (error) {
+    console.error('Error loading app settings:', error)
+  }
+  return {}
+}
+
+const saveAppSettings = (settings: AppSettings) => {
+  try {
+    const filePath = getAppSettingsPath()
+    writeFileSync(filePath, JSON.stringify(settings, null, 2))
+  } catch (error) {
+    console.error('Error saving app settings:', error)
+  }
+}
+
+setMaxConcurrentRuns(
+  loadAppSettings().maxConcurrentRuns || DEFAULT_MAX_CONCURRENT_RUNS
+)
+
 // Prompt Agents persistence functions
 const getAgentsFilePath = () => {
   const appDataPath = join(homedir(), '.almondcoder')
@@ -83,7 +172,7 @@ const getAgentsFilePath = () => {
   return join(agentsDir, 'prompts.json')
 }
 
-const loadPromptAgents = () => {
+const loadPromptAgents = (): PromptAgent[] => {
   try {
     const filePath = getAgentsFilePath()
     if (existsSync(filePath)) {
@@ -111,13 +200,13 @@ const savePromptAgents = (agents: any[]) => {
 }
 
 // Enhanced project folder structure functions
+// Keyed on the project's stable ID, not its folder name (project-identity.ts)
 const getProjectFolderPath = (projectPath: string) => {
-  const projectName = basename(projectPath)
   const appDataPath = join(homedir(), '.almondcoder')
   if (!existsSync(appDataPath)) {
     mkdirSync(appDataPath, { recursive: true })
   }
-  return join(appDataPath, projectName)
+  return join(appDataPath, getProjectStorageName(projectPath))
 }
 
 const ensureProjectFolderStructure = (projectPath: string) => {
@@ -203,6 +292,12 @@ const getConversationFilePath = (projectPath: string, promptId: string) => {
   return join(conversationsDir, `${promptId}.json`)
 }
 
+const getAuditLogPath = (projectPath: string) =>
+  join(
+    ensureProjectFolderStructure(projectPath).projectFolderPath,
+    'audit-log.jsonl'
+  )
+
 const loadEnhancedPromptHistory = (
   projectPath: string
 ): EnhancedPromptHistoryItem[] => {
@@ -423,6 +518,25 @@ ipcMain.handle('select-folder', async () => {
   return null
 })
 
+// Pick a recorded conversation log for the replay backend, starting in the
+// project's own conversation logs
+ipcMain.handle('select-replay-log', async (_event, projectPath?: string) => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openFile'],
+    title: 'Select Conversation Log to Replay',
+    defaultPath: projectPath
+      ? ensureProjectFolderStructure(projectPath).conversationsDir
+      : undefined,
+    filters: [{ name: 'Conversation logs', extensions: ['json'] }],
+  })
+
+  if (!result.canceled && result.filePaths.length > 0) {
+    return result.filePaths[0]
+  }
+
+  return null
+})
+
 ipcMain.handle('get-recent-projects', () => {
   return loadRecentProjects()
 })
@@ -431,6 +545,19 @@ ipcMain.handle('get-app-data-path', () => {
   return join(homedir(), '.almondcoder')
 })
 
+ipcMain.handle('get-app-settings', () => {
+  return loadAppSettings()
+})
+
+ipcMain.handle('save-app-settings', (_event, settings: AppSettings) => {
+  const updated = { ...loadAppSettings(), ...settings }
+  saveAppSettings(updated)
+
+  // Apply the new concurrency limit to the running scheduler
+  setMaxConcurrentRuns(updated.maxConcurrentRuns || DEFAULT_MAX_CONCURRENT_RUNS)
+  return updated
+})
+
 // Prompt Agents IPC handlers
 ipcMain.handle('get-prompt-agents', () => {
   return loadPromptAgents()
@@ -462,7 +589,76 @@ ipcMain.handle('add-recent-project', (event, project) => {
   return limitedProjects
 })
 
+// Attach a moved project's conversations and settings to its new location
+ipcMain.handle(
+  'relink-project',
+  async (_event, oldPath: string, newPath: string) => {
+    try {
+      relinkProject(oldPath, newPath)
+
+      // Secret values are keyed on the project path in the keychain
+      const { moveProjectSecrets } = await import('./credential-manager')
+      const movedSecrets = await moveProjectSecrets(oldPath, newPath)
+      if (movedSecrets > 0) {
+        console.log(`🔐 [Projects] Moved ${movedSecrets} project secrets`)
+      }
+
+      const metadata = loadProjectMetadata(newPath)
+      if (metadata) {
+        saveProjectMetadata(newPath, { ...metadata, projectPath: newPath })
+      }
+
+      // Prompts record their project path, and the worktrees' .git files
+      // still point into the old location's .git folder
+      const prompts = loadEnhancedPromptHistory(newPath)
+      for (const prompt of prompts) {
+        saveEnhancedPrompt({ ...prompt, projectPath: newPath })
+      }
+      const worktreePaths = prompts
+        .map(prompt => prompt.worktreePath)
+        .filter((path): path is string => !!path && existsSync(path))
+      if (worktreePaths.length > 0) {
+        await execFileAsync('git', ['worktree', 'repair', ...worktreePaths], {
+          cwd: newPath,
+        })
+      }
+
+      saveRecentProjects(
+        loadRecentProjects().filter((p: any) => p.path !== oldPath)
+      )
+      return { success: true }
+    } catch (error: any) {
+      console.error('❌ [Projects] Failed to relink project:', error)
+      return { success: false, error: error.message }
+    }
+  }
+)
+
+ipcMain.handle(
+  'get-conversation-log-path',
+  (_event, projectPath: string, promptId: string) =>
+    getConversationFilePath(projectPath, promptId)
+)
+
 // Settings IPC handlers - General settings management
+// Enabled MCP servers for a project (global servers plus the project's own)
+const loadMcpServers = (projectPath?: string): McpServerEntry[] =>
+  resolveMcpServers(
+    loadAppSettings().mcpServers,
+    projectPath
+      ? loadProjectMetadata(projectPath)?.settings?.mcpServers
+      : undefined
+  )
+
+// Agent tool list entries for the enabled MCP servers. Listing `mcp__<key>`
+// on an agent permits every tool of that server.
+ipcMain.handle('get-mcp-agent-tools', (_event, projectPath?: string) => {
+  return loadMcpServers(projectPath).map(server => ({
+    name: server.name,
+    tool: `mcp__${getMcpServerKey(server.name)}`,
+  }))
+})
+
 ipcMain.handle('get-project-settings', async (event, projectPath: string) => {
   try {
     const metadata = loadProjectMetadata(projectPath)
@@ -491,8 +687,9 @@ ipcMain.handle(
           settings,
         }
       } else {
-        // Update existing metadata with new settings
-        metadata.settings = settings
+        // Merge so callers can save one group of settings (e.g. theme)
+        // without dropping the others (e.g. defaultModel)
+        metadata.settings = { ...metadata.settings, ...settings }
         metadata.lastUsed = new Date()
       }
 
@@ -505,6 +702,39 @@ ipcMain.handle(
   }
 )
 
+// Append a single permission rule to the project's settings
+function addProjectPermissionRule(
+  projectPath: string,
+  rule: ToolPermissionRule
+) {
+  const metadata = createOrUpdateProjectMetadata(projectPath)
+  const settings = metadata.settings || {}
+  metadata.settings = {
+    ...settings,
+    permissionRules: [...(settings.permissionRules || []), rule],
+  }
+
+  saveProjectMetadata(projectPath, metadata)
+  console.log(
+    `✅ [Permission] Added ${rule.behavior} rule for ${rule.toolName}${rule.pattern ? ` (${rule.pattern})` : ''}`
+  )
+}
+
+// Append a single permission rule without the renderer having to round-trip
+// the whole settings object ("Always allow" goes through canUseTool instead)
+ipcMain.handle(
+  'add-permission-rule',
+  async (_event, projectPath: string, rule: ToolPermissionRule) => {
+    try {
+      addProjectPermissionRule(projectPath, rule)
+      return true
+    } catch (error) {
+      console.error('Error adding permission rule:', error)
+      throw error
+    }
+  }
+)
+
 // Enhanced Prompt history IPC handlers
 ipcMain.handle('get-enhanced-prompt-history', (event, projectPath) => {
   ensureProjectFolderStructure(projectPath)
@@ -568,97 +798,99 @@ ipcMain.handle('read-conversation-log', async (event, filePath: string) => {
   }
 })
 
-ipcMain.handle(
-  'append-to-conversation-log',
-  async (event, filePath: string, logEntry: any) => {
-    let release: (() => Promise<void>) | null = null
+// Append one entry to a conversation log, locked so concurrent runs don't
+// overwrite each other's entries
+const appendToConversationLog = async (filePath: string, logEntry: any) => {
+  let release: (() => Promise<void>) | null = null
 
-    try {
-      // Expand tilde in file path
-      const expandedFilePath = filePath.startsWith('~')
-        ? join(homedir(), filePath.slice(1))
-        : filePath
-
-      // Ensure the directory exists
-      const dirPath = join(expandedFilePath, '..')
-      if (!existsSync(dirPath)) {
-        mkdirSync(dirPath, { recursive: true })
-        console.log('Created directory:', dirPath)
-      }
+  try {
+    // Expand tilde in file path
+    const expandedFilePath = filePath.startsWith('~')
+      ? join(homedir(), filePath.slice(1))
+      : filePath
 
-      // Create file if it doesn't exist (required for locking)
-      if (!existsSync(expandedFilePath)) {
-        writeFileSync(expandedFilePath, JSON.stringify([], null, 2))
-        console.log('Creating new conversation log file:', expandedFilePath)
-      }
+    // Ensure the directory exists
+    const dirPath = join(expandedFilePath, '..')
+    if (!existsSync(dirPath)) {
+      mkdirSync(dirPath, { recursive: true })
+      console.log('Created directory:', dirPath)
+    }
 
-      // 🔒 CRITICAL FIX: Acquire exclusive lock to prevent race conditions
-      // This ensures atomic read-modify-write operations when multiple prompts
-      // execute concurrently and try to write to the same file
-      console.log('🔒 Attempting to acquire lock for:', expandedFilePath)
-      release = await lockfile.lock(expandedFilePath, {
-        retries: {
-          retries: 10, // Retry up to 10 times
-          minTimeout: 50, // Start with 50ms delay
-          maxTimeout: 1000, // Max 1 second delay between retries
-        },
-        stale: 10000, // Consider lock stale after 10 seconds
-      })
-      console.log('✅ Lock acquired for:', expandedFilePath)
+    // Create file if it doesn't exist (required for locking)
+    if (!existsSync(expandedFilePath)) {
+      writeFileSync(expandedFilePath, JSON.stringify([], null, 2))
+      console.log('Creating new conversation log file:', expandedFilePath)
+    }
+
+    // 🔒 CRITICAL FIX: Acquire exclusive lock to prevent race conditions
+    // This ensures atomic read-modify-write operations when multiple prompts
+    // execute concurrently and try to write to the same file
+    console.log('🔒 Attempting to acquire lock for:', expandedFilePath)
+    release = await lockfile.lock(expandedFilePath, {
+      retries: {
+        retries: 10, // Retry up to 10 times
+        minTimeout: 50, // Start with 50ms delay
+        maxTimeout: 1000, // Max 1 second delay between retries
+      },
+      stale: 10000, // Consider lock stale after 10 seconds
+    })
+    console.log('✅ Lock acquired for:', expandedFilePath)
 
-      // Read existing file content or create empty array
-      let logEntries: any[] = []
+    // Read existing file content or create empty array
+    let logEntries: any[] = []
 
-      try {
-        const fileContent = readFileSync(expandedFilePath, 'utf8')
-        logEntries = JSON.parse(fileContent)
+    try {
+      const fileContent = readFileSync(expandedFilePath, 'utf8')
+      logEntries = JSON.parse(fileContent)
 
-        if (!Array.isArray(logEntries)) {
-          console.warn('Conversation log file is not an array, recreating')
-          logEntries = []
-        }
-      } catch (parseError) {
-        console.error(
-          'Error parsing conversation log file, recreating:',
-          parseError
-        )
+      if (!Array.isArray(logEntries)) {
+        console.warn('Conversation log file is not an array, recreating')
         logEntries = []
       }
+    } catch (parseError) {
+      console.error(
+        'Error parsing conversation log file, recreating:',
+        parseError
+      )
+      logEntries = []
+    }
 
-      // Append new entry
-      logEntries.push(logEntry)
+    // Append new entry
+    logEntries.push(logEntry)
 
-      // Write back to file
-      writeFileSync(expandedFilePath, JSON.stringify(logEntries, null, 2))
-      console.log(
-        '✅ Successfully wrote to conversation log:',
-        expandedFilePath
-      )
+    // Write back to file
+    writeFileSync(expandedFilePath, JSON.stringify(logEntries, null, 2))
+    console.log('✅ Successfully wrote to conversation log:', expandedFilePath)
 
-      // Release lock
-      await release()
-      console.log('🔓 Lock released for:', expandedFilePath)
+    // Release lock
+    await release()
+    console.log('🔓 Lock released for:', expandedFilePath)
 
-      return { success: true }
-    } catch (error: any) {
-      console.error('Error appending to conversation log:', error)
+    return { success: true }
+  } catch (error: any) {
+    console.error('Error appending to conversation log:', error)
 
-      // Ensure lock is released even on error
-      if (release) {
-        try {
-          await release()
-          console.log('🔓 Lock released (error path) for:', filePath)
-        } catch (releaseError) {
-          console.error('Error releasing lock:', releaseError)
-        }
+    // Ensure lock is released even on error
+    if (release) {
+      try {
+        await release()
+        console.log('🔓 Lock released (error path) for:', filePath)
+      } catch (releaseError) {
+        console.error('Error releasing lock:', releaseError)
       }
+    }
 
-      return {
-        success: false,
-        error: error.message,
-      }
+    return {
+      success: false,
+      error: error.message,
     }
   }
+}
+
+ipcMain.handle(
+  'append-to-conversation-log',
+  (_event, filePath: string, logEntry: any) =>
+    appendToConversationLog(filePath, logEntry)
 )
 
 ipcMain.handle(
@@ -1175,7 +1407,9 @@ ipcMain.handle(
         branch,
         promptText,
         promptId,
-        parentWorktreePath
+        parentWorktreePath,
+        undefined,
+        loadProjectMetadata(projectPath)?.settings
       )
       return {
         success: true,
@@ -1186,6 +1420,7 @@ ipcMain.handle(
       return {
         success: false,
         error: error.message,
+        ...classifyConversationError(error.message, { fallback: 'git_failed' }),
       }
     }
   }
@@ -1202,6 +1437,7 @@ ipcMain.handle('cleanup-worktree', async (event, worktreePath) => {
     return {
       success: false,
       error: error.message,
+      ...classifyConversationError(error.message, { fallback: 'git_failed' }),
     }
   }
 })
@@ -1219,11 +1455,212 @@ ipcMain.handle('validate-worktree', async (event, worktreePath) => {
     return {
       success: false,
       error: error.message,
+      ...classifyConversationError(error.message, { fallback: 'git_failed' }),
       isValid: false,
     }
   }
 })
 
+// Example branch name and validation error for the branch template setting
+ipcMain.handle('preview-branch-template', (_event, template: string) => ({
+  example: previewBranchName(template || DEFAULT_BRANCH_NAME_TEMPLATE),
+  error: template ? validateBranchTemplate(template) : null,
+}))
+
+// What new worktrees will get of the project's ignored files under a policy
+ipcMain.handle(
+  'preview-worktree-links',
+  async (_event, projectPath: string, policy?: WorktreeLinkPolicy) => {
+    try {
+      return {
+        success: true,
+        items: await planWorktreeLinks(projectPath, policy),
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to preview worktree links:', error)
+      return { success: false, error: error.message, items: [] }
+    }
+  }
+)
+
+// ============================================================================
+// Permission Audit Log
+// ============================================================================
+ipcMain.handle('get-audit-log', (_event, projectPath: string) =>
+  readAuditLog(getAuditLogPath(projectPath))
+)
+
+// Export the entries the renderer has filtered to a file the user picks
+ipcMain.handle(
+  'export-audit-log',
+  async (
+    _event,
+    projectPath: string,
+    format: 'csv' | 'json',
+    entries: AuditLogEntry[]
+  ) => {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Audit Log',
+      defaultPath: `${basename(projectPath)}-audit-log.${format}`,
+      filters: [
+        format === 'csv'
+          ? { name: 'CSV', extensions: ['csv'] }
+          : { name: 'JSON', extensions: ['json'] },
+      ],
+    })
+    if (result.canceled || !result.filePath) return { success: false }
+
+    try {
+      writeFileSync(result.filePath, formatAuditLog(entries, format))
+      console.log(
+        `✅ [Audit] Exported ${entries.length} entries to ${result.filePath}`
+      )
+      return { success: true, filePath: result.filePath }
+    } catch (error: any) {
+      console.error('❌ [Audit] Failed to export audit log:', error)
+      return { success: false, error: error.message }
+    }
+  }
+)
+
+// ============================================================================
+// Project Secrets
+// ============================================================================
+// LOGIC: Secret env variables are listed in the project settings without a
+// value; the value is written to the OS keychain and never sent back to the
+// renderer, which only gets the names that have one stored
+ipcMain.handle(
+  'get-project-secret-names',
+  async (_event, projectPath: string) => {
+    const { listProjectSecretNames } = await import('./credential-manager')
+    return listProjectSecretNames(projectPath)
+  }
+)
+
+ipcMain.handle(
+  'save-project-secret',
+  async (_event, projectPath: string, name: string, value: string) => {
+    try {
+      const { saveProjectSecret } = await import('./credential-manager')
+      await saveProjectSecret(projectPath, name, value)
+      console.log(`✅ [Env] Secret ${name} saved`)
+      return { success: true }
+    } catch (error: any) {
+      console.error('❌ [Env] Failed to save secret:', error)
+      return { success: false, error: error?.message || String(error) }
+    }
+  }
+)
+
+ipcMain.handle(
+  'delete-project-secret',
+  async (_event, projectPath: string, name: string) => {
+    try {
+      const { deleteProjectSecret } = await import('./credential-manager')
+      await deleteProjectSecret(projectPath, name)
+      console.log(`✅ [Env] Secret ${name} deleted`)
+      return { success: true }
+    } catch (error: any) {
+      console.error('❌ [Env] Failed to delete secret:', error)
+      return { success: false, error: error?.message || String(error) }
+    }
+  }
+)
+
+// Pick up node from the login shell's PATH ("Fix PATH" recovery action)
+ipcMain.handle('refresh-shell-path', async () => refreshPathFromLoginShell())
+
+// Fork a conversation at one of its assistant messages (see conversation-fork.ts)
+ipcMain.handle(
+  'fork-conversation',
+  async (_event, projectPath: string, promptId: string, messageId: string) => {
+    try {
+      const parent = loadEnhancedPromptHistory(projectPath).find(
+        p => p.id === promptId
+      )
+      if (!parent?.worktreePath || !existsSync(parent.worktreePath)) {
+        throw new Error('The conversation has no worktree to fork from')
+      }
+
+      const parentLog: ConversationLogEntry[] = JSON.parse(
+        readFileSync(getConversationFilePath(projectPath, promptId), 'utf8')
+      )
+      const entries = truncateLogAtMessage(parentLog, messageId)
+      const forkedAt = new Date(entries[entries.length - 1].timestamp)
+      const { commit, stash } = await resolveForkStartPoint(
+        parent.worktreePath,
+        parentLog,
+        entries.length
+      )
+
+      const forkId = randomUUID()
+      const worktreeInfo = await createWorktree(
+        projectPath,
+        parent.branch,
+        parent.prompt,
+        forkId,
+        parent.worktreePath,
+        commit,
+        loadProjectMetadata(projectPath)?.settings
+      )
+      if (stash) await applyForkChanges(worktreeInfo.worktreePath, stash)
+
+      const conversationLogPath = getConversationFilePath(projectPath, forkId)
+      writeFileSync(conversationLogPath, JSON.stringify(entries, null, 2))
+
+      // Only Claude sessions can be resumed at a message
+      const parentSessionId =
+        entries[entries.length - 1].data.content.session_id
+      const sessionId =
+        (!parent.backend || parent.backend === 'claude-code') &&
+        parentSessionId &&
+        copySessionToWorktree(
+          parentSessionId,
+          parent.worktreePath,
+          worktreeInfo.worktreePath
+        )
+          ? parentSessionId
+          : undefined
+
+      const now = new Date()
+      const fork: EnhancedPromptHistoryItem = {
+        id: forkId,
+        prompt: parent.prompt,
+        startExecutionTime: now,
+        branch: worktreeInfo.branchName,
+        branchStatus: 'active',
+        promptHistoryId: forkId,
+        status: 'completed',
+        projectPath,
+        worktreePath: worktreeInfo.worktreePath,
+        autoAcceptEnabled: parent.autoAcceptEnabled,
+        agentId: parent.agentId,
+        agentName: parent.agentName,
+        model: parent.model,
+        backend: parent.backend,
+        replayLogPath: parent.replayLogPath,
+        budget: parent.budget,
+        forkedFrom: { promptId, messageId, sessionId, commit, forkedAt },
+        createdAt: now,
+        updatedAt: now,
+      }
+      saveEnhancedPrompt(fork)
+
+      console.log(
+        `🍴 [Fork] Forked ${promptId} at ${messageId} into ${forkId} (${sessionId ? 'resuming session' : 'sending transcript'})`
+      )
+      return { success: true, prompt: fork, conversationLogPath }
+    } catch (error: any) {
+      console.error('Error in fork-conversation IPC handler:', error)
+      return {
+        success: false,
+        error: error.message,
+        ...classifyConversationError(error.message),
+      }
+    }
+  }
+)
+
 // Check if a file exists
 ipcMain.handle('check-file-exists', async (event, filePath) => {
   try {
@@ -1381,6 +1818,143 @@ ipcMain.handle('get-project-worktrees', async (event, projectPath) => {
   }
 })
 
+// ============================================================================
+// Worktree Setup Commands
+// ============================================================================
+// LOGIC: Setup commands run with the project's env variables plus the project
+// and worktree paths. Their output is masked like agent output, since install
+// and migration logs can echo secrets.
+const getSetupEnvironment = async (
+  projectPath: string,
+  worktreePath: string
+) => {
+  const settings = loadProjectMetadata(projectPath)?.settings
+  const { env, secretValues } = await resolveProjectEnv(
+    projectPath,
+    settings,
+    worktreePath
+  )
+  return {
+    commands: settings?.setupCommands,
+    env: {
+      ...process.env,
+      ...env,
+      ALMOND_PROJECT_PATH: projectPath,
+      ALMOND_WORKTREE_PATH: worktreePath,
+    },
+    secretValues,
+  }
+}
+
+// Run the setup commands in a conversation's new worktree, logging each
+// finished command. Stops at the first failure, which can be retried from
+// fromCommandId.
+const runWorktreeSetupCommands = async ({
+  projectPath,
+  promptId,
+  worktreePath,
+  conversationLogPath,
+  fromCommandId,
+  onOutput,
+}: {
+  projectPath: string
+  promptId: string
+  worktreePath: string
+  conversationLogPath: string
+  fromCommandId?: string
+  onOutput?: (update: WorktreeSetupOutput) => void
+}) => {
+  const { commands, env, secretValues } = await getSetupEnvironment(
+    projectPath,
+    worktreePath
+  )
+  const setupCommands = getSetupCommands(commands, 'setup', fromCommandId)
+
+  for (const command of setupCommands) {
+    const stepId = randomUUID()
+    const sendOutput = (output: string, exitCode?: number) =>
+      onOutput?.({
+        promptId,
+        stepId,
+        command: command.command,
+        output: maskSecrets(output, secretValues),
+        exitCode,
+      })
+
+    console.log(`🧰 [Setup] Running in ${worktreePath}: ${command.command}`)
+    const result = await runSetupCommand(command, worktreePath, env, sendOutput)
+    sendOutput(result.output, result.exitCode)
+    await appendToConversationLog(conversationLogPath, {
+      from: 'system',
+      timestamp: new Date().toISOString(),
+      data: {
+        content: {
+          type: 'setup_step',
+          command: command.command,
+          exitCode: result.exitCode,
+          output: maskSecrets(result.output, secretValues),
+        },
+      },
+    })
+
+    if (result.exitCode !== 0) {
+      console.log(
+        `❌ [Setup] ${command.command} exited with ${result.exitCode}`
+      )
+      return {
+        success: false,
+        failedCommandId: command.id,
+        command: command.command,
+        exitCode: result.exitCode,
+      }
+    }
+  }
+
+  if (setupCommands.length > 0) {
+    console.log(`✅ [Setup] ${setupCommands.length} setup commands finished`)
+  }
+  return { success: true }
+}
+
+// Renderer side of a new worktree's setup: output streams over
+// 'worktree-setup-output', and a failure is offered as retry or skip
+ipcMain.handle(
+  'run-worktree-setup',
+  async (
+    event,
+    options: Omit<Parameters<typeof runWorktreeSetupCommands>[0], 'onOutput'>
+  ) =>
+    runWorktreeSetupCommands({
+      ...options,
+      onOutput: update => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send('worktree-setup-output', update)
+        }
+      },
+    })
+)
+
+// Cleanup commands before a worktree is removed. Best-effort: failures are
+// logged and the removal goes ahead.
+const runCleanupCommands = async (
+  projectPath: string,
+  worktreePath: string
+) => {
+  const { commands, env, secretValues } = await getSetupEnvironment(
+    projectPath,
+    worktreePath
+  )
+  for (const command of getSetupCommands(commands, 'cleanup')) {
+    console.log(`🧹 [Setup] Cleanup in ${worktreePath}: ${command.command}`)
+    const result = await runSetupCommand(command, worktreePath, env, () => {})
+    if (result.exitCode !== 0) {
+      console.warn(
+        `⚠️  [Setup] Cleanup command exited with ${result.exitCode}: ${maskSecrets(result.output, secretValues)}`
+      )
+    }
+  }
+}
+
 // Perform worktree merge with auto-commit and cleanup
 ipcMain.handle(
   'perform-worktree-merge',
@@ -1598,6 +2172,7 @@ ipcMain.handle(
 
         // Step 8: Cleanup - Remove worktree and delete branch
         console.log('Cleaning up worktree and branch...')
+        await runCleanupCommands(projectPath, worktreePath)
         await execAsync(`git worktree remove "${worktreePath}"`, {
           cwd: projectPath,
         })
@@ -1662,6 +2237,7 @@ ipcMain.handle(
 
       // Step 4: Cleanup - Remove worktree and delete branch
       console.log('Cleaning up worktree and branch...')
+      await runCleanupCommands(projectPath, worktreePath)
       await execAsync(`git worktree remove "${worktreePath}"`, {
         cwd: projectPath,
       })
@@ -1760,6 +2336,7 @@ ipcMain.handle(
 
       // Step 2: Force remove worktree (including uncommitted changes)
       console.log('Removing worktree:', worktreePath)
+      await runCleanupCommands(projectPath, worktreePath)
       await execAsync(`git worktree remove --force "${worktreePath}"`, {
         cwd: projectPath,
       })
@@ -2058,6 +2635,169 @@ ipcMain.handle('cleanup-conversation-worktrees', async (event, projectPath) => {
   }
 })
 
+// ============================================================================
+// Agent Run Preparation
+// ============================================================================
+// LOGIC: Resolves everything a run needs from the main process stores (agent,
+// budget, permission rules, MCP servers, hooks) and returns the run itself.
+// Used by the renderer's execute requests and by headless runs.
+interface AgentRunRequest {
+  prompt: string
+  workingDirectory: string
+  allowedTools?: string[]
+  permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
+  resume?: string
+  // New fields for permission system:
+  promptId?: string // Which conversation is making this request
+  conversationTitle?: string // Display name for the conversation
+  autoAcceptEnabled?: boolean // Whether auto-accept toggle is ON
+  agentId?: string // Prompt agent whose system prompt and tools apply
+  model?: string // Model alias or ID for this run
+  projectPath?: string // Main project (not worktree), used to load permission rules
+  backend?: AgentBackendId // Agent that runs the conversation (defaults to Claude)
+  nonInteractive?: boolean // Headless run, permission requests are denied
+}
+
+const prepareAgentRun = (
+  options: AgentRunRequest,
+  sender: BrowserWindow['webContents']
+) => {
+  // Resolve the selected prompt agent so its system prompt and tool list
+  // are applied to this run (agents are stored in the main process)
+  const { agentId, projectPath, backend, ...queryOptions } = options
+  const agent = agentId
+    ? loadPromptAgents().find((a: PromptAgent) => a.id === agentId)
+    : undefined
+
+  if (agentId && !agent) {
+    console.warn(`⚠️  [Agents] Agent ${agentId} not found, running without it`)
+  }
+
+  // Budget: project limits, overridden per conversation, counted against
+  // what this conversation has already spent
+  const promptItem =
+    projectPath && queryOptions.promptId
+      ? loadEnhancedPromptHistory(projectPath).find(
+          p => p.id === queryOptions.promptId
+        )
+      : undefined
+  const budget = resolveBudgetLimits(
+    projectPath
+      ? loadProjectMetadata(projectPath)?.settings?.budget
+      : undefined,
+    promptItem?.budget
+  )
+
+  // A fork's first run continues from the parent's session at the forked
+  // message or, without a session to resume, from the copied transcript
+  const forkedFrom =
+    !queryOptions.resume && !promptItem?.aiSessionId
+      ? promptItem?.forkedFrom
+      : undefined
+  const forkOptions = forkedFrom?.sessionId
+    ? {
+        resume: forkedFrom.sessionId,
+        resumeSessionAt: forkedFrom.messageId,
+        forkSession: true,
+      }
+    : forkedFrom && projectPath && queryOptions.promptId
+      ? {
+          prompt: `${loadForkTranscript(
+            getConversationFilePath(projectPath, queryOptions.promptId),
+            forkedFrom.messageId
+          )}\n\n${queryOptions.prompt}`,
+        }
+      : {}
+
+  // Release a prompt that never ran or stopped without a result message
+  const releasePrompt = (extraCostUsd = 0) => {
+    if (!projectPath || !queryOptions.promptId) return
+    const latest = loadEnhancedPromptHistory(projectPath).find(
+      p => p.id === queryOptions.promptId
+    )
+    if (!latest) return
+    saveEnhancedPrompt({
+      ...latest,
+      status: 'completed',
+      totalCostUsd: (latest.totalCostUsd || 0) + extraCostUsd,
+      updatedAt: new Date(),
+    })
+  }
+
+  // Pass all options including permission-related fields to the backend.
+  // Project env is resolved when the run starts, so a queued run picks up
+  // .env and secret changes
+  const runQuery = async () => {
+    const { env: projectEnv, secretValues } = projectPath
+      ? await resolveProjectEnv(
+          projectPath,
+          loadProjectMetadata(projectPath)?.settings,
+          queryOptions.workingDirectory
+        )
+      : { env: {}, secretValues: [] }
+    if (queryOptions.promptId) {
+      registerRunSecrets(queryOptions.promptId, secretValues)
+    }
+
+    return getAgentBackend(backend).run(
+      {
+        ...queryOptions,
+        ...forkOptions,
+        agentName: agent?.name,
+        appendSystemPrompt: agent?.systemPrompt,
+        agentTools: agent?.tools,
+        getPermissionRules: () =>
+          projectPath
+            ? loadProjectMetadata(projectPath)?.settings?.permissionRules || []
+            : [],
+        addPermissionRule: projectPath
+          ? rule => {
+              try {
+                addProjectPermissionRule(projectPath, rule)
+              } catch (error) {
+                console.error('Error adding permission rule:', error)
+              }
+            }
+          : undefined,
+        getGuardrailPolicy: () =>
+          projectPath
+            ? loadProjectMetadata(projectPath)?.settings?.guardrails
+            : undefined,
+        budget,
+        spentCostUsd: promptItem?.totalCostUsd || 0,
+        // No result message reached the renderer, so record the estimated
+        // spend and release the prompt here
+        onBudgetStop: releasePrompt,
+        onPermissionDecision: decision => {
+          if (!projectPath) return
+          appendAuditEntry(getAuditLogPath(projectPath), {
+            ...decision,
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            toolInput: JSON.parse(
+              maskSecrets(
+                JSON.stringify(decision.toolInput ?? null),
+                secretValues
+              )
+            ),
+          })
+        },
+        mcpServers: toSdkMcpServers(loadMcpServers(projectPath)),
+        agents: toSdkAgents(loadPromptAgents(), agent?.tools),
+        toolHooks: projectPath
+          ? loadProjectMetadata(projectPath)?.settings?.toolHooks
+          : undefined,
+        replayLogPath: promptItem?.replayLogPath,
+        retryPolicy: loadAppSettings().retryPolicy,
+        projectEnv,
+      },
+      maskSender(sender, secretValues)
+    )
+  }
+
+  return { runQuery, releasePrompt }
+}
+
 // ============================================================================
 // Claude SDK IPC Handler - Streams JSON messages in real-time
 // ============================================================================
@@ -2065,23 +2805,24 @@ ipcMain.handle('cleanup-conversation-worktrees', async (event, projectPath) => {
 // queries. We've extended it to include permission system parameters.
 ipcMain.handle(
   'execute-claude-sdk',
-  async (
-    event,
-    options: {
-      prompt: string
-      workingDirectory: string
-      allowedTools?: string[]
-      permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan'
-      resume?: string
-      // New fields for permission system:
-      promptId?: string // Which conversation is making this request
-      conversationTitle?: string // Display name for the conversation
-      autoAcceptEnabled?: boolean // Whether auto-accept toggle is ON
-    }
-  ) => {
+  async (event, options: AgentRunRequest) => {
     try {
-      // Pass all options including permission-related fields to executeClaudeQuery
-      await executeClaudeQuery(options, event.sender)
+      const { runQuery, releasePrompt } = prepareAgentRun(options, event.sender)
+
+      // Journal the run so it can be reconciled if the app quits mid-run
+      if (options.projectPath && options.promptId) {
+        registerJournalRun(options.promptId, options.projectPath)
+      }
+
+      // The scheduler starts it now or queues it behind the running conversations
+      const ran = options.promptId
+        ? await scheduleRun(options.promptId, runQuery)
+        : await runQuery().then(() => true)
+
+      if (!ran) {
+        releasePrompt()
+        return { success: false, error: 'Run was cancelled while queued' }
+      }
       return { success: true }
     } catch (error: any) {
       console.error('Error in execute-claude-sdk IPC handler:', error)
@@ -2100,7 +2841,10 @@ ipcMain.handle(
 // the abortQuery function from claude-sdk.ts to stop the running query
 ipcMain.handle('abort-claude-sdk', async (event, promptId: string) => {
   try {
-    await abortQuery(promptId, event.sender)
+    // A queued run has no SDK process yet, just take it out of the queue
+    if (!cancelQueuedRun(promptId)) {
+      await abortQuery(promptId, event.sender)
+    }
     return { success: true }
   } catch (error: any) {
     console.error('Error aborting Claude SDK:', error)
@@ -2111,6 +2855,18 @@ ipcMain.handle('abort-claude-sdk', async (event, promptId: string) => {
   }
 })
 
+// ============================================================================
+// Run Queue Reorder IPC Handler
+// ============================================================================
+// LOGIC: Moves a queued conversation to a new 0-based position so the user
+// can decide which waiting run gets the next free slot
+ipcMain.handle(
+  'move-queued-run',
+  (_event, promptId: string, toIndex: number) => {
+    return moveQueuedRun(promptId, toIndex)
+  }
+)
+
 // ============================================================================
 // Auto-Accept State Update IPC Handler
 // ============================================================================
@@ -2154,6 +2910,11 @@ ipcMain.on(
   }
 )
 
+// Drop a conversation's state, e.g. once an error recovery action succeeded
+ipcMain.handle('clear-conversation-state', async (_event, promptId: string) => {
+  clearConversationState(promptId)
+})
+
 // ============================================================================
 // Authentication Check IPC Handlers
 // ============================================================================
@@ -2418,57 +3179,341 @@ ipcMain.handle('open-external-url', async (event, url: string) => {
 
 let tray: Tray | null = null
 
-makeAppWithSingleInstanceLock(async () => {
-  await app.whenReady()
-
-  // Create tray icon
-  // In development, resources are in src/resources/public
-  // In production, resources are copied to the app's resources folder
-  const isDev = !app.isPackaged
-  const trayIconPath = isDev
-    ? join(process.cwd(), 'src/resources/public/trayIconTemplate.png')
-    : join(process.resourcesPath, 'public/trayIconTemplate.png')
-
-  console.log('Tray icon path:', trayIconPath)
-  const trayIcon = nativeImage.createFromPath(trayIconPath)
-  trayIcon.setTemplateImage(true) // Enable macOS template mode
-  tray = new Tray(trayIcon)
-
-  const contextMenu = Menu.buildFromTemplate([
-    {
-      label: 'Show AlmondCoder',
-      click: () => {
-        const windows = BrowserWindow.getAllWindows()
-        if (windows.length > 0) {
-          windows[0].show()
-          windows[0].focus()
+// ============================================================================
+// Interrupted Run Reconciliation
+// ============================================================================
+// LOGIC: Runs still in the journal at startup were cut off when the app quit.
+// Their SDK processes are gone, so the prompt is marked 'interrupted' and an
+// 'interrupted' conversation state is restored for the UI to offer a resume
+// from the stored session. Pending permission requests can no longer be
+// answered, so they are expired.
+const ACTIVE_RUN_STATUSES = [
+  'queued',
+  'running',
+  'waiting_permission',
+  'retrying',
+]
+
+const reconcileInterruptedRuns = () => {
+  const entries = takeJournalEntries().filter(entry =>
+    ACTIVE_RUN_STATUSES.includes(entry.status)
+  )
+
+  for (const entry of entries) {
+    const prompt = loadEnhancedPromptHistory(entry.projectPath).find(
+      p => p.id === entry.promptId
+    )
+    if (!prompt) continue
+
+    const sessionId = entry.sessionId || prompt.aiSessionId
+    saveEnhancedPrompt({
+      ...prompt,
+      status: 'interrupted',
+      isExecuting: false,
+      aiSessionId: sessionId,
+      updatedAt: new Date(),
+    })
+
+    const reason = entry.pendingPermission
+      ? `App closed while waiting for permission to use ${entry.pendingPermission.toolName}. That request has expired`
+      : entry.status === 'queued'
+        ? 'App closed before this queued run started'
+        : 'App closed while Claude was working'
+
+    // No windows exist yet; the renderer picks this up via getAllConversationStates
+    updateConversationState(
+      entry.promptId,
+      { status: 'interrupted', sessionId, error: reason },
+      false
+    )
+  }
+
+  if (entries.length > 0) {
+    console.log(`🩹 [Journal] Marked ${entries.length} run(s) as interrupted`)
+  }
+}
+
+// ============================================================================
+// Headless Runs
+// ============================================================================
+// LOGIC: Runs one conversation from the command line (see headless-cli.ts).
+// There is no renderer, so this does what the conversation view and its
+// message handler do: save the prompt, write the conversation log, persist
+// the session ID and mark the prompt completed with its cost. Runs aren't
+// scheduled or journaled; those belong to the GUI process.
+const runHeadless = async (args: HeadlessRunArgs): Promise<number> => {
+  const projectPath = resolve(args.projectPath)
+  const result: HeadlessRunResult = { success: false }
+  const finish = (exitCode: number) => {
+    printHeadlessResult(result, args.json)
+    return exitCode
+  }
+
+  if (!existsSync(projectPath)) {
+    result.error = `Project not found: ${projectPath}`
+    return finish(HEADLESS_EXIT_CODES.usage)
+  }
+
+  const agentQuery = args.agent?.toLowerCase()
+  const agent = agentQuery
+    ? loadPromptAgents().find(
+        a => a.id === args.agent || a.name.toLowerCase() === agentQuery
+      )
+    : undefined
+  if (args.agent && !agent) {
+    result.error = `Agent not found: ${args.agent}`
+    return finish(HEADLESS_EXIT_CODES.usage)
+  }
+
+  const metadata = createOrUpdateProjectMetadata(projectPath)
+  const promptId = randomUUID()
+  const conversationLogPath = getConversationFilePath(projectPath, promptId)
+  const model = args.model || metadata.settings?.defaultModel
+  result.promptId = promptId
+
+  // Log writes are chained so entries keep the order messages arrived in
+  let logQueue = appendToConversationLog(conversationLogPath, {
+    from: 'user',
+    timestamp: new Date().toISOString(),
+    data: { content: { type: 'text', text: args.prompt } },
+  })
+
+  const updatePrompt = (updates: Partial<EnhancedPromptHistoryItem>) => {
+    const prompt = loadEnhancedPromptHistory(projectPath).find(
+      p => p.id === promptId
+    )
+    if (prompt)
+      saveEnhancedPrompt({ ...prompt, ...updates, updatedAt: new Date() })
+  }
+
+  try {
+    const worktreeInfo = await createWorktree(
+      projectPath,
+      args.branch,
+      args.prompt,
+      promptId,
+      undefined,
+      undefined,
+      loadProjectMetadata(projectPath)?.settings
+    )
+    result.worktreePath = worktreeInfo.worktreePath
+    result.branch = worktreeInfo.branchName
+
+    saveEnhancedPrompt({
+      id: promptId,
+      prompt: args.prompt,
+      startExecutionTime: new Date(),
+      branch: worktreeInfo.branchName,
+      branchStatus: 'active',
+      promptHistoryId: promptId,
+      status: 'busy',
+      projectPath,
+      worktreePath: worktreeInfo.worktreePath,
+      autoAcceptEnabled: args.autoAccept,
+      agentId: agent?.id,
+      agentName: agent?.name,
+      model,
+      backend: args.backend,
+      replayLogPath: args.replayLogPath && resolve(args.replayLogPath),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+
+    // Nobody can retry or skip a failed setup, so it fails the run
+    await logQueue
+    const setup = await runWorktreeSetupCommands({
+      projectPath,
+      promptId,
+      worktreePath: worktreeInfo.worktreePath,
+      conversationLogPath,
+    })
+    if (!setup.success) {
+      throw new Error(
+        `Setup command failed: ${setup.command} exited with ${setup.exitCode}`
+      )
+    }
+
+    // Stands in for the renderer: collects what the message handler would
+    // write to the log and the prompt file
+    const sender = {
+      send: (channel: string, output: any) => {
+        if (channel !== 'command-output' || output?.partial) return
+
+        let message: any
+        try {
+          message = JSON.parse(output.data)
+        } catch {
+          return
+        }
+
+        if (output.type === 'stderr' && message.type === 'error') {
+          result.error = message.error
+          return
+        }
+        if (message.type === 'stream_event') return
+
+        logQueue = logQueue.then(() =>
+          appendToConversationLog(conversationLogPath, {
+            from: 'ai',
+            timestamp: new Date().toISOString(),
+            data: { content: message },
+          })
+        )
+
+        if (message.session_id && message.session_id !== result.sessionId) {
+          result.sessionId = message.session_id
+          updatePrompt({ aiSessionId: message.session_id })
+        }
+
+        if (message.type === 'result') {
+          result.success = !message.is_error
+          result.result = message.result
+          result.costUsd = message.total_cost_usd
+          result.numTurns = message.num_turns
+          result.durationMs = message.duration_ms
+          if (message.is_error) {
+            result.error = `Run ended with ${message.subtype}`
+          }
         }
       },
-    },
-    { type: 'separator' },
-    {
-      label: 'Quit',
-      click: () => {
-        app.quit()
+    } as unknown as BrowserWindow['webContents']
+
+    const { runQuery } = prepareAgentRun(
+      {
+        prompt: args.prompt,
+        workingDirectory: worktreeInfo.worktreePath,
+        allowedTools: ['Read', 'Glob', 'Grep'],
+        permissionMode: 'default',
+        promptId,
+        conversationTitle: args.prompt.substring(0, 200),
+        autoAcceptEnabled: args.autoAccept,
+        agentId: agent?.id,
+        model,
+        projectPath,
+        backend: args.backend,
+        nonInteractive: !args.autoAccept,
       },
-    },
-  ])
+      sender
+    )
 
-  tray.setToolTip('AlmondCoder')
-  tray.setContextMenu(contextMenu)
+    await runQuery()
 
-  // Handle tray icon click to show/hide window
-  tray.on('click', () => {
-    const windows = BrowserWindow.getAllWindows()
-    if (windows.length > 0) {
-      if (windows[0].isVisible()) {
-        windows[0].hide()
-      } else {
-        windows[0].show()
-        windows[0].focus()
-      }
+    // A budget stop ends the run without an error or a result message
+    const state = getAllConversationStates().find(s => s.promptId === promptId)
+    if (state?.status === 'budget_exceeded') {
+      result.success = false
+      result.error = state.error
+    }
+  } catch (error: any) {
+    result.success = false
+    result.error = result.error || error.message
+  }
+
+  await logQueue
+  if (result.error && !result.success) {
+    await appendToConversationLog(conversationLogPath, {
+      from: 'system',
+      timestamp: new Date().toISOString(),
+      data: { content: { type: 'error', message: result.error } },
+    })
+  }
+
+  const prompt = loadEnhancedPromptHistory(projectPath).find(
+    p => p.id === promptId
+  )
+  if (prompt) {
+    saveEnhancedPrompt({
+      ...prompt,
+      status: 'completed',
+      totalCostUsd: (prompt.totalCostUsd || 0) + (result.costUsd || 0),
+      updatedAt: new Date(),
+    })
+  }
+
+  return finish(
+    result.success ? HEADLESS_EXIT_CODES.success : HEADLESS_EXIT_CODES.runFailed
+  )
+}
+
+// `almondcoder run ...` skips the GUI (and its single-instance lock, so it
+// works while the app is open) and exits with the run's exit code
+const headlessCommand = parseHeadlessCommand(
+  process.argv.slice(app.isPackaged ? 1 : 2)
+)
+
+if (headlessCommand) {
+  // Diagnostics go to stderr so stdout carries only the result
+  console.log = console.error
+  console.info = console.error
+  console.warn = console.error
+  app.dock?.hide()
+
+  app.whenReady().then(async () => {
+    if (headlessCommand.type === 'help') {
+      process.stdout.write(`${HEADLESS_USAGE}\n`)
+      app.exit(HEADLESS_EXIT_CODES.success)
+    } else if (headlessCommand.type === 'error') {
+      process.stderr.write(`${headlessCommand.message}\n\n${HEADLESS_USAGE}\n`)
+      app.exit(HEADLESS_EXIT_CODES.usage)
+    } else {
+      app.exit(await runHeadless(headlessCommand.args))
     }
   })
+} else {
+  makeAppWithSingleInstanceLock(async () => {
+    await app.whenReady()
+
+    reconcileInterruptedRuns()
+
+    // Create tray icon
+    // In development, resources are in src/resources/public
+    // In production, resources are copied to the app's resources folder
+    const isDev = !app.isPackaged
+    const trayIconPath = isDev
+      ? join(process.cwd(), 'src/resources/public/trayIconTemplate.png')
+      : join(process.resourcesPath, 'public/trayIconTemplate.png')
+
+    console.log('Tray icon path:', trayIconPath)
+    const trayIcon = nativeImage.createFromPath(trayIconPath)
+    trayIcon.setTemplateImage(true) // Enable macOS template mode
+    tray = new Tray(trayIcon)
+
+    const contextMenu = Menu.buildFromTemplate([
+      {
+        label: 'Show AlmondCoder',
+        click: () => {
+          const windows = BrowserWindow.getAllWindows()
+          if (windows.length > 0) {
+            windows[0].show()
+            windows[0].focus()
+          }
+        },
+      },
+      { type: 'separator' },
+      {
+        label: 'Quit',
+        click: () => {
+          app.quit()
+        },
+      },
+    ])
 
-  await makeAppSetup(MainWindow)
-})
+    tray.setToolTip('AlmondCoder')
+    tray.setContextMenu(contextMenu)
+
+    // Handle tray icon click to show/hide window
+    tray.on('click', () => {
+      const windows = BrowserWindow.getAllWindows()
+      if (windows.length > 0) {
+        if (windows[0].isVisible()) {
+          windows[0].hide()
+        } else {
+          windows[0].show()
+          windows[0].focus()
+        }
+      }
+    })
+
+    await makeAppSetup(MainWindow)
+  })
+}
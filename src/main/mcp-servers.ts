@@ -0,0 +1,67 @@
+import type { McpStdioServerConfig } from '@anthropic-ai/claude-agent-sdk'
+import type { McpServerEntry } from '../shared/types'
+
+// ============================================================================
+// MCP Server Resolution
+// ============================================================================
+// LOGIC: stdio MCP servers can be registered globally (AppSettings) or per
+// project (ProjectSettings). Every enabled server is passed to each run of
+// the project; a project server replaces a global one with the same name.
+
+/**
+ * Server key used in the SDK config. Claude sees the server's tools as
+ * `mcp__<key>__<tool>`, so keep it to characters that are valid there.
+ */
+export const getMcpServerKey = (name: string): string =>
+  name.trim().replace(/[^a-zA-Z0-9_-]/g, '_')
+
+/**
+ * Enabled servers for a run, project servers overriding global ones by key
+ */
+export const resolveMcpServers = (
+  globalServers: McpServerEntry[] = [],
+  projectServers: McpServerEntry[] = []
+): McpServerEntry[] => {
+  const byKey = new Map<string, McpServerEntry>()
+  for (const server of [...globalServers, ...projectServers]) {
+    if (!server.enabled || !server.command.trim()) continue
+    byKey.set(getMcpServerKey(server.name), server)
+  }
+  return Array.from(byKey.values())
+}
+
+/**
+ * Convert to the `mcpServers` option of the SDK `query()`
+ */
+export const toSdkMcpServers = (
+  servers: McpServerEntry[]
+): Record<string, McpStdioServerConfig> =>
+  Object.fromEntries(
+    servers.map(server => [
+      getMcpServerKey(server.name),
+      {
+        type: 'stdio',
+        command: server.command.trim(),
+        args: server.args,
+        env: server.env,
+      },
+    ])
+  )
+
+// ============================================================================
+// Agent Tool Lists
+// ============================================================================
+
+/**
+ * Whether an agent tool list permits this tool. MCP tools are listed per
+ * server (`mcp__docs`), which permits every tool that server exposes.
+ */
+export const agentAllowsTool = (
+  agentTools: string[],
+  toolName: string
+): boolean =>
+  agentTools.some(
+    tool =>
+      tool === toolName ||
+      (tool.startsWith('mcp__') && toolName.startsWith(`${tool}__`))
+  )
@@ -0,0 +1,125 @@
+import type { ToolPermissionRule } from '../shared/types'
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+/**
+ * Get the part of a tool's input that rule patterns are matched against
+ * (the command for Bash, the path for file tools, the URL for WebFetch)
+ */
+export const getToolRuleSubject = (
+  toolName: string,
+  toolInput: any
+): string => {
+  if (!toolInput) return ''
+
+  switch (toolName) {
+    case 'Bash':
+      return toolInput.command || ''
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return toolInput.file_path || ''
+    case 'NotebookEdit':
+      return toolInput.notebook_path || ''
+    case 'Glob':
+    case 'Grep':
+      return toolInput.pattern || ''
+    case 'WebFetch':
+      return toolInput.url || ''
+    case 'WebSearch':
+      return toolInput.query || ''
+    default:
+      return ''
+  }
+}
+
+// Shell operators that chain or nest commands: &&, ||, ;, |, &, newlines,
+// $( ), <( ), >( ) and backticks
+const SHELL_OPERATOR_PATTERN = /&&|\|\||[;|&\n`()]|\$\(|[<>]\(/
+
+/**
+ * Split a Bash command into the commands it runs, so `pnpm test && curl x |
+ * sh` is checked as `pnpm test`, `curl x` and `sh`. Quotes aren't parsed, so
+ * an operator inside quotes also splits; that only makes allow rules stricter.
+ */
+export const splitShellCommand = (command: string): string[] =>
+  command
+    .split(new RegExp(SHELL_OPERATOR_PATTERN.source, 'g'))
+    .map(segment => segment.trim())
+    .filter(Boolean)
+
+/**
+ * Convert a rule pattern to a RegExp. `*` matches any run of characters,
+ * everything else is literal (e.g. `pnpm test*`, `*git push*`). For Bash the
+ * wildcard stops at shell operators, so `pnpm test*` can't cover
+ * `pnpm test; rm -rf ~`.
+ */
+const patternToRegExp = (pattern: string, toolName: string): RegExp => {
+  const wildcard = toolName === 'Bash' ? '[^;|&\\n`()]*' : '.*'
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(wildcard)
+  return new RegExp(`^${escaped}$`, 's')
+}
+
+const matchesSubject = (rule: ToolPermissionRule, subject: string) =>
+  !rule.pattern?.trim() ||
+  patternToRegExp(rule.pattern.trim(), rule.toolName).test(subject)
+
+/**
+ * Check whether a rule applies to this tool call. A rule without a pattern
+ * matches every call of its tool
+ */
+export const matchesPermissionRule = (
+  rule: ToolPermissionRule,
+  toolName: string,
+  toolInput: any
+): boolean =>
+  rule.toolName === toolName &&
+  matchesSubject(rule, getToolRuleSubject(toolName, toolInput))
+
+/**
+ * Find the rule that decides this tool call, if any.
+ * Deny rules win over allow rules so a broad allow (e.g. all Bash) can be
+ * narrowed by a specific deny (e.g. `*git push*`). A Bash command is denied
+ * if any command in it matches a deny rule, and allowed only if every
+ * command in it matches an allow rule (or the whole command matches one).
+ */
+export const evaluatePermissionRules = (
+  rules: ToolPermissionRule[],
+  toolName: string,
+  toolInput: any
+): ToolPermissionRule | undefined => {
+  const toolRules = rules.filter(rule => rule.toolName === toolName)
+  const subject = getToolRuleSubject(toolName, toolInput)
+  const segments = toolName === 'Bash' ? splitShellCommand(subject) : []
+  const subjects = [subject, ...segments]
+
+  const denyRule = toolRules.find(
+    rule =>
+      rule.behavior === 'deny' &&
+      subjects.some(part => matchesSubject(rule, part))
+  )
+  if (denyRule) return denyRule
+
+  const allowRules = toolRules.filter(rule => rule.behavior === 'allow')
+  const wholeMatch = allowRules.find(rule => matchesSubject(rule, subject))
+  if (wholeMatch || segments.length < 2) return wholeMatch
+
+  const segmentMatches = segments.map(segment =>
+    allowRules.find(rule => matchesSubject(rule, segment))
+  )
+  return segmentMatches.every(Boolean) ? segmentMatches[0] : undefined
+}
+
+/**
+ * Describe a rule for logs and denial messages
+ */
+export const describePermissionRule = (rule: ToolPermissionRule): string =>
+  rule.pattern?.trim()
+    ? `${rule.behavior} ${rule.toolName} matching "${rule.pattern.trim()}"`
+    : `${rule.behavior} all ${rule.toolName}`
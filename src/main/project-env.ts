@@ -0,0 +1,240 @@
+import type { BrowserWindow } from 'electron'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { ProjectSettings } from '../shared/types'
+
+// ============================================================================
+// Project Environment
+// ============================================================================
+// LOGIC: Agent runs get the app's environment plus the project's own variables
+// (test database URLs, feature flags, ...):
+// - .env in the conversation's worktree, if enabled in the project settings
+// - Variables from the project settings, which override .env. Secret values
+//   are read from the OS keychain (credential-manager)
+// Secret values, and .env values whose name looks like a credential, are
+// masked in everything sent to the renderer, so they never reach the
+// conversation view or the conversation log.
+
+const SECRET_NAME_PATTERN =
+  /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY|CREDENTIAL/i
+const SECRET_MASK = '••••••'
+const MIN_MASKED_LENGTH = 4 // Masking shorter values would hide unrelated text
+
+export interface ProjectEnv {
+  env: Record<string, string>
+  secretValues: string[] // Values to mask in output sent to the renderer
+}
+
+/**
+ * Parse a .env file: KEY=value lines with optional `export`, quotes and
+ * comments. Double-quoted values support \n escapes.
+ */
+export function parseDotEnv(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=(.*)$/)
+    if (!match) continue
+
+    const [, name, rawValue] = match
+    const value = rawValue.trim()
+    const quote = value[0]
+
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+      const quoted = value.slice(1, value.indexOf(quote, 1))
+      env[name] = quote === '"' ? quoted.replace(/\\n/g, '\n') : quoted
+    } else {
+      env[name] = value.replace(/\s+#.*$/, '')
+    }
+  }
+
+  return env
+}
+
+/**
+ * The project's variables for a run in `workingDirectory`. A secret without a
+ * stored value is skipped with a warning.
+ */
+export async function resolveProjectEnv(
+  projectPath: string,
+  settings: ProjectSettings | undefined,
+  workingDirectory: string
+): Promise<ProjectEnv> {
+  const env: Record<string, string> = {}
+  const secretValues: string[] = []
+
+  const dotEnvPath = join(workingDirectory, '.env')
+  if (settings?.loadDotEnv && existsSync(dotEnvPath)) {
+    try {
+      const dotEnv = parseDotEnv(readFileSync(dotEnvPath, 'utf8'))
+      for (const [name, value] of Object.entries(dotEnv)) {
+        env[name] = value
+        if (SECRET_NAME_PATTERN.test(name)) secretValues.push(value)
+      }
+    } catch (error: any) {
+      console.warn(`⚠️  [Env] Failed to read ${dotEnvPath}: ${error.message}`)
+    }
+  }
+
+  const variables = (settings?.envVariables || []).filter(
+    variable => variable.enabled && variable.name
+  )
+  // keytar is a native module, only loaded when a secret is needed
+  const credentialManager = variables.some(variable => variable.isSecret)
+    ? await import('./credential-manager')
+    : undefined
+
+  for (const variable of variables) {
+    const value = variable.isSecret
+      ? await credentialManager?.getProjectSecret(projectPath, variable.name)
+      : variable.value
+    if (value === null || value === undefined) {
+      console.warn(`⚠️  [Env] No value stored for secret ${variable.name}`)
+      continue
+    }
+    env[variable.name] = value
+    if (variable.isSecret) secretValues.push(value)
+  }
+
+  return {
+    env,
+    secretValues: secretValues.filter(
+      value => value.length >= MIN_MASKED_LENGTH
+    ),
+  }
+}
+
+/**
+ * Replace secret values in text, including their JSON-escaped form (output
+ * is mostly serialized SDK messages)
+ */
+export function maskSecrets(text: string, secretValues: string[]): string {
+  let masked = text
+  for (const secret of [...secretValues].sort((a, b) => b.length - a.length)) {
+    masked = masked
+      .split(secret)
+      .join(SECRET_MASK)
+      .split(JSON.stringify(secret).slice(1, -1))
+      .join(SECRET_MASK)
+  }
+  return masked
+}
+
+/**
+ * Mask secret values in every string of a JSON-like value
+ */
+export const maskValue = (value: unknown, secretValues: string[]): unknown => {
+  if (typeof value === 'string') return maskSecrets(value, secretValues)
+  if (Array.isArray(value)) {
+    return value.map(item => maskValue(item, secretValues))
+  }
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        maskValue(item, secretValues),
+      ])
+    )
+  }
+  return value
+}
+
+// Each secret (or JSON-escaped secret) in `text`, in the order they appear
+const findSecrets = (text: string, secretValues: string[]): string[] => {
+  const forms = secretValues
+    .flatMap(secret => [secret, JSON.stringify(secret).slice(1, -1)])
+    .sort((a, b) => b.length - a.length)
+  const found: string[] = []
+  let index = 0
+  while (index < text.length) {
+    const form = forms.find(candidate => text.startsWith(candidate, index))
+    if (form) found.push(form)
+    index += form ? form.length : 1
+  }
+  return found
+}
+
+/**
+ * Undo masking in a tool input the user edited in the renderer, which only
+ * sees masked values. Unchanged values come from the original input, and a
+ * mask left in an edited string gets back the secret it stood for. Throws if
+ * the masks in a string no longer line up with its secrets (e.g. one was
+ * copied), so a mask never reaches the tool.
+ */
+export const restoreMaskedInput = (
+  original: unknown,
+  edited: unknown,
+  secretValues: string[]
+): unknown => {
+  if (secretValues.length === 0) return edited
+  const maskedOriginal = maskValue(original, secretValues)
+  if (JSON.stringify(maskedOriginal) === JSON.stringify(edited)) return original
+
+  if (typeof edited === 'string') {
+    const parts = edited.split(SECRET_MASK)
+    if (parts.length === 1) return edited
+    const secrets =
+      typeof original === 'string' ? findSecrets(original, secretValues) : []
+    if (parts.length - 1 !== secrets.length) {
+      throw new Error(
+        'Edited input has masked secrets that no longer match the original'
+      )
+    }
+    return parts
+      .slice(1)
+      .reduce(
+        (restored, part, index) => restored + secrets[index] + part,
+        parts[0]
+      )
+  }
+  if (Array.isArray(edited)) {
+    return edited.map((item, index) =>
+      restoreMaskedInput(
+        Array.isArray(original) ? original[index] : undefined,
+        item,
+        secretValues
+      )
+    )
+  }
+  if (edited && typeof edited === 'object') {
+    return Object.fromEntries(
+      Object.entries(edited).map(([key, item]) => [
+        key,
+        restoreMaskedInput((original as any)?.[key], item, secretValues),
+      ])
+    )
+  }
+  return edited
+}
+
+/**
+ * Replace secret values with `*` in an "Always allow" Bash pattern, so the
+ * rule matches the command without storing the secret in project settings
+ */
+export const wildcardSecrets = (pattern: string, secretValues: string[]) =>
+  maskSecrets(pattern, secretValues).split(SECRET_MASK).join('*')
+
+/**
+ * Wrap the renderer's webContents so every message a run sends has the
+ * secret values masked
+ */
+export function maskSender(
+  sender: BrowserWindow['webContents'],
+  secretValues: string[]
+): BrowserWindow['webContents'] {
+  if (secretValues.length === 0) return sender
+
+  return new Proxy(sender, {
+    get(target, property) {
+      if (property === 'send') {
+        return (channel: string, ...args: unknown[]) =>
+          target.send(channel, ...args.map(arg => maskValue(arg, secretValues)))
+      }
+      const value = Reflect.get(target, property, target)
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+  })
+}
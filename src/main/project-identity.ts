@@ -0,0 +1,284 @@
+import { createHash, randomUUID } from 'node:crypto'
+import { execFileSync } from 'node:child_process'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { basename, join, resolve } from 'node:path'
+import type { ProjectRegistryEntry } from '../shared/types'
+
+// ============================================================================
+// Project Identity
+// ============================================================================
+// LOGIC: Project data (prompts, conversations, settings, worktrees) used to
+// live in ~/.almondcoder/<basename(projectPath)>, so two checkouts named `api`
+// shared one folder. Each project now has a stable ID, a hash of its real path
+// and its repository's root commit, and its data lives in
+// ~/.almondcoder/<name>-<id>. The ID is computed once and recorded against the
+// path in ~/.almondcoder/projects.json, so it doesn't change when the repo gets
+// its first commit, and relinking a moved project only changes the recorded
+// path.
+// Legacy folders are migrated the first time a project is opened: the prompts
+// and conversations whose projectPath matches are moved over. Worktrees stay
+// where they are because their Claude sessions are tied to their path.
+
+const getAppDataPath = () => join(homedir(), '.almondcoder')
+
+const getRegistryPath = () => join(getAppDataPath(), 'projects.json')
+
+// projectPath → storage folder name, for the paths resolved this session
+const folderNameCache = new Map<string, string>()
+
+const loadRegistry = (): ProjectRegistryEntry[] => {
+  try {
+    if (existsSync(getRegistryPath())) {
+      return JSON.parse(readFileSync(getRegistryPath(), 'utf8'))
+    }
+  } catch (error) {
+    console.error('❌ [Projects] Error loading project registry:', error)
+  }
+  return []
+}
+
+const saveRegistry = (entries: ProjectRegistryEntry[]) => {
+  mkdirSync(getAppDataPath(), { recursive: true })
+  writeFileSync(getRegistryPath(), JSON.stringify(entries, null, 2))
+}
+
+/**
+ * Resolve symlinks so the same checkout always gets the same ID; paths that
+ * no longer exist (moved projects) are only normalized
+ */
+const toRealPath = (path: string): string => {
+  try {
+    return realpathSync(path)
+  } catch {
+    return resolve(path)
+  }
+}
+
+/**
+ * First commit of the repository, or undefined for repos without commits and
+ * paths that aren't repos
+ */
+export const getRootCommit = (projectPath: string): string | undefined => {
+  try {
+    const output = execFileSync(
+      'git',
+      ['rev-list', '--max-parents=0', 'HEAD'],
+      {
+        cwd: projectPath,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+        timeout: 10000,
+      }
+    )
+    // Merged histories can have several roots; use the same one every time
+    return output.split('\n').filter(Boolean).sort()[0]
+  } catch {
+    return undefined
+  }
+}
+
+const computeProjectId = (realPath: string, rootCommit?: string) =>
+  createHash('sha256')
+    .update(`${realPath}\n${rootCommit || ''}`)
+    .digest('hex')
+    .substring(0, 12)
+
+const readJson = (filePath: string): any => {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Move this project's data out of its legacy ~/.almondcoder/<basename>
+ * folder. Prompts are matched on their own projectPath, since the folder may
+ * be shared with a same-named checkout; the project-level files (settings,
+ * audit log) move only if the folder's project-info.json names this project.
+ */
+const migrateLegacyProjectFolder = (
+  projectPath: string,
+  realPath: string,
+  folderPath: string
+) => {
+  const legacyPath = join(getAppDataPath(), basename(projectPath))
+  if (legacyPath === folderPath || !existsSync(legacyPath)) return
+
+  const isThisProject = (path?: string) =>
+    !!path && (path === projectPath || toRealPath(path) === realPath)
+  const ownsFolder = isThisProject(
+    readJson(join(legacyPath, 'project-info.json'))?.projectPath
+  )
+
+  const legacyPromptsDir = join(legacyPath, 'prompts')
+  const legacyConversationsDir = join(legacyPromptsDir, 'conversations')
+  const conversationsDir = join(folderPath, 'prompts', 'conversations')
+  mkdirSync(conversationsDir, { recursive: true })
+
+  let movedPrompts = 0
+  if (existsSync(legacyPromptsDir)) {
+    for (const file of readdirSync(legacyPromptsDir)) {
+      if (!file.endsWith('.json')) continue
+      const prompt = readJson(join(legacyPromptsDir, file))
+      if (!prompt || !isThisProject(prompt.projectPath)) continue
+
+      const legacyLogPath = join(legacyConversationsDir, file)
+      if (existsSync(legacyLogPath)) {
+        renameSync(legacyLogPath, join(conversationsDir, file))
+      }
+      // Replay logs recorded from this project's own conversations move too
+      if (prompt.replayLogPath?.startsWith(legacyConversationsDir)) {
+        prompt.replayLogPath = join(
+          conversationsDir,
+          prompt.replayLogPath.substring(legacyConversationsDir.length)
+        )
+      }
+      writeFileSync(
+        join(folderPath, 'prompts', file),
+        JSON.stringify(prompt, null, 2)
+      )
+      rmSync(join(legacyPromptsDir, file))
+      movedPrompts++
+    }
+  }
+
+  // Project-level files; directories left in the legacy folder are worktrees
+  if (ownsFolder) {
+    for (const entry of readdirSync(legacyPath)) {
+      const entryPath = join(legacyPath, entry)
+      if (statSync(entryPath).isFile()) {
+        renameSync(entryPath, join(folderPath, entry))
+      }
+    }
+  }
+
+  if (movedPrompts > 0 || ownsFolder) {
+    console.log(
+      `📦 [Projects] Migrated ${movedPrompts} conversations${ownsFolder ? ' and project settings' : ''} from ${legacyPath} to ${folderPath}`
+    )
+  }
+}
+
+/**
+ * Name of the project's folder in ~/.almondcoder (and in a custom worktree
+ * root). Registers the project, migrating its legacy folder, the first time
+ * it is seen.
+ */
+export const getProjectStorageName = (projectPath: string): string => {
+  const cached = folderNameCache.get(projectPath)
+  if (cached) return cached
+
+  const realPath = toRealPath(projectPath)
+  const registry = loadRegistry()
+  let entry = registry.find(e => e.projectPath === realPath)
+
+  if (!entry) {
+    const rootCommit = getRootCommit(realPath)
+    let id = computeProjectId(realPath, rootCommit)
+    // A project relinked after being copied keeps the ID its old path hashes
+    // to, so opening the old copy again must not reuse that ID's folder
+    while (
+      registry.some(
+        e => e.id === id || e.folderName === `${basename(realPath)}-${id}`
+      )
+    ) {
+      id = computeProjectId(realPath, `${rootCommit || ''}\n${randomUUID()}`)
+    }
+    entry = {
+      id,
+      folderName: `${basename(realPath)}-${id}`,
+      projectPath: realPath,
+      rootCommit,
+      createdAt: new Date().toISOString(),
+    }
+
+    const folderPath = join(getAppDataPath(), entry.folderName)
+    try {
+      migrateLegacyProjectFolder(projectPath, realPath, folderPath)
+    } catch (error) {
+      console.error('❌ [Projects] Legacy folder migration failed:', error)
+    }
+
+    saveRegistry([...registry, entry])
+    console.log(`🆔 [Projects] Registered ${realPath} as ${entry.folderName}`)
+  }
+
+  folderNameCache.set(projectPath, entry.folderName)
+  return entry.folderName
+}
+
+// Anything in a project folder beyond what opening the project creates:
+// empty prompts and conversations folders and a project-info.json without
+// settings
+const getOwnProjectData = (folder: string): string[] =>
+  existsSync(folder)
+    ? readdirSync(folder).filter(name => {
+        const path = join(folder, name)
+        if (name === 'prompts' || name === 'conversations') {
+          return readdirSync(path).length > 0
+        }
+        if (name === 'project-info.json') return !!readJson(path)?.settings
+        return true
+      })
+    : []
+
+/**
+ * Point a moved project's data at its new location. The new path must be the
+ * same repository (same root commit) and must not already have data of its
+ * own (conversations, settings, an audit log).
+ */
+export const relinkProject = (oldPath: string, newPath: string) => {
+  // Registers (and migrates) projects that were never opened since upgrading
+  const folderName = getProjectStorageName(oldPath)
+  const newRealPath = toRealPath(newPath)
+
+  const newRootCommit = getRootCommit(newRealPath)
+  if (!newRootCommit) {
+    throw new Error(`${newPath} is not a git repository with commits`)
+  }
+
+  let registry = loadRegistry()
+  const entry = registry.find(e => e.folderName === folderName)
+  if (!entry) throw new Error(`No project data found for ${oldPath}`)
+  if (entry.rootCommit && entry.rootCommit !== newRootCommit) {
+    throw new Error(
+      `${newPath} is a different repository (its first commit doesn't match)`
+    )
+  }
+
+  // The new location may have been opened already and got its own, empty folder
+  const existing = registry.find(e => e.projectPath === newRealPath)
+  if (existing && existing !== entry) {
+    const existingFolder = join(getAppDataPath(), existing.folderName)
+    const ownData = getOwnProjectData(existingFolder)
+    if (ownData.length > 0) {
+      throw new Error(
+        `${newPath} already has project data of its own (${ownData.join(', ')}) and can't be relinked`
+      )
+    }
+    rmSync(existingFolder, { recursive: true, force: true })
+    registry = registry.filter(e => e !== existing)
+  }
+
+  entry.projectPath = newRealPath
+  entry.rootCommit = newRootCommit
+  saveRegistry(registry)
+  folderNameCache.clear()
+
+  console.log(
+    `🔗 [Projects] Relinked ${entry.folderName} from ${oldPath} to ${newRealPath}`
+  )
+  return join(getAppDataPath(), folderName)
+}
@@ -0,0 +1,317 @@
+import { ipcMain, type BrowserWindow } from 'electron'
+import { readFileSync } from 'node:fs'
+import type { AgentMessage } from '../shared/types'
+import {
+  clearConversationState,
+  getAutoAcceptState,
+  registerAbortController,
+  releaseAbortController,
+  updateConversationState,
+  type ClaudeSDKOptions,
+} from './claude-sdk'
+
+// ============================================================================
+// Replay Backend
+// ============================================================================
+// LOGIC: Plays a recorded conversation log (the entries written by
+// 'append-to-conversation-log') back through 'command-output', so the message
+// handler and conversation view can be demoed and tested without a provider.
+// - Each run plays one recorded turn: the 'ai' entries between two 'user'
+//   entries. The turn to play next is carried in the session ID, so resuming
+//   the conversation continues with the following turn
+// - Messages keep the recorded gaps between entries, capped so long tool
+//   calls don't stall the replay
+// - Tool calls outside allowedTools ask for permission like a live run,
+//   unless auto-accept is on
+
+const MAX_REPLAY_DELAY_MS = 2000
+const REPLAY_SESSION_PREFIX = 'replay-turn-'
+
+interface RecordedLogEntry {
+  from: 'user' | 'ai' | 'system'
+  timestamp: string
+  data: { content: any }
+}
+
+interface ReplayTurn {
+  promptedAt: number // Time of the user entry that started the turn
+  entries: RecordedLogEntry[]
+}
+
+const replaySessionId = (turn: number) => `${REPLAY_SESSION_PREFIX}${turn}`
+
+const turnFromSessionId = (sessionId?: string): number => {
+  const turn = Number(sessionId?.replace(REPLAY_SESSION_PREFIX, ''))
+  return sessionId?.startsWith(REPLAY_SESSION_PREFIX) && turn >= 0 ? turn : 0
+}
+
+/**
+ * Read a recorded log and split its 'ai' entries into turns
+ */
+export function loadReplayTurns(logPath: string): ReplayTurn[] {
+  const entries: RecordedLogEntry[] = JSON.parse(readFileSync(logPath, 'utf8'))
+  if (!Array.isArray(entries)) {
+    throw new Error(`${logPath} is not a conversation log`)
+  }
+
+  const turns: ReplayTurn[] = []
+  for (const entry of entries) {
+    if (entry.from === 'user') {
+      turns.push({
+        promptedAt: new Date(entry.timestamp).getTime(),
+        entries: [],
+      })
+    } else if (entry.from === 'ai' && entry.data?.content && turns.length > 0) {
+      turns[turns.length - 1].entries.push(entry)
+    }
+  }
+  return turns
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new Error('Replay aborted'))
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(new Error('Replay aborted'))
+      },
+      { once: true }
+    )
+  })
+
+/**
+ * Ask the user for permission the same way a live Claude run does, and wait
+ * for the accept/cancel IPC from the conversation view
+ */
+const requestReplayPermission = (
+  options: ClaudeSDKOptions,
+  sender: BrowserWindow['webContents'],
+  tool: { name: string; input: any },
+  signal: AbortSignal
+): Promise<{ accepted: boolean; newPrompt?: string }> => {
+  const { promptId, conversationTitle, prompt } = options
+  const requestId = `${promptId || 'unknown'}-${Date.now()}-${Math.random()}`
+
+  console.log(`⏸️  [Replay] Requesting permission for "${tool.name}"`)
+  sender.send('tool-permission-pending', {
+    requestId,
+    promptId: promptId || 'unknown',
+    conversationTitle: conversationTitle || prompt.substring(0, 50),
+    toolName: tool.name,
+    toolInput: tool.input,
+    timestamp: Date.now(),
+  })
+  if (promptId) {
+    updateConversationState(promptId, {
+      status: 'waiting_permission',
+      pendingPermission: {
+        requestId,
+        toolName: tool.name,
+        toolInput: tool.input,
+      },
+    })
+  }
+
+  return new Promise((resolve, reject) => {
+    const respond = (response: { accepted: boolean; newPrompt?: string }) => {
+      cleanup()
+      if (promptId) {
+        updateConversationState(promptId, {
+          status: 'running',
+          pendingPermission: undefined,
+        })
+      }
+      resolve(response)
+    }
+    const acceptListener = (_event: any, data: { requestId: string }) => {
+      if (data.requestId === requestId) respond({ accepted: true })
+    }
+    const cancelListener = (
+      _event: any,
+      data: { requestId: string; newPrompt: string }
+    ) => {
+      if (data.requestId === requestId) {
+        respond({ accepted: false, newPrompt: data.newPrompt })
+      }
+    }
+    const abortListener = () => {
+      cleanup()
+      reject(new Error('Permission request aborted'))
+    }
+    const cleanup = () => {
+      ipcMain.removeListener('tool-permission-accept', acceptListener)
+      ipcMain.removeListener('tool-permission-cancel', cancelListener)
+      signal.removeEventListener('abort', abortListener)
+    }
+
+    ipcMain.on('tool-permission-accept', acceptListener)
+    ipcMain.on('tool-permission-cancel', cancelListener)
+    signal.addEventListener('abort', abortListener)
+  })
+}
+
+export async function runReplay(
+  options: ClaudeSDKOptions,
+  sender: BrowserWindow['webContents']
+): Promise<void> {
+  const {
+    replayLogPath,
+    resume,
+    promptId,
+    allowedTools = ['Read', 'Glob', 'Grep'],
+    autoAcceptEnabled = false,
+    nonInteractive = false,
+    abortController = new AbortController(),
+  } = options
+  const signal = abortController.signal
+
+  const turn = turnFromSessionId(resume)
+  const sessionId = replaySessionId(turn + 1) // Resuming plays the next turn
+  const startedAt = Date.now()
+
+  const send = (message: AgentMessage) => {
+    sender.send('command-output', {
+      type: 'stdout',
+      data: `${JSON.stringify({ ...message, session_id: sessionId })}\n`,
+      rawData: false,
+      promptId: promptId,
+    })
+  }
+
+  if (promptId) {
+    registerAbortController(promptId, abortController)
+    updateConversationState(promptId, {
+      status: 'running',
+      sessionId: resume,
+      error: undefined,
+      errorCode: undefined,
+      errorHint: undefined,
+      queuePosition: undefined,
+    })
+  }
+
+  try {
+    if (!replayLogPath) {
+      throw new Error('No conversation log selected to replay')
+    }
+
+    const turns = loadReplayTurns(replayLogPath)
+    const entries = turns[turn]?.entries || []
+    console.log(
+      `▶️  [Replay] Playing turn ${turn + 1} of ${turns.length} (${entries.length} messages) from ${replayLogPath}`
+    )
+
+    let resultSent = false
+    let previousTime = turns[turn]?.promptedAt ?? startedAt
+
+    for (const entry of entries) {
+      const time = new Date(entry.timestamp).getTime()
+      const delay = Math.min(
+        Math.max(time - previousTime, 0),
+        MAX_REPLAY_DELAY_MS
+      )
+      previousTime = time
+      await sleep(Number.isNaN(delay) ? 0 : delay, signal)
+
+      const message: AgentMessage = entry.data.content
+      send(message)
+      if (message.type === 'result') resultSent = true
+      if (message.type !== 'assistant') continue
+
+      // Tool calls a live run would have asked about
+      for (const block of message.message.content) {
+        if (block.type !== 'tool_use' || allowedTools.includes(block.name)) {
+          continue
+        }
+        if (getAutoAcceptState(promptId, autoAcceptEnabled)) continue
+
+        const response = nonInteractive
+          ? { accepted: false, newPrompt: undefined }
+          : await requestReplayPermission(options, sender, block, signal)
+        if (response.accepted) continue
+
+        // The recording went on with the tool call, so the replay ends here
+        send({
+          type: 'user',
+          session_id: sessionId,
+          message: {
+            content: [
+              {
+                type: 'tool_result',
+                tool_use_id: block.id,
+                content: response.newPrompt
+                  ? `User provided alternative instruction: "${response.newPrompt}"`
+                  : `${block.name} was not approved`,
+                is_error: true,
+              },
+            ],
+          },
+        })
+        send({
+          type: 'result',
+          subtype: 'success',
+          session_id: sessionId,
+          duration_ms: Date.now() - startedAt,
+        })
+        resultSent = true
+        break
+      }
+      if (resultSent) break
+    }
+
+    if (entries.length === 0) {
+      send({
+        type: 'assistant',
+        session_id: sessionId,
+        message: {
+          id: `replay-end-${promptId}-${turn}`,
+          content: [
+            { type: 'text', text: 'End of the recorded conversation.' },
+          ],
+        },
+      })
+    }
+    if (!resultSent) {
+      send({
+        type: 'result',
+        subtype: 'success',
+        session_id: sessionId,
+        duration_ms: Date.now() - startedAt,
+      })
+    }
+
+    console.log(`✅ [Replay] Turn ${turn + 1} finished`)
+    if (promptId) {
+      updateConversationState(promptId, { status: 'completed' })
+      setTimeout(() => clearConversationState(promptId), 1000)
+    }
+  } catch (error) {
+    console.error('❌ Error during replay:', error)
+
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    sender.send('command-output', {
+      type: 'stderr',
+      data: `${JSON.stringify({ type: 'error', error: errorMessage })}\n`,
+      rawData: false,
+      promptId: promptId,
+    })
+
+    // A cancelled replay ends here too; don't leave it 'running'
+    if (promptId && signal.aborted) {
+      updateConversationState(promptId, { status: 'aborted' })
+    } else if (promptId) {
+      updateConversationState(promptId, {
+        status: 'error',
+        error: errorMessage,
+      })
+      setTimeout(() => clearConversationState(promptId), 3000)
+    }
+
+    throw error
+  } finally {
+    if (promptId) releaseAbortController(promptId)
+  }
+}
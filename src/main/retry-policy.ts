@@ -0,0 +1,69 @@
+import type { RetryPolicy } from '../shared/types'
+
+// ============================================================================
+// Transient Failure Retries
+// ============================================================================
+// LOGIC: Overloaded, rate-limit and network errors usually pass on their own,
+// so instead of failing the conversation the run is resumed from its session
+// after an exponential backoff (initial delay, doubled per retry, capped).
+// Anything else still fails the run right away.
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 3,
+  initialDelaySeconds: 5,
+  maxDelaySeconds: 60,
+}
+
+export type TransientErrorKind = 'overloaded' | 'rate_limit' | 'network'
+
+export const TRANSIENT_ERROR_LABELS: Record<TransientErrorKind, string> = {
+  overloaded: 'Provider overloaded',
+  rate_limit: 'Rate limited',
+  network: 'Network error',
+}
+
+// [kind, error text pattern, HTTP status codes]. Bare numbers are only
+// matched in the error message itself, since logs are full of line numbers
+// and PIDs
+const TRANSIENT_ERROR_PATTERNS: Array<[TransientErrorKind, RegExp, RegExp]> = [
+  ['overloaded', /overloaded/i, /\b529\b/],
+  ['rate_limit', /rate.?limit|too many requests/i, /\b429\b/],
+  [
+    'network',
+    /ECONNRESET|ETIMEDOUT|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network error|service unavailable|bad gateway|gateway timeout/i,
+    /\b50[234]\b/,
+  ],
+]
+
+// Sent when a retry resumes a session that already has the user's prompt
+export const RETRY_CONTINUE_PROMPT =
+  'The previous attempt was interrupted by a temporary provider error. Continue where you left off.'
+
+/**
+ * Which kind of transient failure an error (message or API error result, plus
+ * optionally the CLI's stderr as `log`) describes, or null if it shouldn't be
+ * retried
+ */
+export function classifyTransientError(
+  text: string,
+  log = ''
+): TransientErrorKind | null {
+  const match = TRANSIENT_ERROR_PATTERNS.find(
+    ([, pattern, statusCodes]) =>
+      pattern.test(text) || statusCodes.test(text) || pattern.test(log)
+  )
+  return match ? match[0] : null
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based), with up to 20% jitter so
+ * conversations that failed together don't all retry at the same moment
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number): number {
+  const delaySeconds = Math.min(
+    policy.initialDelaySeconds * 2 ** (attempt - 1),
+    policy.maxDelaySeconds
+  )
+  return Math.round(delaySeconds * 1000 * (1 + Math.random() * 0.2))
+}
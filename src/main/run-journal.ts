@@ -0,0 +1,115 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { homedir } from 'node:os'
+
+// ============================================================================
+// Run Journal
+// ============================================================================
+// LOGIC: conversationStateCache lives in memory, so if the app quits while a
+// conversation is running the prompt file stays 'busy' forever. Every state
+// change of a run is mirrored to ~/.almondcoder/run-journal.json; entries are
+// removed when the state is cleared after a normal finish. Whatever is left
+// on the next launch was interrupted and is reconciled in index.ts.
+
+export interface RunJournalEntry {
+  promptId: string
+  projectPath: string
+  status: string // Last ConversationState status
+  sessionId?: string // SDK session to resume from
+  pendingPermission?: {
+    requestId: string
+    toolName: string
+    toolInput: any
+  }
+  startedAt: number
+  updatedAt: number
+}
+
+const getJournalPath = () => {
+  const appDataPath = join(homedir(), '.almondcoder')
+  if (!existsSync(appDataPath)) {
+    mkdirSync(appDataPath, { recursive: true })
+  }
+  return join(appDataPath, 'run-journal.json')
+}
+
+const loadJournal = (): Record<string, RunJournalEntry> => {
+  try {
+    const filePath = getJournalPath()
+    if (existsSync(filePath)) {
+      return JSON.parse(readFileSync(filePath, 'utf8'))
+    }
+  } catch (error) {
+    console.error('Error loading run journal:', error)
+  }
+  return {}
+}
+
+const saveJournal = (journal: Record<string, RunJournalEntry>) => {
+  try {
+    writeFileSync(getJournalPath(), JSON.stringify(journal, null, 2))
+  } catch (error) {
+    console.error('Error saving run journal:', error)
+  }
+}
+
+/**
+ * Start journaling a run. Only registered runs are journaled, since the
+ * reconciler needs the project path to find the prompt file.
+ */
+export function registerJournalRun(promptId: string, projectPath: string) {
+  const journal = loadJournal()
+  journal[promptId] = {
+    ...journal[promptId],
+    promptId,
+    projectPath,
+    status: 'queued',
+    startedAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+  saveJournal(journal)
+}
+
+/**
+ * Mirror a conversation state change into the journal entry, if any
+ */
+export function recordJournalState(state: {
+  promptId: string
+  status: string
+  sessionId?: string
+  pendingPermission?: RunJournalEntry['pendingPermission']
+}) {
+  const journal = loadJournal()
+  const entry = journal[state.promptId]
+  if (!entry) return
+
+  journal[state.promptId] = {
+    ...entry,
+    status: state.status,
+    sessionId: state.sessionId || entry.sessionId,
+    pendingPermission: state.pendingPermission,
+    updatedAt: Date.now(),
+  }
+  saveJournal(journal)
+}
+
+/**
+ * Forget a run once its state has been cleared
+ */
+export function removeJournalRun(promptId: string) {
+  const journal = loadJournal()
+  if (!journal[promptId]) return
+
+  delete journal[promptId]
+  saveJournal(journal)
+}
+
+/**
+ * Take every entry left over from the previous app session and empty the
+ * journal. Called once at startup, before any run can start.
+ */
+export function takeJournalEntries(): RunJournalEntry[] {
+  const entries = Object.values(loadJournal())
+  saveJournal({})
+  return entries
+}
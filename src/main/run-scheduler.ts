@@ -0,0 +1,130 @@
+import { clearConversationState, updateConversationState } from './claude-sdk'
+
+// ============================================================================
+// Run Scheduler
+// ============================================================================
+// LOGIC: Every conversation run spawns its own SDK/CLI process. To keep the
+// machine and the provider rate limits under control, at most
+// `maxConcurrentRuns` run at once. Further runs wait in a FIFO queue with
+// status 'queued'; the user can reorder or cancel them before they start.
+
+export const DEFAULT_MAX_CONCURRENT_RUNS = 3
+
+interface QueuedRun {
+  promptId: string
+  enqueuedAt: number
+  start: () => void
+  cancel: () => void
+}
+
+const activeRuns = new Set<string>()
+const runQueue: QueuedRun[] = []
+let maxConcurrentRuns = DEFAULT_MAX_CONCURRENT_RUNS
+
+/**
+ * Broadcast the current queue position of every queued run (1-based)
+ */
+function broadcastQueuePositions() {
+  runQueue.forEach((run, index) => {
+    updateConversationState(run.promptId, {
+      status: 'queued',
+      queuePosition: index + 1,
+    })
+  })
+}
+
+/**
+ * Start queued runs while there are free slots
+ */
+function drainQueue() {
+  let started = false
+  while (activeRuns.size < maxConcurrentRuns && runQueue.length > 0) {
+    const next = runQueue.shift()
+    if (!next) break
+    console.log(
+      `▶️  [Scheduler] Starting queued run ${next.promptId} (waited ${Math.round((Date.now() - next.enqueuedAt) / 1000)}s)`
+    )
+    next.start()
+    started = true
+  }
+  if (started) broadcastQueuePositions()
+}
+
+/**
+ * Run `execute` now if a slot is free, otherwise queue it.
+ * Resolves true once the run has finished, or false if it was cancelled
+ * while still queued. Errors from the run itself are passed through.
+ */
+export function scheduleRun(
+  promptId: string,
+  execute: () => Promise<void>
+): Promise<boolean> {
+  return new Promise<boolean>((resolve, reject) => {
+    const start = () => {
+      activeRuns.add(promptId)
+      execute()
+        .then(() => resolve(true))
+        .catch(reject)
+        .finally(() => {
+          activeRuns.delete(promptId)
+          drainQueue()
+        })
+    }
+
+    if (activeRuns.size < maxConcurrentRuns && runQueue.length === 0) {
+      start()
+      return
+    }
+
+    runQueue.push({
+      promptId,
+      enqueuedAt: Date.now(),
+      start,
+      cancel: () => resolve(false),
+    })
+    console.log(
+      `⏳ [Scheduler] Queued run ${promptId} (${activeRuns.size}/${maxConcurrentRuns} running, position ${runQueue.length})`
+    )
+    broadcastQueuePositions()
+  })
+}
+
+/**
+ * Remove a run from the queue before it starts
+ * Returns false if the run is not queued (e.g. already running)
+ */
+export function cancelQueuedRun(promptId: string): boolean {
+  const index = runQueue.findIndex(run => run.promptId === promptId)
+  if (index === -1) return false
+
+  const [run] = runQueue.splice(index, 1)
+  run.cancel()
+  clearConversationState(promptId)
+  broadcastQueuePositions()
+
+  console.log(`🚫 [Scheduler] Cancelled queued run ${promptId}`)
+  return true
+}
+
+/**
+ * Move a queued run to a new 0-based position in the queue
+ */
+export function moveQueuedRun(promptId: string, toIndex: number): boolean {
+  const index = runQueue.findIndex(run => run.promptId === promptId)
+  if (index === -1) return false
+
+  const [run] = runQueue.splice(index, 1)
+  const target = Math.max(0, Math.min(toIndex, runQueue.length))
+  runQueue.splice(target, 0, run)
+  broadcastQueuePositions()
+  return true
+}
+
+/**
+ * Change the concurrency limit; raising it starts queued runs immediately
+ */
+export function setMaxConcurrentRuns(limit: number) {
+  maxConcurrentRuns = Math.max(1, Math.floor(limit) || 1)
+  console.log(`⚙️  [Scheduler] Max concurrent runs: ${maxConcurrentRuns}`)
+  drainQueue()
+}
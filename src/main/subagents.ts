@@ -0,0 +1,57 @@
+import type { AgentDefinition } from '@anthropic-ai/claude-agent-sdk'
+import type { PromptAgent } from '../shared/types'
+import { agentAllowsTool } from './mcp-servers'
+
+// ============================================================================
+// Subagents
+// ============================================================================
+// LOGIC: Prompt agents marked as subagents are passed to every Claude run as
+// programmatic agents. The main agent delegates to them with the Task tool
+// (subagent_type is the agent's key) and each one runs with its own prompt,
+// tools and model. Their tool calls still go through canUseTool, which can't
+// tell them from the main agent's, so a main agent with a restricted tool list
+// restricts its subagents too. Subagents that would need a tool outside that
+// list are not offered (see canServeSubagent).
+
+/**
+ * Task `subagent_type` of an agent: its name in kebab-case
+ */
+export const getSubagentKey = (agent: PromptAgent): string =>
+  agent.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || `agent-${agent.id}`
+
+/**
+ * Whether a subagent can run under the main agent's tool list: the main agent
+ * may use Task, and every tool the subagent lists is on its list too
+ */
+const canServeSubagent = (agent: PromptAgent, parentTools: string[]) =>
+  parentTools.length === 0 ||
+  (agentAllowsTool(parentTools, 'Task') &&
+    agent.tools.length > 0 &&
+    agent.tools.every(tool => agentAllowsTool(parentTools, tool)))
+
+/**
+ * Convert the subagents among the prompt agents to the `agents` option of
+ * the SDK `query()`, leaving out those the running agent's tools can't serve
+ */
+export const toSdkAgents = (
+  agents: PromptAgent[],
+  parentTools: string[] = []
+): Record<string, AgentDefinition> =>
+  Object.fromEntries(
+    agents
+      .filter(agent => agent.isSubagent && agent.systemPrompt.trim())
+      .filter(agent => canServeSubagent(agent, parentTools))
+      .map(agent => [
+        getSubagentKey(agent),
+        {
+          // Claude picks a subagent by its description
+          description: agent.description?.trim() || agent.name,
+          prompt: agent.systemPrompt,
+          tools: agent.tools?.length ? agent.tools : undefined,
+          model: agent.subagentModel || 'inherit',
+        },
+      ])
+  )
@@ -0,0 +1,186 @@
+import { exec } from 'node:child_process'
+import type {
+  HookCallbackMatcher,
+  HookEvent,
+} from '@anthropic-ai/claude-agent-sdk'
+import type { ToolHook } from '../shared/types'
+
+// ============================================================================
+// Tool Hooks
+// ============================================================================
+// LOGIC: Project hooks are shell commands that run in the conversation's
+// worktree before or after matching tool calls. They are registered as SDK
+// PreToolUse/PostToolUse hooks:
+// - 'before' hooks with blockOnFailure deny the tool call when they fail,
+//   and the SDK passes the hook output to Claude as the denial reason
+// - 'after' hook output is returned as additional context for Claude
+// Every result is also reported to the renderer to show inline.
+
+const HOOK_TIMEOUT_MS = 60 * 1000
+const MAX_HOOK_OUTPUT_LENGTH = 4000
+
+export interface ToolHookResult {
+  hook: ToolHook
+  toolName: string
+  exitCode: number
+  output: string
+  blocked: boolean
+}
+
+const appliesTo = (hook: ToolHook, toolName: string) =>
+  hook.enabled &&
+  (hook.toolNames.length === 0 || hook.toolNames.includes(toolName))
+
+const truncateOutput = (output: string) =>
+  output.length > MAX_HOOK_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_HOOK_OUTPUT_LENGTH)}\n… (output truncated)`
+    : output
+
+/**
+ * Run a hook command with the project's environment, like the agent's own
+ * Bash calls. The tool call is passed as JSON on stdin and the tool name and
+ * file path (if any) as environment variables.
+ */
+const runHookCommand = (
+  hook: ToolHook,
+  cwd: string,
+  projectEnv: Record<string, string>,
+  payload: { toolName: string; toolInput: any; toolResponse?: unknown },
+  signal: AbortSignal
+): Promise<{ exitCode: number; output: string }> =>
+  new Promise(resolve => {
+    const child = exec(
+      hook.command,
+      {
+        cwd,
+        signal,
+        timeout: HOOK_TIMEOUT_MS,
+        maxBuffer: 1024 * 1024,
+        env: {
+          ...process.env,
+          ...projectEnv,
+          ALMOND_HOOK_EVENT: hook.event,
+          ALMOND_TOOL_NAME: payload.toolName,
+          ALMOND_FILE_PATH: payload.toolInput?.file_path || '',
+        },
+      },
+      (error, stdout, stderr) => {
+        const exitCode = error
+          ? typeof error.code === 'number'
+            ? error.code
+            : 1
+          : 0
+        resolve({
+          exitCode,
+          output: truncateOutput(`${stdout}${stderr}`.trim()),
+        })
+      }
+    )
+    child.stdin?.on('error', () => {}) // Hooks that don't read stdin may close it early
+    child.stdin?.end(JSON.stringify(payload))
+  })
+
+const describeHookResult = (result: ToolHookResult) =>
+  `Hook \`${result.hook.command}\` exited with ${result.exitCode}${result.output ? `:\n${result.output}` : ''}`
+
+/**
+ * Build the SDK `hooks` option for a run
+ */
+export const buildToolHooks = (
+  hooks: ToolHook[],
+  cwd: string,
+  projectEnv: Record<string, string>,
+  onResult: (result: ToolHookResult) => void
+): Partial<Record<HookEvent, HookCallbackMatcher[]>> => {
+  const beforeHooks = hooks.filter(hook => hook.event === 'before')
+  const afterHooks = hooks.filter(hook => hook.event === 'after')
+
+  return {
+    PreToolUse: [
+      {
+        hooks: [
+          async (input, _toolUseId, { signal }) => {
+            if (input.hook_event_name !== 'PreToolUse') return {}
+
+            for (const hook of beforeHooks) {
+              if (!appliesTo(hook, input.tool_name)) continue
+
+              const { exitCode, output } = await runHookCommand(
+                hook,
+                cwd,
+                projectEnv,
+                { toolName: input.tool_name, toolInput: input.tool_input },
+                signal
+              )
+              const result: ToolHookResult = {
+                hook,
+                toolName: input.tool_name,
+                exitCode,
+                output,
+                blocked: !!hook.blockOnFailure && exitCode !== 0,
+              }
+              onResult(result)
+
+              if (result.blocked) {
+                console.log(
+                  `🪝 [Hooks] Blocked ${input.tool_name}: ${hook.command} exited with ${exitCode}`
+                )
+                return {
+                  hookSpecificOutput: {
+                    hookEventName: 'PreToolUse',
+                    permissionDecision: 'deny',
+                    permissionDecisionReason: `Blocked by a project hook. ${describeHookResult(result)}`,
+                  },
+                }
+              }
+            }
+            return {}
+          },
+        ],
+      },
+    ],
+    PostToolUse: [
+      {
+        hooks: [
+          async (input, _toolUseId, { signal }) => {
+            if (input.hook_event_name !== 'PostToolUse') return {}
+
+            const results: ToolHookResult[] = []
+            for (const hook of afterHooks) {
+              if (!appliesTo(hook, input.tool_name)) continue
+
+              const { exitCode, output } = await runHookCommand(
+                hook,
+                cwd,
+                projectEnv,
+                {
+                  toolName: input.tool_name,
+                  toolInput: input.tool_input,
+                  toolResponse: input.tool_response,
+                },
+                signal
+              )
+              const result: ToolHookResult = {
+                hook,
+                toolName: input.tool_name,
+                exitCode,
+                output,
+                blocked: false,
+              }
+              onResult(result)
+              results.push(result)
+            }
+
+            if (results.length === 0) return {}
+            return {
+              hookSpecificOutput: {
+                hookEventName: 'PostToolUse',
+                additionalContext: results.map(describeHookResult).join('\n\n'),
+              },
+            }
+          },
+        ],
+      },
+    ],
+  }
+}
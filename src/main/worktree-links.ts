@@ -0,0 +1,220 @@
+import { exec } from 'node:child_process'
+import { constants } from 'node:fs'
+import {
+  copyFile,
+  link,
+  lstat,
+  mkdir,
+  readdir,
+  readlink,
+  symlink,
+} from 'node:fs/promises'
+import { dirname, join, relative } from 'node:path'
+import { promisify } from 'node:util'
+import type {
+  WorktreeLinkPlanItem,
+  WorktreeLinkPolicy,
+  WorktreeLinkStrategy,
+} from '../shared/types'
+
+const execAsync = promisify(exec)
+
+// ============================================================================
+// Ignored File Sharing
+// ============================================================================
+// LOGIC: A fresh worktree has none of the project's ignored files
+// (node_modules, .env, build output), so they are brought over when the
+// worktree is created. Git itself lists the ignored paths, which covers
+// negations, nested .gitignore files and .git/info/exclude; a directory that
+// is ignored as a whole is listed once. Each path then gets the strategy of
+// the first project rule matching it (see WorktreeLinkStrategy), or the
+// default, which is a symlink as before.
+
+export const DEFAULT_WORKTREE_LINK_POLICY: WorktreeLinkPolicy = {
+  defaultStrategy: 'symlink',
+  rules: [],
+}
+
+const globToRegExpSource = (glob: string): string =>
+  glob
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map(token => {
+      if (token === '**/') return '(?:.*/)?'
+      if (token === '**') return '.*'
+      if (token === '*') return '[^/]*'
+      if (token === '?') return '[^/]'
+      return token.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+
+/**
+ * Check a path against a rule pattern, with gitignore's glob rules: `*` stays
+ * within a path segment and `**` crosses them, a trailing `/` only matches
+ * directories, and a pattern without a `/` matches the name at any depth.
+ * Paths inside a matching directory match too.
+ */
+export const matchesLinkPattern = (
+  path: string,
+  isDirectory: boolean,
+  pattern: string
+): boolean => {
+  const trimmed = pattern.trim()
+  if (!trimmed) return false
+
+  const directoryOnly = trimmed.endsWith('/')
+  const glob = trimmed.replace(/\/+$/, '')
+  const isAnchored = glob.includes('/')
+  const match = new RegExp(
+    `^${isAnchored ? '' : '(?:.*/)?'}${globToRegExpSource(glob.replace(/^\//, ''))}(/.*)?$`
+  ).exec(path)
+
+  return !!match && (!directoryOnly || isDirectory || !!match[1])
+}
+
+/**
+ * Strategy for one ignored path, and the rule pattern that chose it
+ */
+export const resolveLinkStrategy = (
+  path: string,
+  isDirectory: boolean,
+  policy: WorktreeLinkPolicy
+): { strategy: WorktreeLinkStrategy; pattern?: string } => {
+  const rule = policy.rules.find(rule =>
+    matchesLinkPattern(path, isDirectory, rule.pattern)
+  )
+  return rule
+    ? { strategy: rule.strategy, pattern: rule.pattern }
+    : { strategy: policy.defaultStrategy }
+}
+
+/**
+ * Ignored paths that exist in the project, relative to its root
+ */
+const listIgnoredPaths = async (
+  projectPath: string
+): Promise<Array<{ path: string; isDirectory: boolean }>> => {
+  const { stdout } = await execAsync(
+    'git ls-files --others --ignored --exclude-standard --directory -z',
+    { cwd: projectPath, maxBuffer: 50 * 1024 * 1024 }
+  )
+  return stdout
+    .split('\0')
+    .filter(Boolean)
+    .map(path => ({
+      path: path.replace(/\/$/, ''),
+      isDirectory: path.endsWith('/'),
+    }))
+}
+
+/**
+ * What new worktrees of this project will get, for the settings preview and
+ * for linkIgnoredPaths
+ */
+export const planWorktreeLinks = async (
+  projectPath: string,
+  policy: WorktreeLinkPolicy = DEFAULT_WORKTREE_LINK_POLICY
+): Promise<WorktreeLinkPlanItem[]> =>
+  (await listIgnoredPaths(projectPath)).map(({ path, isDirectory }) => ({
+    path,
+    isDirectory,
+    ...resolveLinkStrategy(path, isDirectory, policy),
+  }))
+
+/**
+ * Copy a file or directory tree, recreating symlinks inside it as symlinks
+ */
+const copyTree = async (
+  source: string,
+  target: string,
+  copy: (source: string, target: string) => Promise<void>
+): Promise<void> => {
+  const stats = await lstat(source)
+  if (stats.isSymbolicLink()) {
+    await symlink(await readlink(source), target)
+  } else if (stats.isDirectory()) {
+    await mkdir(target, { recursive: true })
+    for (const entry of await readdir(source)) {
+      await copyTree(join(source, entry), join(target, entry), copy)
+    }
+  } else {
+    await copy(source, target)
+  }
+}
+
+const FILE_COPIERS: Record<
+  'hardlink' | 'clone' | 'copy',
+  (source: string, target: string) => Promise<void>
+> = {
+  // Hard links can't cross filesystems (e.g. a worktree root on another disk)
+  hardlink: async (source, target) => {
+    try {
+      await link(source, target)
+    } catch (error: any) {
+      if (error.code !== 'EXDEV') throw error
+      await copyFile(source, target)
+    }
+  },
+  clone: (source, target) =>
+    copyFile(source, target, constants.COPYFILE_FICLONE),
+  copy: (source, target) => copyFile(source, target),
+}
+
+/**
+ * Bring the project's ignored files into a new worktree. Best-effort: a path
+ * that fails is logged and skipped.
+ */
+export const linkIgnoredPaths = async (
+  projectPath: string,
+  worktreePath: string,
+  policy: WorktreeLinkPolicy = DEFAULT_WORKTREE_LINK_POLICY
+): Promise<void> => {
+  let plan: WorktreeLinkPlanItem[]
+  try {
+    plan = await planWorktreeLinks(projectPath, policy)
+  } catch (error: any) {
+    console.warn(`⚠️  Could not list ignored files: ${error.message}`)
+    return
+  }
+
+  console.log(`🔗 Bringing ${plan.length} ignored paths into the worktree...`)
+  const counts: Partial<Record<WorktreeLinkStrategy, number>> = {}
+
+  for (const { path, isDirectory, strategy } of plan) {
+    const source = join(projectPath, path)
+    const target = join(worktreePath, path)
+
+    // A worktree root inside the project would otherwise be copied into itself
+    if (!relative(source, worktreePath).startsWith('..')) continue
+    if (strategy === 'skip') {
+      counts.skip = (counts.skip || 0) + 1
+      continue
+    }
+
+    try {
+      const existing = await lstat(target).catch(() => null)
+      if (existing) {
+        console.log(`  ⏭️  Already in the worktree: ${path}`)
+        continue
+      }
+
+      await mkdir(dirname(target), { recursive: true })
+      if (strategy === 'symlink') {
+        await symlink(source, target, isDirectory ? 'dir' : 'file')
+      } else {
+        await copyTree(source, target, FILE_COPIERS[strategy])
+      }
+      counts[strategy] = (counts[strategy] || 0) + 1
+      console.log(`  ✅ ${strategy}: ${path}`)
+    } catch (error: any) {
+      console.warn(`  ⚠️  Failed to ${strategy} ${path}: ${error.message}`)
+    }
+  }
+
+  console.log(
+    `🔗 Ignored paths done: ${
+      Object.entries(counts)
+        .map(([strategy, count]) => `${count} ${strategy}`)
+        .join(', ') || 'nothing to bring over'
+    }`
+  )
+}
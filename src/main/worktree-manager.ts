@@ -1,16 +1,19 @@
 import { join, basename } from 'node:path'
-import {
-  existsSync,
-  mkdirSync,
-  readFileSync,
-  symlinkSync,
-  statSync,
-  lstatSync,
-} from 'node:fs'
+import { existsSync, mkdirSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { exec } from 'node:child_process'
 import { promisify } from 'node:util'
-import type { WorktreeInfo } from '../shared/types'
+import type { ProjectSettings, WorktreeInfo } from '../shared/types'
+import {
+  DEFAULT_BRANCH_NAME_TEMPLATE,
+  extractTicket,
+  getUserName,
+  renderBranchName,
+  sanitizePromptName,
+  validateBranchName,
+} from './worktree-naming'
+import { getProjectStorageName } from './project-identity'
+import { linkIgnoredPaths } from './worktree-links'
 
 const execAsync = promisify(exec)
 
@@ -28,15 +31,68 @@ export const generateShortUuid = (): string => {
 }
 
 /**
- * Sanitize prompt text to create valid branch/folder names
+ * Folder that holds every project's worktrees: the project's worktreeRoot
+ * setting (~ is expanded) or ~/.almondcoder
+ */
+export const getWorktreeRoot = (worktreeRoot?: string): string =>
+  worktreeRoot?.trim()
+    ? worktreeRoot.trim().replace(/^~(?=\/|$)/, homedir())
+    : join(homedir(), '.almondcoder')
+
+/**
+ * Check whether a local branch already exists
  */
-export const sanitizePromptName = (prompt: string): string => {
-  return prompt
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '') // Remove special characters
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .substring(0, 30) // Limit length
-    .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
+const branchExists = async (
+  projectPath: string,
+  branchName: string
+): Promise<boolean> => {
+  try {
+    await execAsync(`git show-ref --verify --quiet "refs/heads/${branchName}"`, {
+      cwd: projectPath,
+    })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Name the conversation's branch from the project's template. A name that
+ * breaks git's ref rules falls back to the default template, and a name that
+ * is already taken (templates without {id}) gets the short UUID appended.
+ */
+const resolveBranchName = async (
+  projectPath: string,
+  template: string | undefined,
+  promptText: string,
+  shortUuid: string,
+  baseBranch: string
+): Promise<string> => {
+  const values = {
+    slug: sanitizePromptName(promptText),
+    ticket: extractTicket(promptText),
+    id: shortUuid,
+    user: getUserName(),
+    date: new Date().toISOString().slice(0, 10),
+    base: baseBranch,
+  }
+
+  let branchName = renderBranchName(
+    template || DEFAULT_BRANCH_NAME_TEMPLATE,
+    values
+  )
+  const error = validateBranchName(branchName)
+  if (error) {
+    console.warn(
+      `⚠️  Branch name "${branchName}" from template "${template}" is invalid (${error}), using the default template`
+    )
+    branchName = renderBranchName(DEFAULT_BRANCH_NAME_TEMPLATE, values)
+  }
+
+  if (await branchExists(projectPath, branchName)) {
+    branchName = `${branchName}-${shortUuid}`
+  }
+  return branchName
 }
 
 // ============================================================================
@@ -227,142 +283,6 @@ export const restoreStashedChanges = async (
   }
 }
 
-// ============================================================================
-// Gitignore Symlink Functions
-// ============================================================================
-
-/**
- * Parse .gitignore file and return list of patterns
- */
-const parseGitignore = (gitignorePath: string): string[] => {
-  try {
-    if (!existsSync(gitignorePath)) {
-      return []
-    }
-
-    const content = readFileSync(gitignorePath, 'utf8')
-    return content
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => {
-        // Skip empty lines and comments
-        if (!line || line.startsWith('#')) return false
-        // Skip negation patterns (lines starting with !)
-        if (line.startsWith('!')) return false
-        return true
-      })
-      .map(pattern => {
-        // Remove leading slash
-        if (pattern.startsWith('/')) {
-          return pattern.substring(1)
-        }
-        return pattern
-      })
-  } catch (error) {
-    console.error('Error parsing .gitignore:', error)
-    return []
-  }
-}
-
-/**
- * Check if a path matches a gitignore pattern
- */
-const matchesPattern = (path: string, pattern: string): boolean => {
-  // Simple pattern matching - handle wildcards and directories
-  if (pattern.endsWith('*')) {
-    const prefix = pattern.slice(0, -1)
-    return path.startsWith(prefix)
-  }
-  if (pattern.endsWith('/')) {
-    // Directory pattern
-    return path === pattern.slice(0, -1) || path.startsWith(pattern)
-  }
-  return path === pattern
-}
-
-/**
- * Create symlinks for .gitignore entries from original repo to worktree
- */
-export const createGitignoreSymlinks = async (
-  projectPath: string,
-  worktreePath: string
-): Promise<void> => {
-  const gitignorePath = join(projectPath, '.gitignore')
-
-  if (!existsSync(gitignorePath)) {
-    console.log('ℹ️  No .gitignore file found, skipping symlink creation')
-    return
-  }
-
-  console.log('🔗 Creating symlinks for .gitignore entries...')
-
-  const patterns = parseGitignore(gitignorePath)
-  let symlinkCount = 0
-
-  for (const pattern of patterns) {
-    try {
-      // Skip patterns with wildcards in the middle (complex patterns)
-      if (pattern.includes('*') && !pattern.endsWith('*')) {
-        continue
-      }
-
-      // Remove trailing wildcard for directory checking
-      const cleanPattern = pattern.endsWith('*')
-        ? pattern.slice(0, -1)
-        : pattern
-
-      // Check if the pattern matches a file or directory in the original repo
-      const originalPath = join(projectPath, cleanPattern)
-      const worktreeTargetPath = join(worktreePath, cleanPattern)
-
-      // Check if path exists in original directory
-      if (!existsSync(originalPath)) {
-        continue
-      }
-
-      // Check if it's already a symlink in worktree
-      if (existsSync(worktreeTargetPath)) {
-        try {
-          const stats = lstatSync(worktreeTargetPath)
-          if (stats.isSymbolicLink()) {
-            console.log(`  ⏭️  Symlink already exists: ${cleanPattern}`)
-            continue
-          }
-        } catch (error) {
-          // Continue to create symlink
-        }
-      }
-
-      // Get stats to determine if it's a file or directory
-      const stats = statSync(originalPath)
-
-      if (stats.isDirectory() || stats.isFile()) {
-        // Create parent directory if needed
-        const worktreeParent = join(worktreeTargetPath, '..')
-        if (!existsSync(worktreeParent)) {
-          mkdirSync(worktreeParent, { recursive: true })
-        }
-
-        // Create symlink
-        symlinkSync(
-          originalPath,
-          worktreeTargetPath,
-          stats.isDirectory() ? 'dir' : 'file'
-        )
-        symlinkCount++
-        console.log(`  ✅ Created symlink: ${cleanPattern}`)
-      }
-    } catch (error: any) {
-      // Log but don't fail - symlink creation is best-effort
-      console.warn(
-        `  ⚠️  Failed to create symlink for ${pattern}: ${error.message}`
-      )
-    }
-  }
-
-  console.log(`🔗 Created ${symlinkCount} symlinks from .gitignore entries`)
-}
-
 // ============================================================================
 // Main Worktree Creation Function
 // ============================================================================
@@ -375,7 +295,12 @@ export const createWorktree = async (
   branch: string,
   promptText: string,
   promptId: string,
-  parentWorktreePath?: string
+  parentWorktreePath?: string,
+  startCommit?: string, // Parent commit to start from instead of its HEAD (forks)
+  settings: Pick<
+    ProjectSettings,
+    'worktreeRoot' | 'branchNameTemplate' | 'worktreeLinks'
+  > = {}
 ): Promise<WorktreeInfo> => {
   console.log('Creating worktree with params:', {
     projectPath,
@@ -383,6 +308,9 @@ export const createWorktree = async (
     promptText: promptText.substring(0, 50),
     promptId,
     parentWorktreePath,
+    startCommit,
+    worktreeRoot: settings.worktreeRoot,
+    branchNameTemplate: settings.branchNameTemplate,
   })
 
   // STEP 1: Ensure repository has commits
@@ -397,16 +325,17 @@ export const createWorktree = async (
 
   // STEP 4: Prepare worktree directory
   const projectName = basename(projectPath)
+  const projectFolderName = getProjectStorageName(projectPath)
   const sanitizedPromptName = sanitizePromptName(promptText)
   const shortUuid = generateShortUuid()
   const worktreeName = `${sanitizedPromptName}-${shortUuid}`
 
-  const almondcoderDir = join(homedir(), '.almondcoder')
-  if (!existsSync(almondcoderDir)) {
-    mkdirSync(almondcoderDir, { recursive: true })
+  const worktreeRoot = getWorktreeRoot(settings.worktreeRoot)
+  if (!existsSync(worktreeRoot)) {
+    mkdirSync(worktreeRoot, { recursive: true })
   }
 
-  const projectWorktreeDir = join(almondcoderDir, projectName)
+  const projectWorktreeDir = join(worktreeRoot, projectFolderName)
   if (!existsSync(projectWorktreeDir)) {
     mkdirSync(projectWorktreeDir, { recursive: true })
   }
@@ -415,16 +344,23 @@ export const createWorktree = async (
 
   try {
     // STEP 5: Create worktree with unique branch
-    const uniqueBranchName = `almondcoder/${sanitizedPromptName}-${shortUuid}`
+    const uniqueBranchName = await resolveBranchName(
+      projectPath,
+      settings.branchNameTemplate,
+      promptText,
+      shortUuid,
+      validBranch
+    )
     console.log(`🌿 Creating worktree with branch name: ${uniqueBranchName}`)
 
     if (parentWorktreePath && existsSync(parentWorktreePath)) {
       // Create from parent worktree
       console.log(`Creating worktree from parent: ${parentWorktreePath}`)
 
-      const { stdout: parentCommit } = await execAsync('git rev-parse HEAD', {
-        cwd: parentWorktreePath,
-      })
+      const { stdout: parentCommit } = await execAsync(
+        `git rev-parse "${startCommit || 'HEAD'}"`,
+        { cwd: parentWorktreePath }
+      )
 
       const commitHash = parentCommit.trim()
       console.log(`Parent worktree is at commit: ${commitHash}`)
@@ -462,8 +398,8 @@ export const createWorktree = async (
       await applyStashedChanges(projectPath, worktreePath)
     }
 
-    // STEP 7: Create symlinks for .gitignore entries
-    await createGitignoreSymlinks(projectPath, worktreePath)
+    // STEP 7: Bring over ignored files (node_modules, .env...)
+    await linkIgnoredPaths(projectPath, worktreePath, settings.worktreeLinks)
 
     return {
       worktreePath,
@@ -0,0 +1,151 @@
+import { userInfo } from 'node:os'
+
+// ============================================================================
+// Worktree Naming Templates
+// ============================================================================
+// LOGIC: Conversation branches are named from a per-project template
+// (ProjectSettings.branchNameTemplate), 'almondcoder/{slug}-{id}' by default:
+// - {slug}: the prompt, lowercased and hyphenated
+// - {ticket}: the first ticket reference in the prompt (ABC-123, or #123)
+// - {id}: a short unique ID
+// - {user}: the OS user name
+// - {date}: today as YYYY-MM-DD
+// - {base}: the branch the worktree starts from
+// A placeholder without a value (e.g. no ticket in the prompt) is dropped
+// together with the separator next to it. The result must pass git's ref name
+// rules (git check-ref-format --branch).
+
+export const DEFAULT_BRANCH_NAME_TEMPLATE = 'almondcoder/{slug}-{id}'
+
+const PLACEHOLDERS = ['slug', 'ticket', 'id', 'user', 'date', 'base'] as const
+
+export type BranchNameValues = Partial<
+  Record<(typeof PLACEHOLDERS)[number], string>
+>
+
+// Values used to check a template before it is saved
+const SAMPLE_VALUES: BranchNameValues = {
+  slug: 'fix-login-redirect',
+  ticket: 'ABC-123',
+  id: 'm1x2k9ab',
+  user: 'alex',
+  date: '2025-01-31',
+  base: 'main',
+}
+
+/**
+ * Sanitize prompt text to create valid branch/folder names
+ */
+export const sanitizePromptName = (prompt: string): string => {
+  return prompt
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '') // Remove special characters
+    .replace(/\s+/g, '-') // Replace spaces with hyphens
+    .substring(0, 30) // Limit length
+    .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
+}
+
+/**
+ * First ticket reference in a prompt: a Jira-style key (ABC-123) or a
+ * GitHub-style issue number (#123 → 123)
+ */
+export const extractTicket = (prompt: string): string | undefined =>
+  (prompt.match(/\b([A-Z][A-Z0-9]+-\d+)\b/) ||
+    prompt.match(/(?:^|\s)#(\d+)\b/))?.[1]
+
+/**
+ * The OS user name, or undefined where it can't be read (e.g. no passwd entry)
+ */
+export const getUserName = (): string | undefined => {
+  try {
+    return process.env.USER || userInfo().username
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Fill in a template. Placeholder values are reduced to characters that are
+ * safe in a ref; unknown placeholders are left as is (and fail validation).
+ */
+export function renderBranchName(
+  template: string,
+  values: BranchNameValues
+): string {
+  const rendered = template
+    .trim()
+    .replace(/\{(\w+)\}/g, (placeholder, name) =>
+      (PLACEHOLDERS as readonly string[]).includes(name)
+        ? (values[name as keyof BranchNameValues] || '').replace(
+            /[^A-Za-z0-9._/-]+/g,
+            '-'
+          )
+        : placeholder
+    )
+
+  // Drop the separators left around empty placeholders in each path component
+  return rendered
+    .split('/')
+    .map(component =>
+      component.replace(/([-_.])[-_.]+/g, '$1').replace(/^[-_.]+|[-_.]+$/g, '')
+    )
+    .filter(Boolean)
+    .join('/')
+}
+
+/**
+ * Check a branch name against git's ref name rules. Returns what is wrong
+ * with it, or null if it is valid.
+ */
+export function validateBranchName(name: string): string | null {
+  if (!name) return 'The branch name is empty'
+  const hasControlCharacter = [...name].some(
+    char => char.charCodeAt(0) <= 32 || char.charCodeAt(0) === 127
+  )
+  if (hasControlCharacter || /[~^:?*[\\]/.test(name)) {
+    return 'Branch names cannot contain spaces or any of ~ ^ : ? * [ \\'
+  }
+  if (name.includes('..')) return "Branch names cannot contain '..'"
+  if (name.includes('@{') || name === '@') {
+    return "Branch names cannot contain '@{' or be '@'"
+  }
+  if (name.startsWith('-')) return "Branch names cannot start with '-'"
+  if (name.startsWith('/') || name.endsWith('/') || name.includes('//')) {
+    return "Branch names cannot start or end with '/' or contain '//'"
+  }
+  if (name.endsWith('.')) return "Branch names cannot end with '.'"
+
+  const badComponent = name
+    .split('/')
+    .find(component => component.startsWith('.') || component.endsWith('.lock'))
+  if (badComponent) {
+    return `"${badComponent}": parts of a branch name cannot start with '.' or end with '.lock'`
+  }
+  return null
+}
+
+/**
+ * Check a template before it is saved: every placeholder must be known and
+ * the rendered name must be a valid branch, with and without a ticket
+ */
+export function validateBranchTemplate(template: string): string | null {
+  const unknown = [...template.matchAll(/\{(\w*)\}/g)]
+    .map(match => match[1])
+    .filter(name => !(PLACEHOLDERS as readonly string[]).includes(name))
+  if (unknown.length > 0) {
+    return `Unknown placeholder {${unknown[0]}}. Available: ${PLACEHOLDERS.map(name => `{${name}}`).join(' ')}`
+  }
+
+  return (
+    validateBranchName(renderBranchName(template, SAMPLE_VALUES)) ||
+    validateBranchName(
+      renderBranchName(template, { ...SAMPLE_VALUES, ticket: undefined })
+    )
+  )
+}
+
+/**
+ * Example branch name for the settings preview
+ */
+export const previewBranchName = (template: string) =>
+  renderBranchName(template, SAMPLE_VALUES)
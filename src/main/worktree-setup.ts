@@ -0,0 +1,98 @@
+import { spawn } from 'node:child_process'
+import type { WorktreeSetupCommand } from '../shared/types'
+
+// ============================================================================
+// Worktree Setup Commands
+// ============================================================================
+// LOGIC: New worktrees often need dependencies installed, code generated or
+// migrations run before the agent can build or test anything. A project's
+// 'setup' commands run one after another in the new worktree, streaming their
+// output to the conversation; the first failure stops the sequence so the
+// renderer can offer a retry (from the failed command) or skip instead of
+// starting the agent in a broken tree. 'cleanup' commands run before the
+// worktree is removed, when merged or discarded; their failures are only
+// logged.
+
+const SETUP_TIMEOUT_MS = 30 * 60 * 1000
+const MAX_OUTPUT_LENGTH = 8000
+
+export interface SetupCommandResult {
+  command: WorktreeSetupCommand
+  exitCode: number
+  output: string
+}
+
+// Long output (e.g. an install) keeps its end, where the errors are
+const keepTail = (output: string) =>
+  output.length > MAX_OUTPUT_LENGTH
+    ? `… (earlier output truncated)\n${output.slice(-MAX_OUTPUT_LENGTH)}`
+    : output
+
+/**
+ * Run one command through the shell, reporting its output so far as it
+ * arrives. Never rejects: spawn errors and timeouts become a non-zero exit.
+ */
+export const runSetupCommand = (
+  command: WorktreeSetupCommand,
+  cwd: string,
+  env: Record<string, string | undefined>,
+  onOutput: (output: string) => void
+): Promise<SetupCommandResult> =>
+  new Promise(resolve => {
+    let output = ''
+    const append = (chunk: Buffer | string) => {
+      output = keepTail(output + chunk.toString())
+      onOutput(output)
+    }
+
+    // Its own process group, so a timeout also stops what the shell started
+    // (e.g. both halves of `pnpm install && pnpm build`)
+    const child = spawn(command.command, {
+      cwd,
+      env,
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+    const finish = (exitCode: number) => {
+      clearTimeout(timeout)
+      resolve({ command, exitCode, output: output.trim() })
+    }
+    // Resolves right away: children that ignore the kill could keep the
+    // output pipes open, and 'close' would never fire
+    const timeout = setTimeout(() => {
+      append(`\n⏱️ Timed out after ${SETUP_TIMEOUT_MS / 60000} minutes`)
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL')
+      } catch {
+        child.kill() // No process groups on Windows
+      }
+      finish(1)
+    }, SETUP_TIMEOUT_MS)
+
+    child.stdout?.on('data', append)
+    child.stderr?.on('data', append)
+    // 'close' may not follow a spawn error (e.g. a missing worktree folder)
+    child.on('error', error => {
+      append(`\n${error.message}`)
+      finish(1)
+    })
+    child.on('close', code => finish(code ?? 1))
+  })
+
+/**
+ * Enabled commands of a phase, starting at fromCommandId when retrying
+ */
+export const getSetupCommands = (
+  commands: WorktreeSetupCommand[] = [],
+  phase: WorktreeSetupCommand['phase'],
+  fromCommandId?: string
+): WorktreeSetupCommand[] => {
+  const enabled = commands.filter(
+    command => command.enabled && command.phase === phase
+  )
+  const startIndex = fromCommandId
+    ? enabled.findIndex(command => command.id === fromCommandId)
+    : 0
+  return enabled.slice(Math.max(startIndex, 0))
+}
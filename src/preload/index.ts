@@ -6,6 +6,13 @@ import type {
   ToolPermissionRequest,
   ToolPermissionResponse,
   ProjectSettings,
+  ToolPermissionRule,
+  AppSettings,
+  AgentBackendId,
+  AuditLogEntry,
+  WorktreeLinkPolicy,
+  WorktreeLinkPlanItem,
+  WorktreeSetupOutput,
 } from '../shared/types'
 
 declare global {
@@ -20,10 +27,32 @@ const API = {
   setWindowTitle: (title: string) =>
     ipcRenderer.invoke('set-window-title', title),
   selectFolder: () => ipcRenderer.invoke('select-folder'),
+  selectReplayLog: (projectPath?: string): Promise<string | null> =>
+    ipcRenderer.invoke('select-replay-log', projectPath),
   getRecentProjects: () => ipcRenderer.invoke('get-recent-projects'),
   getAppDataPath: () => ipcRenderer.invoke('get-app-data-path'),
+  getAppSettings: (): Promise<AppSettings> =>
+    ipcRenderer.invoke('get-app-settings'),
+  saveAppSettings: (settings: AppSettings): Promise<AppSettings> =>
+    ipcRenderer.invoke('save-app-settings', settings),
+  // Agent tool entries (mcp__<server>) for the enabled MCP servers
+  getMcpAgentTools: (
+    projectPath?: string
+  ): Promise<Array<{ name: string; tool: string }>> =>
+    ipcRenderer.invoke('get-mcp-agent-tools', projectPath),
   addRecentProject: (project: { name: string; path: string }) =>
     ipcRenderer.invoke('add-recent-project', project),
+  relinkProject: (
+    oldPath: string,
+    newPath: string
+  ): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('relink-project', oldPath, newPath),
+  // Conversation logs live in the project's folder, named by its stable ID
+  getConversationLogPath: (
+    projectPath: string,
+    promptId: string
+  ): Promise<string> =>
+    ipcRenderer.invoke('get-conversation-log-path', projectPath, promptId),
   // Prompt Agents methods
   getPromptAgents: () => ipcRenderer.invoke('get-prompt-agents'),
   savePromptAgents: (agents: any[]) =>
@@ -72,7 +101,65 @@ const API = {
     ipcRenderer.invoke('get-project-settings', projectPath),
   saveProjectSettings: (projectPath: string, settings: ProjectSettings) =>
     ipcRenderer.invoke('save-project-settings', projectPath, settings),
+  addPermissionRule: (projectPath: string, rule: ToolPermissionRule) =>
+    ipcRenderer.invoke('add-permission-rule', projectPath, rule),
+  // Permission audit log
+  getAuditLog: (projectPath: string): Promise<AuditLogEntry[]> =>
+    ipcRenderer.invoke('get-audit-log', projectPath),
+  exportAuditLog: (
+    projectPath: string,
+    format: 'csv' | 'json',
+    entries: AuditLogEntry[]
+  ) => ipcRenderer.invoke('export-audit-log', projectPath, format, entries),
+  // Project secrets - values go to the OS keychain and are never read back
+  getProjectSecretNames: (projectPath: string): Promise<string[]> =>
+    ipcRenderer.invoke('get-project-secret-names', projectPath),
+  saveProjectSecret: (projectPath: string, name: string, value: string) =>
+    ipcRenderer.invoke('save-project-secret', projectPath, name, value),
+  deleteProjectSecret: (projectPath: string, name: string) =>
+    ipcRenderer.invoke('delete-project-secret', projectPath, name),
   // Worktree methods
+  previewBranchTemplate: (
+    template: string
+  ): Promise<{ example: string; error: string | null }> =>
+    ipcRenderer.invoke('preview-branch-template', template),
+  previewWorktreeLinks: (
+    projectPath: string,
+    policy?: WorktreeLinkPolicy
+  ): Promise<{
+    success: boolean
+    error?: string
+    items: WorktreeLinkPlanItem[]
+  }> => ipcRenderer.invoke('preview-worktree-links', projectPath, policy),
+  /**
+   * Run the project's setup commands in a new worktree. Stops at the first
+   * failing command; pass its ID as fromCommandId to retry from there.
+   */
+  runWorktreeSetup: (options: {
+    projectPath: string
+    promptId: string
+    worktreePath: string
+    conversationLogPath: string
+    fromCommandId?: string
+  }): Promise<{
+    success: boolean
+    failedCommandId?: string
+    command?: string
+    exitCode?: number
+  }> => ipcRenderer.invoke('run-worktree-setup', options),
+  /**
+   * Listen for setup command output as it streams in
+   * Returns cleanup function to remove listener
+   */
+  onWorktreeSetupOutput: (callback: (update: WorktreeSetupOutput) => void) => {
+    const handler = (_event: any, update: WorktreeSetupOutput) => {
+      callback(update)
+    }
+    ipcRenderer.on('worktree-setup-output', handler)
+    return () => {
+      ipcRenderer.removeListener('worktree-setup-output', handler)
+    }
+  },
   createWorktree: (
     projectPath: string,
     branch: string,
@@ -91,6 +178,9 @@ const API = {
     ipcRenderer.invoke('cleanup-worktree', worktreePath),
   validateWorktree: (worktreePath: string) =>
     ipcRenderer.invoke('validate-worktree', worktreePath),
+  refreshShellPath: () => ipcRenderer.invoke('refresh-shell-path'),
+  forkConversation: (projectPath: string, promptId: string, messageId: string) =>
+    ipcRenderer.invoke('fork-conversation', projectPath, promptId, messageId),
   checkFileExists: (filePath: string) =>
     ipcRenderer.invoke('check-file-exists', filePath),
   getProjectWorktrees: (projectPath: string) =>
@@ -135,16 +225,24 @@ const API = {
       promptId?: string
       conversationTitle?: string
       autoAcceptEnabled?: boolean
+      // Prompt agent whose system prompt and tools apply to this run:
+      agentId?: string
+      model?: string // Model alias or ID; unset uses the provider default
+      projectPath?: string // Main project path, used to load permission rules
+      backend?: AgentBackendId // Agent that runs the conversation (defaults to Claude)
     },
     onOutput?: (data: { type: string; data: string }) => void
   ) => {
     if (onOutput) {
-      const handler = (_event: any, data: { type: string; data: string; promptId?: string }) => {
-        console.log('🔌 [Preload] Received IPC message:', {
-          type: data.type,
-          dataLength: data.data?.length,
-          promptId: data.promptId,  // Log promptId for debugging
-        })
+      const handler = (_event: any, data: { type: string; data: string; promptId?: string; partial?: boolean }) => {
+        // Partial chunks arrive per token, so skip logging them
+        if (!data.partial) {
+          console.log('🔌 [Preload] Received IPC message:', {
+            type: data.type,
+            dataLength: data.data?.length,
+            promptId: data.promptId,  // Log promptId for debugging
+          })
+        }
         onOutput(data)
       }
       ipcRenderer.on('command-output', handler)
@@ -166,6 +264,11 @@ const API = {
     return ipcRenderer.invoke('abort-claude-sdk', promptId)
   },
 
+  // Move a queued conversation to a new 0-based position in the run queue
+  moveQueuedRun: (promptId: string, toIndex: number): Promise<boolean> => {
+    return ipcRenderer.invoke('move-queued-run', promptId, toIndex)
+  },
+
   // ============================================================================
   // Permission System IPC Methods
   // ============================================================================
@@ -197,9 +300,15 @@ const API = {
 
   /**
    * Send acceptance to main process
-   * LOGIC: User clicked "Accept" button, tell main process to allow the tool
+   * LOGIC: User clicked "Accept" button, tell main process to allow the tool.
+   * updatedInput carries the user's edits to the tool input, if any;
+   * alwaysAllow also saves a project allow rule for the tool
    */
-  acceptToolPermission: (data: { requestId: string }) => {
+  acceptToolPermission: (data: {
+    requestId: string
+    updatedInput?: Record<string, unknown>
+    alwaysAllow?: boolean
+  }) => {
     console.log('🔌 [Preload] Sending tool-permission-accept:', data.requestId)
     ipcRenderer.send('tool-permission-accept', data)
   },
@@ -253,6 +362,12 @@ const API = {
     ipcRenderer.send('update-conversation-state', data)
   },
 
+  /**
+   * Clear a conversation's state (e.g. after recovering from an error)
+   */
+  clearConversationState: (promptId: string) =>
+    ipcRenderer.invoke('clear-conversation-state', promptId),
+
   /**
    * Listen for conversation state changes from main process
    * LOGIC: Main process broadcasts state updates, renderer listens and updates UI
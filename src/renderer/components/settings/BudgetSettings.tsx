@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { BudgetLimits } from '../../../shared/types'
+
+const BUDGET_FIELDS: Array<{
+  key: keyof BudgetLimits
+  label: string
+  unit: string
+  step: string
+}> = [
+  { key: 'maxCostUsd', label: 'Max cost', unit: 'USD', step: '0.5' },
+  { key: 'maxTurns', label: 'Max turns', unit: 'per run', step: '1' },
+  {
+    key: 'maxDurationMinutes',
+    label: 'Max duration',
+    unit: 'min per run',
+    step: '1',
+  },
+]
+
+interface BudgetFieldsProps {
+  value: BudgetLimits
+  onChange: (value: BudgetLimits) => void
+  inputClassName: string
+  labelClassName: string
+  placeholders?: BudgetLimits // Shown when a field is empty (e.g. the project limit)
+}
+
+/**
+ * Number inputs for the three budget limits. Empty or 0 means no limit.
+ * Shared by project settings and the per-conversation budget panel.
+ */
+export function BudgetFields({
+  value,
+  onChange,
+  inputClassName,
+  labelClassName,
+  placeholders,
+}: BudgetFieldsProps) {
+  const handleChange = (key: keyof BudgetLimits, text: string) => {
+    const parsed = Number.parseFloat(text)
+    onChange({
+      ...value,
+      [key]: Number.isFinite(parsed) && parsed > 0 ? parsed : undefined,
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {BUDGET_FIELDS.map(field => (
+        <div key={field.key}>
+          <div className={`text-xs mb-1 ${labelClassName}`}>
+            {field.label} ({field.unit})
+          </div>
+          <input
+            className={`w-full ${inputClassName}`}
+            min="0"
+            onChange={e => handleChange(field.key, e.target.value)}
+            placeholder={
+              placeholders?.[field.key]
+                ? String(placeholders[field.key])
+                : 'No limit'
+            }
+            step={field.step}
+            type="number"
+            value={value[field.key] ?? ''}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface BudgetSettingsProps {
+  projectPath: string
+}
+
+export function BudgetSettings({ projectPath }: BudgetSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [budget, setBudget] = useState<BudgetLimits>({})
+  const [isSaved, setIsSaved] = useState(true)
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setBudget(settings?.budget || {}))
+      .catch(error => console.error('Failed to load budget:', error))
+  }, [projectPath])
+
+  const handleSave = async () => {
+    try {
+      await window.App.saveProjectSettings(projectPath, { budget })
+      setIsSaved(true)
+    } catch (error) {
+      console.error('Failed to save budget:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Conversation Budget
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          Default limits for every conversation in this project. A run that hits
+          a limit is stopped. Conversations can set lower limits, not higher.
+        </p>
+
+        <BudgetFields
+          inputClassName={`px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`}
+          labelClassName={themeClasses.textSecondary}
+          onChange={value => {
+            setBudget(value)
+            setIsSaved(false)
+          }}
+          value={budget}
+        />
+
+        <div className="flex justify-end mt-4">
+          <button
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+            disabled={isSaved}
+            onClick={handleSave}
+          >
+            {isSaved ? 'Saved' : 'Save budget'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash, LockKey } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { ProjectEnvVariable } from '../../../shared/types'
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+interface EnvVariableSettingsProps {
+  projectPath: string
+}
+
+export function EnvVariableSettings({ projectPath }: EnvVariableSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [variables, setVariables] = useState<ProjectEnvVariable[]>([])
+  const [loadDotEnv, setLoadDotEnv] = useState(false)
+  const [storedSecrets, setStoredSecrets] = useState<string[]>([])
+  const [name, setName] = useState('')
+  const [value, setValue] = useState('')
+  const [isSecret, setIsSecret] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => {
+        setVariables(settings?.envVariables || [])
+        setLoadDotEnv(Boolean(settings?.loadDotEnv))
+      })
+      .catch(error => console.error('Failed to load env variables:', error))
+    window.App.getProjectSecretNames(projectPath)
+      .then(setStoredSecrets)
+      .catch(error => console.error('Failed to load project secrets:', error))
+  }, [projectPath])
+
+  const saveVariables = async (updatedVariables: ProjectEnvVariable[]) => {
+    setVariables(updatedVariables)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        envVariables: updatedVariables,
+      })
+    } catch (error) {
+      console.error('Failed to save env variables:', error)
+    }
+  }
+
+  const handleToggleDotEnv = async () => {
+    setLoadDotEnv(!loadDotEnv)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        loadDotEnv: !loadDotEnv,
+      })
+    } catch (error) {
+      console.error('Failed to save .env setting:', error)
+    }
+  }
+
+  const handleAddVariable = async () => {
+    const trimmedName = name.trim()
+    if (!ENV_NAME_PATTERN.test(trimmedName)) {
+      setError('Names may only contain letters, digits and underscores')
+      return
+    }
+
+    if (isSecret) {
+      const result = await window.App.saveProjectSecret(
+        projectPath,
+        trimmedName,
+        value
+      )
+      if (!result.success) {
+        setError(result.error || 'Failed to store the secret in the keychain')
+        return
+      }
+      setStoredSecrets([
+        ...storedSecrets.filter(secret => secret !== trimmedName),
+        trimmedName,
+      ])
+    }
+
+    // Adding an existing name replaces that variable
+    const previous = variables.find(variable => variable.name === trimmedName)
+    if (previous?.isSecret && !isSecret) {
+      await window.App.deleteProjectSecret(projectPath, trimmedName)
+    }
+
+    const variable: ProjectEnvVariable = {
+      id: previous?.id || uuidv4(),
+      name: trimmedName,
+      value: isSecret ? undefined : value,
+      isSecret,
+      enabled: true,
+      createdAt: previous?.createdAt || new Date(),
+    }
+    saveVariables(
+      previous
+        ? variables.map(v => (v.id === previous.id ? variable : v))
+        : [...variables, variable]
+    )
+    setName('')
+    setValue('')
+    setError(null)
+  }
+
+  const handleToggleVariable = (variableId: string) => {
+    saveVariables(
+      variables.map(variable =>
+        variable.id === variableId
+          ? { ...variable, enabled: !variable.enabled }
+          : variable
+      )
+    )
+  }
+
+  const handleDeleteVariable = async (variable: ProjectEnvVariable) => {
+    if (variable.isSecret) {
+      await window.App.deleteProjectSecret(projectPath, variable.name)
+      setStoredSecrets(storedSecrets.filter(secret => secret !== variable.name))
+    }
+    saveVariables(variables.filter(v => v.id !== variable.id))
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Environment Variables
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          Added to the agent's environment for every conversation in this
+          project, e.g. test database URLs or feature flags. Secret values are
+          stored in the system keychain and masked in conversations and their
+          logs.
+        </p>
+
+        <label
+          className={`flex items-center gap-2 text-sm ${themeClasses.textSecondary} mb-4`}
+        >
+          <input
+            checked={loadDotEnv}
+            onChange={handleToggleDotEnv}
+            type="checkbox"
+          />
+          Also load .env from the conversation's worktree (variables below take
+          precedence)
+        </label>
+
+        {/* Add Variable Form */}
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center gap-2">
+            <input
+              className={`w-56 font-mono ${inputClassName}`}
+              onChange={e => setName(e.target.value)}
+              placeholder="NAME"
+              type="text"
+              value={name}
+            />
+            <input
+              className={`flex-1 font-mono ${inputClassName}`}
+              onChange={e => setValue(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleAddVariable()
+              }}
+              placeholder="Value"
+              type={isSecret ? 'password' : 'text'}
+              value={value}
+            />
+            <button
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+              disabled={!name.trim()}
+              onClick={handleAddVariable}
+            >
+              Add variable
+            </button>
+          </div>
+          <label
+            className={`flex items-center gap-2 text-sm ${themeClasses.textSecondary}`}
+          >
+            <input
+              checked={isSecret}
+              onChange={e => setIsSecret(e.target.checked)}
+              type="checkbox"
+            />
+            Secret - store the value in the keychain and mask it in output
+          </label>
+          {error && <div className="text-sm text-red-500">{error}</div>}
+        </div>
+
+        {/* Variable List */}
+        {variables.length === 0 ? (
+          <div className={`text-sm ${themeClasses.textTertiary} py-4`}>
+            No variables yet.
+          </div>
+        ) : (
+          <div
+            className={`border ${themeClasses.borderPrimary} rounded-lg divide-y`}
+          >
+            {variables.map(variable => (
+              <div
+                className="flex items-center justify-between px-4 py-2.5"
+                key={variable.id}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <button
+                    className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+                      variable.enabled ? 'bg-green-500' : 'bg-gray-400'
+                    }`}
+                    onClick={() => handleToggleVariable(variable.id)}
+                    title={
+                      variable.enabled ? 'Disable variable' : 'Enable variable'
+                    }
+                  >
+                    <span
+                      className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+                        variable.enabled ? 'right-0.5' : 'left-0.5'
+                      }`}
+                    />
+                  </button>
+                  <span
+                    className={`text-sm font-mono font-medium ${themeClasses.textPrimary}`}
+                  >
+                    {variable.name}
+                  </span>
+                  {variable.isSecret ? (
+                    <span
+                      className={`flex items-center gap-1 text-sm ${themeClasses.textSecondary}`}
+                    >
+                      <LockKey className="w-4 h-4" />
+                      {storedSecrets.includes(variable.name)
+                        ? '••••••'
+                        : 'No value stored'}
+                    </span>
+                  ) : (
+                    <span
+                      className={`text-sm font-mono truncate ${themeClasses.textSecondary}`}
+                    >
+                      {variable.value}
+                    </span>
+                  )}
+                </div>
+                <button
+                  className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                  onClick={() => handleDeleteVariable(variable)}
+                  title="Delete variable"
+                >
+                  <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
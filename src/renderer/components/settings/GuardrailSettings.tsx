@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { GuardrailPolicy, GuardrailRiskLevel } from '../../../shared/types'
+
+// Matches DEFAULT_GUARDRAIL_POLICY in the main process
+const DEFAULT_POLICY: GuardrailPolicy = {
+  enabled: true,
+  askAt: 'high',
+  blockAt: 'critical',
+  allowedPaths: ['/tmp'],
+}
+
+const ASK_LEVELS: Array<{ value: GuardrailRiskLevel; label: string }> = [
+  { value: 'medium', label: 'Medium and above' },
+  { value: 'high', label: 'High and above' },
+  { value: 'critical', label: 'Critical only' },
+]
+
+const BLOCK_LEVELS: Array<{
+  value: GuardrailPolicy['blockAt']
+  label: string
+}> = [
+  { value: 'high', label: 'High and above' },
+  { value: 'critical', label: 'Critical only' },
+  { value: 'never', label: 'Never (ask instead)' },
+]
+
+interface GuardrailSettingsProps {
+  projectPath: string
+}
+
+export function GuardrailSettings({ projectPath }: GuardrailSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [policy, setPolicy] = useState<GuardrailPolicy>(DEFAULT_POLICY)
+  const [allowedPathsText, setAllowedPathsText] = useState('')
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => {
+        const loaded = { ...DEFAULT_POLICY, ...settings?.guardrails }
+        setPolicy(loaded)
+        setAllowedPathsText((loaded.allowedPaths || []).join('\n'))
+      })
+      .catch(error => console.error('Failed to load guardrails:', error))
+  }, [projectPath])
+
+  const savePolicy = async (updates: Partial<GuardrailPolicy>) => {
+    const updated = { ...policy, ...updates }
+    setPolicy(updated)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        guardrails: updated,
+      })
+    } catch (error) {
+      console.error('Failed to save guardrails:', error)
+    }
+  }
+
+  const handleAllowedPathsBlur = () => {
+    savePolicy({
+      allowedPaths: allowedPathsText
+        .split('\n')
+        .map(path => path.trim())
+        .filter(Boolean),
+    })
+  }
+
+  const inputClassName = `w-full px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+          Guardrails
+        </h3>
+        <button
+          className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+            policy.enabled ? 'bg-green-500' : 'bg-gray-400'
+          }`}
+          onClick={() => savePolicy({ enabled: !policy.enabled })}
+          title={policy.enabled ? 'Disable guardrails' : 'Enable guardrails'}
+        >
+          <span
+            className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+              policy.enabled ? 'right-0.5' : 'left-0.5'
+            }`}
+          />
+        </button>
+      </div>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+        Bash commands and file paths are scored for risk before permission rules
+        and auto-accept apply: destructive commands such as rm -rf / or curl |
+        sh are critical; force pushes, git reset --hard, sudo, writes outside
+        the worktree and credential files are high. Risky calls need your
+        approval even with auto-accept on, and the permission card says why.
+      </p>
+
+      <div className={policy.enabled ? '' : 'opacity-50 pointer-events-none'}>
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+              Ask for approval at
+            </div>
+            <select
+              className={inputClassName}
+              onChange={e =>
+                savePolicy({ askAt: e.target.value as GuardrailRiskLevel })
+              }
+              value={policy.askAt}
+            >
+              {ASK_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>
+                  {level.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+              Block at
+            </div>
+            <select
+              className={inputClassName}
+              onChange={e =>
+                savePolicy({
+                  blockAt: e.target.value as GuardrailPolicy['blockAt'],
+                })
+              }
+              value={policy.blockAt}
+            >
+              {BLOCK_LEVELS.map(level => (
+                <option key={level.value} value={level.value}>
+                  {level.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+          Writable paths outside the worktree (one per line)
+        </div>
+        <textarea
+          className={`${inputClassName} font-mono h-24 resize-none`}
+          onBlur={handleAllowedPathsBlur}
+          onChange={e => setAllowedPathsText(e.target.value)}
+          placeholder="/tmp"
+          value={allowedPathsText}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { McpServerEntry } from '../../../shared/types'
+
+// Split an args string like `--db "my db.sqlite" -v` into separate arguments
+const parseArgs = (text: string): string[] =>
+  (text.match(/"[^"]*"|'[^']*'|\S+/g) || []).map(arg =>
+    arg.replace(/^(["'])(.*)\1$/, '$2')
+  )
+
+// Parse KEY=VALUE lines into an env object
+const parseEnv = (text: string): Record<string, string> | undefined => {
+  const entries = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes('='))
+    .map(line => {
+      const index = line.indexOf('=')
+      return [line.slice(0, index).trim(), line.slice(index + 1).trim()]
+    })
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+interface McpServerListProps {
+  title: string
+  description: string
+  servers: McpServerEntry[]
+  onChange: (servers: McpServerEntry[]) => void
+}
+
+function McpServerList({
+  title,
+  description,
+  servers,
+  onChange,
+}: McpServerListProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [name, setName] = useState('')
+  const [command, setCommand] = useState('')
+  const [args, setArgs] = useState('')
+  const [env, setEnv] = useState('')
+
+  const handleAddServer = () => {
+    if (!name.trim() || !command.trim()) return
+
+    const server: McpServerEntry = {
+      id: uuidv4(),
+      name: name.trim(),
+      command: command.trim(),
+      args: parseArgs(args),
+      env: parseEnv(env),
+      enabled: true,
+      createdAt: new Date(),
+    }
+    onChange([...servers, server])
+    setName('')
+    setCommand('')
+    setArgs('')
+    setEnv('')
+  }
+
+  const handleToggleServer = (serverId: string) => {
+    onChange(
+      servers.map(server =>
+        server.id === serverId
+          ? { ...server, enabled: !server.enabled }
+          : server
+      )
+    )
+  }
+
+  const handleDeleteServer = (serverId: string) => {
+    onChange(servers.filter(server => server.id !== serverId))
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div>
+      <h3 className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}>
+        {title}
+      </h3>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+        {description}
+      </p>
+
+      {/* Add Server Form */}
+      <div className="space-y-2 mb-4">
+        <div className="flex items-center gap-2">
+          <input
+            className={`w-40 ${inputClassName}`}
+            onChange={e => setName(e.target.value)}
+            placeholder="Name, e.g. docs"
+            type="text"
+            value={name}
+          />
+          <input
+            className={`flex-1 font-mono ${inputClassName}`}
+            onChange={e => setCommand(e.target.value)}
+            placeholder="Command, e.g. npx"
+            type="text"
+            value={command}
+          />
+          <input
+            className={`flex-1 font-mono ${inputClassName}`}
+            onChange={e => setArgs(e.target.value)}
+            placeholder="Arguments, e.g. -y @acme/docs-mcp"
+            type="text"
+            value={args}
+          />
+        </div>
+        <div className="flex items-start gap-2">
+          <textarea
+            className={`flex-1 font-mono ${inputClassName}`}
+            onChange={e => setEnv(e.target.value)}
+            placeholder="Environment, one KEY=VALUE per line (optional)"
+            rows={2}
+            value={env}
+          />
+          <button
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+            disabled={!name.trim() || !command.trim()}
+            onClick={handleAddServer}
+          >
+            Add server
+          </button>
+        </div>
+      </div>
+
+      {/* Server List */}
+      {servers.length === 0 ? (
+        <div className={`text-sm ${themeClasses.textTertiary} py-4`}>
+          No servers yet.
+        </div>
+      ) : (
+        <div
+          className={`border ${themeClasses.borderPrimary} rounded-lg divide-y`}
+        >
+          {servers.map(server => (
+            <div
+              className="flex items-center justify-between px-4 py-2.5"
+              key={server.id}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <button
+                  className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+                    server.enabled ? 'bg-green-500' : 'bg-gray-400'
+                  }`}
+                  onClick={() => handleToggleServer(server.id)}
+                  title={server.enabled ? 'Disable server' : 'Enable server'}
+                >
+                  <span
+                    className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+                      server.enabled ? 'right-0.5' : 'left-0.5'
+                    }`}
+                  />
+                </button>
+                <span
+                  className={`text-sm font-medium ${themeClasses.textPrimary}`}
+                >
+                  {server.name}
+                </span>
+                <span
+                  className={`text-sm font-mono truncate ${themeClasses.textSecondary}`}
+                >
+                  {[server.command, ...server.args].join(' ')}
+                </span>
+                {server.env && (
+                  <span className={`text-xs ${themeClasses.textTertiary}`}>
+                    {Object.keys(server.env).length} env
+                  </span>
+                )}
+              </div>
+              <button
+                className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                onClick={() => handleDeleteServer(server.id)}
+                title="Delete server"
+              >
+                <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface McpServerSettingsProps {
+  projectPath?: string
+}
+
+export function McpServerSettings({ projectPath }: McpServerSettingsProps) {
+  const [globalServers, setGlobalServers] = useState<McpServerEntry[]>([])
+  const [projectServers, setProjectServers] = useState<McpServerEntry[]>([])
+
+  useEffect(() => {
+    window.App.getAppSettings()
+      .then(settings => setGlobalServers(settings?.mcpServers || []))
+      .catch(error => console.error('Failed to load MCP servers:', error))
+  }, [])
+
+  useEffect(() => {
+    if (!projectPath) return
+
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setProjectServers(settings?.mcpServers || []))
+      .catch(error =>
+        console.error('Failed to load project MCP servers:', error)
+      )
+  }, [projectPath])
+
+  const saveGlobalServers = async (servers: McpServerEntry[]) => {
+    setGlobalServers(servers)
+    try {
+      await window.App.saveAppSettings({ mcpServers: servers })
+    } catch (error) {
+      console.error('Failed to save MCP servers:', error)
+    }
+  }
+
+  const saveProjectServers = async (servers: McpServerEntry[]) => {
+    if (!projectPath) return
+
+    setProjectServers(servers)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        mcpServers: servers,
+      })
+    } catch (error) {
+      console.error('Failed to save project MCP servers:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <McpServerList
+        description="Local stdio MCP servers started for every conversation, in all projects. Their tools still ask for permission like any other tool."
+        onChange={saveGlobalServers}
+        servers={globalServers}
+        title="Global MCP Servers"
+      />
+      {projectPath && (
+        <McpServerList
+          description="Started only for this project's conversations. A project server replaces a global server with the same name."
+          onChange={saveProjectServers}
+          servers={projectServers}
+          title="Project MCP Servers"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { ToolPermissionRule } from '../../../shared/types'
+
+// Tools that can be targeted by a rule
+const RULE_TOOLS = [
+  'Bash',
+  'Read',
+  'Write',
+  'Edit',
+  'Glob',
+  'Grep',
+  'WebFetch',
+  'WebSearch',
+  'NotebookEdit',
+  'Task',
+  'TodoWrite',
+]
+
+// What the pattern is matched against for each tool
+const getPatternPlaceholder = (toolName: string): string => {
+  switch (toolName) {
+    case 'Bash':
+      return 'Command, e.g. pnpm test* or *git push*'
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+      return 'File path, e.g. */src/*'
+    case 'WebFetch':
+      return 'URL, e.g. https://docs.example.com/*'
+    case 'Glob':
+    case 'Grep':
+      return 'Search pattern'
+    default:
+      return 'Leave empty to match every call'
+  }
+}
+
+interface PermissionRulesSettingsProps {
+  projectPath: string
+}
+
+export function PermissionRulesSettings({
+  projectPath,
+}: PermissionRulesSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [rules, setRules] = useState<ToolPermissionRule[]>([])
+  const [toolName, setToolName] = useState('Bash')
+  const [pattern, setPattern] = useState('')
+  const [behavior, setBehavior] = useState<'allow' | 'deny'>('allow')
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setRules(settings?.permissionRules || []))
+      .catch(error => console.error('Failed to load permission rules:', error))
+  }, [projectPath])
+
+  const saveRules = async (updatedRules: ToolPermissionRule[]) => {
+    setRules(updatedRules)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        permissionRules: updatedRules,
+      })
+    } catch (error) {
+      console.error('Failed to save permission rules:', error)
+    }
+  }
+
+  const handleAddRule = () => {
+    const rule: ToolPermissionRule = {
+      id: uuidv4(),
+      toolName,
+      pattern: pattern.trim() || undefined,
+      behavior,
+      createdAt: new Date(),
+    }
+    saveRules([...rules, rule])
+    setPattern('')
+  }
+
+  const handleDeleteRule = (ruleId: string) => {
+    saveRules(rules.filter(rule => rule.id !== ruleId))
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Tool Permission Rules
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          Rules are checked before Claude asks for permission. Deny rules win
+          over allow rules. Use * as a wildcard in patterns.
+        </p>
+
+        {/* Add Rule Form */}
+        <div className="flex items-center gap-2 mb-4">
+          <select
+            className={inputClassName}
+            onChange={e => setBehavior(e.target.value as 'allow' | 'deny')}
+            value={behavior}
+          >
+            <option value="allow">Allow</option>
+            <option value="deny">Deny</option>
+          </select>
+          <select
+            className={inputClassName}
+            onChange={e => setToolName(e.target.value)}
+            value={toolName}
+          >
+            {RULE_TOOLS.map(tool => (
+              <option key={tool} value={tool}>
+                {tool}
+              </option>
+            ))}
+          </select>
+          <input
+            className={`flex-1 ${inputClassName}`}
+            onChange={e => setPattern(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleAddRule()
+            }}
+            placeholder={getPatternPlaceholder(toolName)}
+            type="text"
+            value={pattern}
+          />
+          <button
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors"
+            onClick={handleAddRule}
+          >
+            Add rule
+          </button>
+        </div>
+
+        {/* Rule List */}
+        {rules.length === 0 ? (
+          <div className={`text-sm ${themeClasses.textTertiary} py-4`}>
+            No rules yet. Claude will ask before using tools, unless auto-accept
+            is on.
+          </div>
+        ) : (
+          <div
+            className={`border ${themeClasses.borderPrimary} rounded-lg divide-y`}
+          >
+            {rules.map(rule => (
+              <div
+                className="flex items-center justify-between px-4 py-2.5"
+                key={rule.id}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span
+                    className={`text-xs font-medium px-2 py-0.5 rounded ${
+                      rule.behavior === 'allow'
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-red-100 text-red-800'
+                    }`}
+                  >
+                    {rule.behavior === 'allow' ? 'Allow' : 'Deny'}
+                  </span>
+                  <span
+                    className={`text-sm font-medium ${themeClasses.textPrimary}`}
+                  >
+                    {rule.toolName}
+                  </span>
+                  <span
+                    className={`text-sm font-mono truncate ${themeClasses.textSecondary}`}
+                  >
+                    {rule.pattern || 'all calls'}
+                  </span>
+                </div>
+                <button
+                  className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                  onClick={() => handleDeleteRule(rule.id)}
+                  title="Delete rule"
+                >
+                  <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { RetryPolicy } from '../../../shared/types'
+
+// Matches DEFAULT_RETRY_POLICY in the main process
+const DEFAULT_POLICY: RetryPolicy = {
+  enabled: true,
+  maxAttempts: 3,
+  initialDelaySeconds: 5,
+  maxDelaySeconds: 60,
+}
+
+const RETRY_ATTEMPT_OPTIONS = [1, 2, 3, 5, 8]
+
+export function RetrySettings() {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [policy, setPolicy] = useState<RetryPolicy>(DEFAULT_POLICY)
+
+  useEffect(() => {
+    window.App.getAppSettings()
+      .then(settings =>
+        setPolicy({ ...DEFAULT_POLICY, ...settings?.retryPolicy })
+      )
+      .catch(error => console.error('Failed to load retry policy:', error))
+  }, [])
+
+  const savePolicy = async (updates: Partial<RetryPolicy>) => {
+    const updated = { ...policy, ...updates }
+    setPolicy(updated)
+    try {
+      await window.App.saveAppSettings({ retryPolicy: updated })
+    } catch (error) {
+      console.error('Failed to save retry policy:', error)
+    }
+  }
+
+  const handleDelayChange = (
+    key: 'initialDelaySeconds' | 'maxDelaySeconds',
+    text: string
+  ) => {
+    const parsed = Number.parseInt(text, 10)
+    if (Number.isFinite(parsed) && parsed > 0) savePolicy({ [key]: parsed })
+  }
+
+  const inputClassName = `w-full px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+          Automatic Retries
+        </h3>
+        <button
+          className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+            policy.enabled ? 'bg-green-500' : 'bg-gray-400'
+          }`}
+          onClick={() => savePolicy({ enabled: !policy.enabled })}
+          title={policy.enabled ? 'Disable retries' : 'Enable retries'}
+        >
+          <span
+            className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+              policy.enabled ? 'right-0.5' : 'left-0.5'
+            }`}
+          />
+        </button>
+      </div>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+        When the provider is overloaded, rate limits a run or the network drops,
+        the conversation resumes on its own after a wait that doubles with every
+        retry. Other errors still stop the run.
+      </p>
+
+      <div className={policy.enabled ? '' : 'opacity-50 pointer-events-none'}>
+        <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+          Retries per run
+        </div>
+        <div className="grid grid-cols-5 gap-3 mb-4">
+          {RETRY_ATTEMPT_OPTIONS.map(attempts => (
+            <button
+              className={`p-3 rounded-lg border text-center transition-all ${
+                policy.maxAttempts === attempts
+                  ? `${themeClasses.borderFocus} ${themeClasses.bgTertiary}`
+                  : `${themeClasses.borderSecondary} ${themeClasses.bgCard} hover:${themeClasses.bgTertiary}`
+              }`}
+              key={attempts}
+              onClick={() => savePolicy({ maxAttempts: attempts })}
+            >
+              <div className={`font-medium ${themeClasses.textPrimary}`}>
+                {attempts}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+              First wait (seconds)
+            </div>
+            <input
+              className={inputClassName}
+              min="1"
+              onChange={e =>
+                handleDelayChange('initialDelaySeconds', e.target.value)
+              }
+              type="number"
+              value={policy.initialDelaySeconds}
+            />
+          </div>
+          <div>
+            <div className={`text-xs mb-1 ${themeClasses.textSecondary}`}>
+              Longest wait (seconds)
+            </div>
+            <input
+              className={inputClassName}
+              min="1"
+              onChange={e =>
+                handleDelayChange('maxDelaySeconds', e.target.value)
+              }
+              type="number"
+              value={policy.maxDelaySeconds}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { ToolHook } from '../../../shared/types'
+
+interface ToolHookSettingsProps {
+  projectPath: string
+}
+
+export function ToolHookSettings({ projectPath }: ToolHookSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [hooks, setHooks] = useState<ToolHook[]>([])
+  const [event, setEvent] = useState<'before' | 'after'>('after')
+  const [toolNames, setToolNames] = useState('')
+  const [command, setCommand] = useState('')
+  const [blockOnFailure, setBlockOnFailure] = useState(true)
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setHooks(settings?.toolHooks || []))
+      .catch(error => console.error('Failed to load tool hooks:', error))
+  }, [projectPath])
+
+  const saveHooks = async (updatedHooks: ToolHook[]) => {
+    setHooks(updatedHooks)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        toolHooks: updatedHooks,
+      })
+    } catch (error) {
+      console.error('Failed to save tool hooks:', error)
+    }
+  }
+
+  const handleAddHook = () => {
+    if (!command.trim()) return
+
+    const hook: ToolHook = {
+      id: uuidv4(),
+      event,
+      toolNames: toolNames
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean),
+      command: command.trim(),
+      blockOnFailure: event === 'before' ? blockOnFailure : undefined,
+      enabled: true,
+      createdAt: new Date(),
+    }
+    saveHooks([...hooks, hook])
+    setCommand('')
+  }
+
+  const handleToggleHook = (hookId: string) => {
+    saveHooks(
+      hooks.map(hook =>
+        hook.id === hookId ? { ...hook, enabled: !hook.enabled } : hook
+      )
+    )
+  }
+
+  const handleDeleteHook = (hookId: string) => {
+    saveHooks(hooks.filter(hook => hook.id !== hookId))
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Tool Hooks
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          Shell commands that run in the conversation's worktree before or after
+          a tool call, with the project's environment variables. The tool call
+          is passed as JSON on stdin, with ALMOND_TOOL_NAME and ALMOND_FILE_PATH
+          set. Output is shown in the conversation and sent to Claude.
+        </p>
+
+        {/* Add Hook Form */}
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center gap-2">
+            <select
+              className={inputClassName}
+              onChange={e => setEvent(e.target.value as 'before' | 'after')}
+              value={event}
+            >
+              <option value="before">Before</option>
+              <option value="after">After</option>
+            </select>
+            <input
+              className={`w-48 ${inputClassName}`}
+              onChange={e => setToolNames(e.target.value)}
+              placeholder="Tools, e.g. Edit, Write"
+              type="text"
+              value={toolNames}
+            />
+            <input
+              className={`flex-1 font-mono ${inputClassName}`}
+              onChange={e => setCommand(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleAddHook()
+              }}
+              placeholder={
+                event === 'before'
+                  ? 'Command, e.g. ./scripts/validate-bash.sh'
+                  : 'Command, e.g. pnpm biome format --write .'
+              }
+              type="text"
+              value={command}
+            />
+            <button
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+              disabled={!command.trim()}
+              onClick={handleAddHook}
+            >
+              Add hook
+            </button>
+          </div>
+          {event === 'before' && (
+            <label
+              className={`flex items-center gap-2 text-sm ${themeClasses.textSecondary}`}
+            >
+              <input
+                checked={blockOnFailure}
+                onChange={e => setBlockOnFailure(e.target.checked)}
+                type="checkbox"
+              />
+              Block the tool call when the command fails (non-zero exit)
+            </label>
+          )}
+        </div>
+
+        {/* Hook List */}
+        {hooks.length === 0 ? (
+          <div className={`text-sm ${themeClasses.textTertiary} py-4`}>
+            No hooks yet. Leave tools empty to run a hook for every tool.
+          </div>
+        ) : (
+          <div
+            className={`border ${themeClasses.borderPrimary} rounded-lg divide-y`}
+          >
+            {hooks.map(hook => (
+              <div
+                className="flex items-center justify-between px-4 py-2.5"
+                key={hook.id}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <button
+                    className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+                      hook.enabled ? 'bg-green-500' : 'bg-gray-400'
+                    }`}
+                    onClick={() => handleToggleHook(hook.id)}
+                    title={hook.enabled ? 'Disable hook' : 'Enable hook'}
+                  >
+                    <span
+                      className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+                        hook.enabled ? 'right-0.5' : 'left-0.5'
+                      }`}
+                    />
+                  </button>
+                  <span
+                    className={`text-xs font-medium px-2 py-0.5 rounded ${
+                      hook.event === 'before'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-blue-100 text-blue-800'
+                    }`}
+                  >
+                    {hook.event === 'before' ? 'Before' : 'After'}
+                  </span>
+                  <span
+                    className={`text-sm font-medium ${themeClasses.textPrimary}`}
+                  >
+                    {hook.toolNames.length > 0
+                      ? hook.toolNames.join(', ')
+                      : 'All tools'}
+                  </span>
+                  <span
+                    className={`text-sm font-mono truncate ${themeClasses.textSecondary}`}
+                  >
+                    {hook.command}
+                  </span>
+                  {hook.blockOnFailure && (
+                    <span className={`text-xs ${themeClasses.textTertiary}`}>
+                      blocks on failure
+                    </span>
+                  )}
+                </div>
+                <button
+                  className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                  onClick={() => handleDeleteHook(hook.id)}
+                  title="Delete hook"
+                >
+                  <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash, Eye } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type {
+  WorktreeLinkPlanItem,
+  WorktreeLinkPolicy,
+  WorktreeLinkStrategy,
+} from '../../../shared/types'
+
+// Matches DEFAULT_WORKTREE_LINK_POLICY in the main process
+const DEFAULT_POLICY: WorktreeLinkPolicy = {
+  defaultStrategy: 'symlink',
+  rules: [],
+}
+
+const STRATEGIES: Array<{ value: WorktreeLinkStrategy; label: string }> = [
+  { value: 'symlink', label: 'Symlink' },
+  { value: 'hardlink', label: 'Hard link' },
+  { value: 'clone', label: 'Clone (copy-on-write)' },
+  { value: 'copy', label: 'Copy' },
+  { value: 'skip', label: 'Skip' },
+]
+
+const STRATEGY_STYLES: Record<WorktreeLinkStrategy, string> = {
+  symlink: 'bg-blue-100 text-blue-800',
+  hardlink: 'bg-purple-100 text-purple-800',
+  clone: 'bg-green-100 text-green-800',
+  copy: 'bg-yellow-100 text-yellow-800',
+  skip: 'bg-gray-100 text-gray-700',
+}
+
+interface WorktreeLinkSettingsProps {
+  projectPath: string
+}
+
+export function WorktreeLinkSettings({
+  projectPath,
+}: WorktreeLinkSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [policy, setPolicy] = useState<WorktreeLinkPolicy>(DEFAULT_POLICY)
+  const [pattern, setPattern] = useState('')
+  const [strategy, setStrategy] = useState<WorktreeLinkStrategy>('copy')
+  const [previewItems, setPreviewItems] = useState<
+    WorktreeLinkPlanItem[] | null
+  >(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings =>
+        setPolicy({ ...DEFAULT_POLICY, ...settings?.worktreeLinks })
+      )
+      .catch(error => console.error('Failed to load link settings:', error))
+  }, [projectPath])
+
+  const savePolicy = async (updates: Partial<WorktreeLinkPolicy>) => {
+    const updated = { ...policy, ...updates }
+    setPolicy(updated)
+    setPreviewItems(null)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        worktreeLinks: updated,
+      })
+    } catch (error) {
+      console.error('Failed to save link settings:', error)
+    }
+  }
+
+  const handleAddRule = () => {
+    if (!pattern.trim()) return
+    savePolicy({
+      rules: [
+        ...policy.rules,
+        { id: uuidv4(), pattern: pattern.trim(), strategy },
+      ],
+    })
+    setPattern('')
+  }
+
+  const handlePreview = async () => {
+    setIsPreviewing(true)
+    const result = await window.App.previewWorktreeLinks(projectPath, policy)
+    setPreviewItems(result.items)
+    setPreviewError(result.success ? null : result.error || 'Unknown error')
+    setIsPreviewing(false)
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div>
+      <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+        Ignored Files
+      </h3>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-3`}>
+        Files git ignores (node_modules, .env, build output) are brought into
+        each new worktree. Symlinks share the project's copy but confuse tools
+        that resolve real paths; copies are independent. The first rule whose
+        pattern matches a path decides, using gitignore-style patterns such as
+        node_modules/ or *.log.
+      </p>
+
+      <div className="flex items-center gap-2 mb-3">
+        <span className={`text-sm ${themeClasses.textSecondary}`}>
+          By default
+        </span>
+        <select
+          className={inputClassName}
+          onChange={e =>
+            savePolicy({
+              defaultStrategy: e.target.value as WorktreeLinkStrategy,
+            })
+          }
+          value={policy.defaultStrategy}
+        >
+          {STRATEGIES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Add Rule Form */}
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          className={`flex-1 font-mono ${inputClassName}`}
+          onChange={e => setPattern(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleAddRule()
+          }}
+          placeholder="Pattern, e.g. node_modules/ or .env*"
+          type="text"
+          value={pattern}
+        />
+        <select
+          className={inputClassName}
+          onChange={e => setStrategy(e.target.value as WorktreeLinkStrategy)}
+          value={strategy}
+        >
+          {STRATEGIES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors"
+          onClick={handleAddRule}
+        >
+          Add rule
+        </button>
+      </div>
+
+      {/* Rule List */}
+      {policy.rules.length > 0 && (
+        <div
+          className={`border ${themeClasses.borderPrimary} rounded-lg divide-y mb-3`}
+        >
+          {policy.rules.map(rule => (
+            <div
+              className="flex items-center justify-between px-4 py-2"
+              key={rule.id}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <span
+                  className={`text-xs font-medium px-2 py-0.5 rounded ${STRATEGY_STYLES[rule.strategy]}`}
+                >
+                  {rule.strategy}
+                </span>
+                <span
+                  className={`text-sm font-mono truncate ${themeClasses.textPrimary}`}
+                >
+                  {rule.pattern}
+                </span>
+              </div>
+              <button
+                className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                onClick={() =>
+                  savePolicy({
+                    rules: policy.rules.filter(r => r.id !== rule.id),
+                  })
+                }
+                title="Delete rule"
+              >
+                <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border ${themeClasses.borderPrimary} ${themeClasses.textPrimary} hover:${themeClasses.bgTertiary} transition-colors disabled:opacity-50`}
+        disabled={isPreviewing}
+        onClick={handlePreview}
+      >
+        <Eye className="w-4 h-4" />
+        {isPreviewing ? 'Listing ignored files...' : 'Preview'}
+      </button>
+
+      {previewError && (
+        <div className="text-xs mt-2 text-red-500">{previewError}</div>
+      )}
+      {previewItems && !previewError && (
+        <div
+          className={`mt-2 max-h-64 overflow-y-auto border ${themeClasses.borderPrimary} rounded-lg`}
+        >
+          {previewItems.length === 0 ? (
+            <div className={`text-sm ${themeClasses.textTertiary} p-3`}>
+              This project has no ignored files.
+            </div>
+          ) : (
+            previewItems.map(item => (
+              <div
+                className={`flex items-center gap-3 px-3 py-1.5 text-xs border-t first:border-t-0 ${themeClasses.borderPrimary}`}
+                key={item.path}
+              >
+                <span
+                  className={`font-medium px-2 py-0.5 rounded ${STRATEGY_STYLES[item.strategy]}`}
+                >
+                  {item.strategy}
+                </span>
+                <span
+                  className={`font-mono flex-1 truncate ${themeClasses.textPrimary}`}
+                >
+                  {item.path}
+                  {item.isDirectory && '/'}
+                </span>
+                <span className={themeClasses.textTertiary}>
+                  {item.pattern || 'default'}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react'
+import { FolderOpen } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import { WorktreeLinkSettings } from './WorktreeLinkSettings'
+import { WorktreeSetupSettings } from './WorktreeSetupSettings'
+
+// Matches DEFAULT_BRANCH_NAME_TEMPLATE in the main process
+const DEFAULT_TEMPLATE = 'almondcoder/{slug}-{id}'
+
+const PLACEHOLDER_HELP: Array<[string, string]> = [
+  ['{slug}', 'the prompt, lowercased and hyphenated'],
+  ['{ticket}', 'first ticket in the prompt (ABC-123 or #123)'],
+  ['{id}', 'short unique ID'],
+  ['{user}', 'your OS user name'],
+  ['{date}', 'today, YYYY-MM-DD'],
+  ['{base}', 'the branch the conversation starts from'],
+]
+
+interface WorktreeSettingsProps {
+  projectPath: string
+}
+
+export function WorktreeSettings({ projectPath }: WorktreeSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [worktreeRoot, setWorktreeRoot] = useState('')
+  const [template, setTemplate] = useState('')
+  const [preview, setPreview] = useState<{
+    example: string
+    error: string | null
+  } | null>(null)
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => {
+        setWorktreeRoot(settings?.worktreeRoot || '')
+        setTemplate(settings?.branchNameTemplate || '')
+      })
+      .catch(error => console.error('Failed to load worktree settings:', error))
+  }, [projectPath])
+
+  // Validate the template as it is typed
+  useEffect(() => {
+    window.App.previewBranchTemplate(template.trim())
+      .then(setPreview)
+      .catch(error => console.error('Failed to preview template:', error))
+  }, [template])
+
+  const saveSettings = async (updates: {
+    worktreeRoot?: string
+    branchNameTemplate?: string
+  }) => {
+    try {
+      await window.App.saveProjectSettings(projectPath, updates)
+    } catch (error) {
+      console.error('Failed to save worktree settings:', error)
+    }
+  }
+
+  const handleBrowse = async () => {
+    const folder = await window.App.selectFolder()
+    if (!folder) return
+    setWorktreeRoot(folder)
+    saveSettings({ worktreeRoot: folder })
+  }
+
+  // Invalid templates are kept in the field but never saved
+  const handleTemplateBlur = () => {
+    if (preview?.error) return
+    saveSettings({ branchNameTemplate: template.trim() || undefined })
+  }
+
+  const inputClassName = `w-full px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm font-mono`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+          Worktree Folder
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-3`}>
+          Each conversation works in its own git worktree, created in a folder
+          named after the project inside this one. Changes apply to new
+          conversations.
+        </p>
+        <div className="flex gap-2">
+          <input
+            className={inputClassName}
+            onBlur={() =>
+              saveSettings({ worktreeRoot: worktreeRoot.trim() || undefined })
+            }
+            onChange={e => setWorktreeRoot(e.target.value)}
+            placeholder="~/.almondcoder"
+            type="text"
+            value={worktreeRoot}
+          />
+          <button
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm border ${themeClasses.borderPrimary} ${themeClasses.textPrimary} hover:${themeClasses.bgTertiary} transition-colors`}
+            onClick={handleBrowse}
+          >
+            <FolderOpen className="w-4 h-4" />
+            Browse
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+          Branch Names
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-3`}>
+          Template for the branch each conversation creates. Placeholders
+          without a value are dropped together with the separator next to them;
+          a name that is already taken gets the unique ID appended.
+        </p>
+        <input
+          className={inputClassName}
+          onBlur={handleTemplateBlur}
+          onChange={e => setTemplate(e.target.value)}
+          placeholder={DEFAULT_TEMPLATE}
+          type="text"
+          value={template}
+        />
+        {preview?.error ? (
+          <div className="text-xs mt-1 text-red-500">{preview.error}</div>
+        ) : (
+          preview && (
+            <div className={`text-xs mt-1 ${themeClasses.textSecondary}`}>
+              Example: <span className="font-mono">{preview.example}</span>
+            </div>
+          )
+        )}
+        <div
+          className={`text-xs mt-3 space-y-0.5 ${themeClasses.textTertiary}`}
+        >
+          {PLACEHOLDER_HELP.map(([placeholder, description]) => (
+            <div key={placeholder}>
+              <span className="font-mono">{placeholder}</span> {description}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <WorktreeLinkSettings projectPath={projectPath} />
+
+      <WorktreeSetupSettings projectPath={projectPath} />
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { Trash } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { WorktreeSetupCommand } from '../../../shared/types'
+
+type SetupPhase = WorktreeSetupCommand['phase']
+
+interface WorktreeSetupSettingsProps {
+  projectPath: string
+}
+
+export function WorktreeSetupSettings({
+  projectPath,
+}: WorktreeSetupSettingsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [commands, setCommands] = useState<WorktreeSetupCommand[]>([])
+  const [phase, setPhase] = useState<SetupPhase>('setup')
+  const [command, setCommand] = useState('')
+
+  useEffect(() => {
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setCommands(settings?.setupCommands || []))
+      .catch(error => console.error('Failed to load setup commands:', error))
+  }, [projectPath])
+
+  const saveCommands = async (updatedCommands: WorktreeSetupCommand[]) => {
+    setCommands(updatedCommands)
+    try {
+      await window.App.saveProjectSettings(projectPath, {
+        setupCommands: updatedCommands,
+      })
+    } catch (error) {
+      console.error('Failed to save setup commands:', error)
+    }
+  }
+
+  const handleAddCommand = () => {
+    if (!command.trim()) return
+
+    saveCommands([
+      ...commands,
+      {
+        id: uuidv4(),
+        command: command.trim(),
+        phase,
+        enabled: true,
+        createdAt: new Date(),
+      },
+    ])
+    setCommand('')
+  }
+
+  const handleToggleCommand = (commandId: string) => {
+    saveCommands(
+      commands.map(c =>
+        c.id === commandId ? { ...c, enabled: !c.enabled } : c
+      )
+    )
+  }
+
+  const handleDeleteCommand = (commandId: string) => {
+    saveCommands(commands.filter(c => c.id !== commandId))
+  }
+
+  const inputClassName = `px-3 py-2 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+
+  return (
+    <div>
+      <h3 className={`text-lg font-semibold ${themeClasses.textPrimary}`}>
+        Setup Commands
+      </h3>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-3`}>
+        Setup commands run in order in each new worktree before the agent
+        starts, with the project's environment variables and ALMOND_PROJECT_PATH
+        and ALMOND_WORKTREE_PATH set. If one fails, the conversation pauses so
+        you can retry or skip it. Cleanup commands run before a worktree is
+        removed after a merge or discard.
+      </p>
+
+      {/* Add Command Form */}
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          className={inputClassName}
+          onChange={e => setPhase(e.target.value as SetupPhase)}
+          value={phase}
+        >
+          <option value="setup">Setup</option>
+          <option value="cleanup">Cleanup</option>
+        </select>
+        <input
+          className={`flex-1 font-mono ${inputClassName}`}
+          onChange={e => setCommand(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleAddCommand()
+          }}
+          placeholder={
+            phase === 'setup'
+              ? 'Command, e.g. pnpm install'
+              : 'Command, e.g. docker compose down'
+          }
+          type="text"
+          value={command}
+        />
+        <button
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-black text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+          disabled={!command.trim()}
+          onClick={handleAddCommand}
+        >
+          Add command
+        </button>
+      </div>
+
+      {/* Command List */}
+      {commands.length === 0 ? (
+        <div className={`text-sm ${themeClasses.textTertiary} py-2`}>
+          No setup commands yet.
+        </div>
+      ) : (
+        <div
+          className={`border ${themeClasses.borderPrimary} rounded-lg divide-y`}
+        >
+          {commands.map(c => (
+            <div
+              className="flex items-center justify-between px-4 py-2.5"
+              key={c.id}
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <button
+                  className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 ${
+                    c.enabled ? 'bg-green-500' : 'bg-gray-400'
+                  }`}
+                  onClick={() => handleToggleCommand(c.id)}
+                  title={c.enabled ? 'Disable command' : 'Enable command'}
+                >
+                  <span
+                    className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-transform ${
+                      c.enabled ? 'right-0.5' : 'left-0.5'
+                    }`}
+                  />
+                </button>
+                <span
+                  className={`text-xs font-medium px-2 py-0.5 rounded ${
+                    c.phase === 'setup'
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-orange-100 text-orange-800'
+                  }`}
+                >
+                  {c.phase === 'setup' ? 'Setup' : 'Cleanup'}
+                </span>
+                <span
+                  className={`text-sm font-mono truncate ${themeClasses.textPrimary}`}
+                >
+                  {c.command}
+                </span>
+              </div>
+              <button
+                className={`p-1 rounded hover:${themeClasses.bgInput} transition-colors flex-shrink-0`}
+                onClick={() => handleDeleteCommand(c.id)}
+                title="Delete command"
+              >
+                <Trash className={`w-4 h-4 ${themeClasses.textSecondary}`} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,142 @@
 import { useState, useEffect } from 'react'
 import { Plus, Trash, PencilSimple } from '@phosphor-icons/react'
 import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
-import type { PromptAgent } from '../../../shared/types'
+import type { PromptAgent, SubagentModel } from '../../../shared/types'
+
+// Tools an agent can be restricted to. An empty selection means no restriction.
+const AVAILABLE_TOOLS = [
+  'Read',
+  'Write',
+  'Edit',
+  'Bash',
+  'Glob',
+  'Grep',
+  'Task',
+  'WebFetch',
+  'WebSearch',
+  'TodoWrite',
+  'NotebookEdit',
+]
+
+interface ToolChipsProps {
+  tools: string[]
+  onChange: (tools: string[]) => void
+  mcpTools?: Array<{ name: string; tool: string }> // One entry per enabled MCP server
+}
+
+function ToolChips({ tools, onChange, mcpTools = [] }: ToolChipsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const toggleTool = (tool: string) => {
+    onChange(
+      tools.includes(tool) ? tools.filter(t => t !== tool) : [...tools, tool]
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {[
+        ...AVAILABLE_TOOLS.map(tool => ({ tool, label: tool })),
+        ...mcpTools.map(({ name, tool }) => ({ tool, label: `MCP: ${name}` })),
+      ].map(({ tool, label }) => (
+        <button
+          className={`px-2 py-0.5 rounded text-xs border transition-colors ${
+            tools.includes(tool)
+              ? 'bg-black text-white border-black'
+              : `${themeClasses.bgPrimary} ${themeClasses.textSecondary} ${themeClasses.borderPrimary}`
+          }`}
+          key={tool}
+          onClick={() => toggleTool(tool)}
+          title={
+            tool.startsWith('mcp__') ? `All tools of the ${label} server` : tool
+          }
+          type="button"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+const SUBAGENT_MODELS: Array<{ value: SubagentModel; label: string }> = [
+  { value: 'inherit', label: 'Same as conversation' },
+  { value: 'sonnet', label: 'Sonnet' },
+  { value: 'opus', label: 'Opus' },
+  { value: 'haiku', label: 'Haiku' },
+]
+
+type SubagentFieldValues = Pick<
+  PromptAgent,
+  'isSubagent' | 'description' | 'subagentModel'
+>
+
+interface SubagentFieldsProps {
+  agent: SubagentFieldValues
+  onChange: (updates: SubagentFieldValues) => void
+}
+
+// Subagents are passed to every Claude run; the main agent delegates to them
+// with the Task tool, picking one by its description
+function SubagentFields({ agent, onChange }: SubagentFieldsProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  return (
+    <div className="mt-2">
+      <label
+        className={`flex items-center gap-2 text-xs font-semibold ${themeClasses.textSecondary}`}
+      >
+        <input
+          checked={Boolean(agent.isSubagent)}
+          onChange={e => onChange({ isSubagent: e.target.checked })}
+          type="checkbox"
+        />
+        Subagent - Claude can delegate tasks to it
+      </label>
+      {agent.isSubagent && (
+        <div className="flex gap-2 mt-1">
+          <input
+            className={`flex-1 ${themeClasses.bgPrimary} border-none rounded px-2 py-1 ${themeClasses.textPrimary} focus:outline-none text-xs`}
+            onChange={e => onChange({ description: e.target.value })}
+            placeholder="When should Claude use it? e.g. Reviews diffs for bugs"
+            type="text"
+            value={agent.description || ''}
+          />
+          <select
+            className={`${themeClasses.bgPrimary} border-none rounded px-1 py-1 ${themeClasses.textPrimary} focus:outline-none text-xs`}
+            onChange={e =>
+              onChange({ subagentModel: e.target.value as SubagentModel })
+            }
+            title="Model the subagent runs on"
+            value={agent.subagentModel || 'inherit'}
+          >
+            {SUBAGENT_MODELS.map(model => (
+              <option key={model.value} value={model.value}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  )
+}
 
 interface AgentViewProps {
   agents: PromptAgent[]
   setAgents: (agents: PromptAgent[]) => void
   triggerNewAgent?: boolean
+  projectPath?: string // Used to list the project's MCP servers as agent tools
 }
 
-export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps) {
+export function AgentView({
+  agents,
+  setAgents,
+  triggerNewAgent,
+  projectPath,
+}: AgentViewProps) {
   const { theme } = useTheme()
   const themeClasses = createThemeClasses(theme)
   const isLightTheme = true
@@ -17,6 +144,9 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
   const [editingAgentId, setEditingAgentId] = useState<string | null>(null)
   const [editingAgent, setEditingAgent] = useState<PromptAgent | null>(null)
   const [isCreatingNew, setIsCreatingNew] = useState(false)
+  const [mcpTools, setMcpTools] = useState<
+    Array<{ name: string; tool: string }>
+  >([])
   const [newAgent, setNewAgent] = useState<
     Omit<PromptAgent, 'id' | 'createdAt' | 'updatedAt'>
   >({
@@ -31,6 +161,13 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
     setEditingAgent(null)
   }
 
+  // Load enabled MCP servers so agents can be given their tools
+  useEffect(() => {
+    window.App.getMcpAgentTools(projectPath)
+      .then(setMcpTools)
+      .catch(error => console.error('Failed to load MCP servers:', error))
+  }, [projectPath])
+
   // React to triggerNewAgent prop from parent
   useEffect(() => {
     if (triggerNewAgent) {
@@ -45,6 +182,9 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
         name: newAgent.name,
         systemPrompt: newAgent.systemPrompt,
         tools: newAgent.tools,
+        isSubagent: newAgent.isSubagent,
+        description: newAgent.description,
+        subagentModel: newAgent.subagentModel,
         createdAt: new Date(),
         updatedAt: new Date(),
       }
@@ -141,18 +281,30 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
                 </div>
               </div>
 
-              <div className="flex-1 overflow-hidden">
+              <div className="flex-1 overflow-y-auto">
                 <label className={`text-xs font-semibold ${themeClasses.textSecondary} mb-2 block`}>
                   Prompt
                 </label>
                 <textarea
-                  className={`w-full h-[160px] ${themeClasses.bgPrimary} border-none rounded p-2 ${themeClasses.textPrimary} focus:outline-none text-sm resize-none`}
+                  className={`w-full h-[100px] ${themeClasses.bgPrimary} border-none rounded p-2 ${themeClasses.textPrimary} focus:outline-none text-sm resize-none`}
                   onChange={e => {
                     setNewAgent({ ...newAgent, systemPrompt: e.target.value })
                   }}
                   placeholder="Quick templates above the input box for common development tasks. Customize these prompts for your project needs."
                   value={newAgent.systemPrompt}
                 />
+                <div className={`text-xs font-semibold ${themeClasses.textSecondary} mt-2 mb-1`}>
+                  Tools
+                </div>
+                <ToolChips
+                  mcpTools={mcpTools}
+                  onChange={tools => setNewAgent({ ...newAgent, tools })}
+                  tools={newAgent.tools}
+                />
+                <SubagentFields
+                  agent={newAgent}
+                  onChange={updates => setNewAgent({ ...newAgent, ...updates })}
+                />
               </div>
 
               <div className={`text-xs ${themeClasses.textTertiary} mt-2`}>
@@ -205,12 +357,12 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
                     </div>
                   </div>
 
-                  <div className="flex-1 overflow-hidden">
+                  <div className="flex-1 overflow-y-auto">
                     <label className={`text-xs font-semibold ${themeClasses.textSecondary} mb-2 block`}>
                       Prompt
                     </label>
                     <textarea
-                      className={`w-full h-[160px] ${themeClasses.bgPrimary} border-none rounded p-2 ${themeClasses.textPrimary} focus:outline-none text-sm resize-none`}
+                      className={`w-full h-[100px] ${themeClasses.bgPrimary} border-none rounded p-2 ${themeClasses.textPrimary} focus:outline-none text-sm resize-none`}
                       onChange={e => {
                         if (editingAgent) {
                           setEditingAgent({
@@ -222,6 +374,26 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
                       placeholder="System prompt for this agent"
                       value={editingAgent?.systemPrompt || ''}
                     />
+                    <div className={`text-xs font-semibold ${themeClasses.textSecondary} mt-2 mb-1`}>
+                      Tools
+                    </div>
+                    <ToolChips
+                      mcpTools={mcpTools}
+                      onChange={tools => {
+                        if (editingAgent) {
+                          setEditingAgent({ ...editingAgent, tools })
+                        }
+                      }}
+                      tools={editingAgent?.tools || []}
+                    />
+                    {editingAgent && (
+                      <SubagentFields
+                        agent={editingAgent}
+                        onChange={updates =>
+                          setEditingAgent({ ...editingAgent, ...updates })
+                        }
+                      />
+                    )}
                   </div>
 
                   <div className={`text-xs ${themeClasses.textTertiary} mt-2`}>
@@ -252,6 +424,19 @@ export function AgentView({ agents, setAgents, triggerNewAgent }: AgentViewProps
                     </p>
                   </div>
 
+                  <div className={`text-xs ${themeClasses.textSecondary} mt-2 truncate`}>
+                    Tools: {agent.tools.length > 0 ? agent.tools.join(', ') : 'All'}
+                  </div>
+
+                  {agent.isSubagent && (
+                    <div
+                      className={`text-xs ${themeClasses.textSecondary} mt-1 truncate`}
+                      title={agent.description}
+                    >
+                      Subagent: {agent.description || agent.name}
+                    </div>
+                  )}
+
                   <div className={`text-xs ${themeClasses.textTertiary} mt-2`}>
                     Updated on {formatDate(agent.updatedAt)}
                   </div>
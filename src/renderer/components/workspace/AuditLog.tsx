@@ -0,0 +1,283 @@
+import { useState, useEffect, useMemo } from 'react'
+import { ArrowClockwise, Export } from '@phosphor-icons/react'
+import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
+import type { AuditLogEntry } from '../../../shared/types'
+
+const DECISION_LABELS: Record<AuditLogEntry['decision'], string> = {
+  auto_accepted: 'Auto-accepted',
+  user_accepted: 'User accepted',
+  denied: 'Denied',
+}
+
+const DECISION_STYLES: Record<AuditLogEntry['decision'], string> = {
+  auto_accepted: 'bg-blue-100 text-blue-800',
+  user_accepted: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-800',
+}
+
+const DECIDED_BY_LABELS: Record<AuditLogEntry['decidedBy'], string> = {
+  user: 'User',
+  auto_accept: 'Auto-accept',
+  permission_rule: 'Permission rule',
+  guardrail: 'Guardrail',
+  agent: 'Agent tools',
+  non_interactive: 'Headless run',
+}
+
+// The part of the input worth showing in a row (command, path, URL...)
+const summarizeToolInput = (toolInput: any): string => {
+  if (!toolInput || typeof toolInput !== 'object') return String(toolInput)
+  return (
+    toolInput.command ||
+    toolInput.file_path ||
+    toolInput.notebook_path ||
+    toolInput.url ||
+    toolInput.pattern ||
+    JSON.stringify(toolInput)
+  )
+}
+
+interface AuditLogProps {
+  projectContext: {
+    projectPath: string
+  }
+}
+
+export function AuditLog({ projectContext }: AuditLogProps) {
+  const { theme } = useTheme()
+  const themeClasses = createThemeClasses(theme)
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [decisionFilter, setDecisionFilter] = useState<
+    AuditLogEntry['decision'] | 'all'
+  >('all')
+  const [toolFilter, setToolFilter] = useState('all')
+  const [conversationFilter, setConversationFilter] = useState('all')
+  const [search, setSearch] = useState('')
+
+  const loadEntries = async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await window.App.getAuditLog(projectContext.projectPath))
+    } catch (error) {
+      console.error('Failed to load audit log:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [projectContext.projectPath])
+
+  const toolNames = useMemo(
+    () => [...new Set(entries.map(entry => entry.toolName))].sort(),
+    [entries]
+  )
+
+  // Latest title for each conversation that has entries
+  const conversations = useMemo(() => {
+    const titles = new Map<string, string>()
+    for (const entry of entries) {
+      if (!titles.has(entry.promptId)) {
+        titles.set(entry.promptId, entry.conversationTitle || entry.promptId)
+      }
+    }
+    return [...titles.entries()]
+  }, [entries])
+
+  const filteredEntries = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return entries.filter(
+      entry =>
+        (decisionFilter === 'all' || entry.decision === decisionFilter) &&
+        (toolFilter === 'all' || entry.toolName === toolFilter) &&
+        (conversationFilter === 'all' ||
+          entry.promptId === conversationFilter) &&
+        (!query ||
+          JSON.stringify(entry.toolInput).toLowerCase().includes(query) ||
+          entry.reason?.toLowerCase().includes(query))
+    )
+  }, [entries, decisionFilter, toolFilter, conversationFilter, search])
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const result = await window.App.exportAuditLog(
+      projectContext.projectPath,
+      format,
+      filteredEntries
+    )
+    if (result.error) alert(`Failed to export the audit log: ${result.error}`)
+  }
+
+  const inputClassName = `px-3 py-1.5 border ${themeClasses.borderPrimary} rounded-lg ${themeClasses.bgInput} ${themeClasses.textPrimary} text-sm`
+  const buttonClassName = `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm border ${themeClasses.borderPrimary} ${themeClasses.textPrimary} hover:${themeClasses.bgTertiary} transition-colors disabled:opacity-50`
+
+  return (
+    <div className={`flex flex-col h-full ${themeClasses.bgPrimary} p-6`}>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className={`text-xl font-semibold ${themeClasses.textPrimary}`}>
+          Audit Log
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            className={buttonClassName}
+            disabled={isLoading}
+            onClick={loadEntries}
+            title="Reload the audit log"
+          >
+            <ArrowClockwise className="w-4 h-4" />
+            Refresh
+          </button>
+          <button
+            className={buttonClassName}
+            disabled={filteredEntries.length === 0}
+            onClick={() => handleExport('csv')}
+          >
+            <Export className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            className={buttonClassName}
+            disabled={filteredEntries.length === 0}
+            onClick={() => handleExport('json')}
+          >
+            <Export className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
+      </div>
+      <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+        Every tool call decision in this project's conversations: what was
+        auto-accepted, what you accepted, and what was denied and why. Exports
+        include only the entries matching the filters.
+      </p>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 mb-4">
+        <select
+          className={inputClassName}
+          onChange={e =>
+            setDecisionFilter(
+              e.target.value as AuditLogEntry['decision'] | 'all'
+            )
+          }
+          value={decisionFilter}
+        >
+          <option value="all">All decisions</option>
+          {Object.entries(DECISION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={inputClassName}
+          onChange={e => setToolFilter(e.target.value)}
+          value={toolFilter}
+        >
+          <option value="all">All tools</option>
+          {toolNames.map(toolName => (
+            <option key={toolName} value={toolName}>
+              {toolName}
+            </option>
+          ))}
+        </select>
+        <select
+          className={`max-w-64 ${inputClassName}`}
+          onChange={e => setConversationFilter(e.target.value)}
+          value={conversationFilter}
+        >
+          <option value="all">All conversations</option>
+          {conversations.map(([promptId, title]) => (
+            <option key={promptId} value={promptId}>
+              {title}
+            </option>
+          ))}
+        </select>
+        <input
+          className={`flex-1 ${inputClassName}`}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search commands, paths and reasons"
+          type="text"
+          value={search}
+        />
+      </div>
+
+      {/* Entries */}
+      <div
+        className={`flex-1 overflow-y-auto border ${themeClasses.borderPrimary} rounded-lg`}
+      >
+        {filteredEntries.length === 0 ? (
+          <div className={`text-sm ${themeClasses.textTertiary} p-4`}>
+            {entries.length === 0
+              ? 'No tool calls recorded yet.'
+              : 'No entries match the filters.'}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead
+              className={`sticky top-0 ${themeClasses.bgSecondary} ${themeClasses.textSecondary} text-xs text-left`}
+            >
+              <tr>
+                <th className="px-3 py-2 font-medium">Time</th>
+                <th className="px-3 py-2 font-medium">Conversation</th>
+                <th className="px-3 py-2 font-medium">Tool</th>
+                <th className="px-3 py-2 font-medium">Input</th>
+                <th className="px-3 py-2 font-medium">Decision</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredEntries.map(entry => (
+                <tr
+                  className={`border-t ${themeClasses.borderPrimary} align-top`}
+                  key={entry.id}
+                >
+                  <td
+                    className={`px-3 py-2 whitespace-nowrap ${themeClasses.textSecondary}`}
+                  >
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </td>
+                  <td
+                    className={`px-3 py-2 max-w-48 truncate ${themeClasses.textPrimary}`}
+                    title={entry.conversationTitle}
+                  >
+                    {entry.conversationTitle || entry.promptId}
+                  </td>
+                  <td
+                    className={`px-3 py-2 font-medium ${themeClasses.textPrimary}`}
+                  >
+                    {entry.toolName}
+                  </td>
+                  <td
+                    className={`px-3 py-2 font-mono text-xs max-w-md break-all ${themeClasses.textPrimary}`}
+                  >
+                    {summarizeToolInput(entry.toolInput)}
+                    {entry.inputEdited && (
+                      <span className={`ml-2 ${themeClasses.textTertiary}`}>
+                        (edited)
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded whitespace-nowrap ${DECISION_STYLES[entry.decision]}`}
+                    >
+                      {DECISION_LABELS[entry.decision]}
+                    </span>
+                    <div
+                      className={`text-xs mt-1 ${themeClasses.textSecondary}`}
+                    >
+                      {DECIDED_BY_LABELS[entry.decidedBy]}
+                      {entry.reason && ` - ${entry.reason}`}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { BudgetFields } from '../settings/BudgetSettings'
+import type { BudgetLimits } from '../../../shared/types'
+
+interface BudgetEditorProps {
+  budget?: BudgetLimits
+  projectBudget?: BudgetLimits
+  spentCostUsd?: number
+  onSave: (budget: BudgetLimits) => void
+  onCancel: () => void
+}
+
+/**
+ * Per-conversation budget limits. Empty fields fall back to the project
+ * budget, which is shown as the placeholder; a limit above the project's
+ * has no effect.
+ */
+export function BudgetEditor({
+  budget,
+  projectBudget,
+  spentCostUsd = 0,
+  onSave,
+  onCancel,
+}: BudgetEditorProps) {
+  const [values, setValues] = useState<BudgetLimits>(budget || {})
+
+  return (
+    <div className="bg-[#2D2D2D] border-t border-gray-700 px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-medium text-gray-300">
+          Budget for this conversation
+        </div>
+        <div className="text-xs text-gray-400">
+          Spent so far: ${spentCostUsd.toFixed(2)}
+        </div>
+      </div>
+
+      <BudgetFields
+        inputClassName="px-3 py-1.5 rounded border border-gray-600 bg-[#1E1E1E] text-gray-100 text-xs outline-none focus:border-gray-400"
+        labelClassName="text-gray-400"
+        onChange={setValues}
+        placeholders={projectBudget}
+        value={values}
+      />
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          className="px-3 py-1.5 rounded text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+        <button
+          className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors"
+          onClick={() => onSave(values)}
+        >
+          Save budget
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -19,9 +19,15 @@ import {
   Wrench,
   Plus,
   X,
+  CurrencyDollar,
+  GitFork,
 } from '@phosphor-icons/react'
 import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
 import { PromptInput } from './PromptInput'
+import { ToolInputEditor } from './ToolInputEditor'
+import { BudgetEditor } from './BudgetEditor'
+import { RetryCountdown } from './RetryCountdown'
+import type { SettingsSection } from './Settings'
 import type {
   ConversationHistory,
   EnhancedPromptHistoryItem,
@@ -30,6 +36,10 @@ import type {
   BusyConversation,
   TodoItem,
   TodoList,
+  PromptAgent,
+  BudgetLimits,
+  AgentBackendId,
+  ConversationErrorCode,
 } from '../../../shared/types'
 import { playNotificationSound } from '../../utils/notificationSound'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
@@ -48,6 +58,7 @@ import {
   convertSDKMessageToChat,
   Response,
   createMessageHandler,
+  mergeChatMessages,
   type MessageHandlerConfig,
 } from '../../services/conversationMessageHandler'
 
@@ -57,6 +68,15 @@ interface ProjectContext {
   selectedBranch: string
 }
 
+// Status bar action offered for each classified error
+const ERROR_RECOVERY_LABELS: Partial<Record<ConversationErrorCode, string>> = {
+  auth_failed: 'Re-authenticate',
+  context_overflow: 'Start fresh session',
+  command_not_found: 'Fix PATH',
+  worktree_missing: 'Recreate worktree',
+  git_failed: 'Recreate worktree',
+}
+
 interface ConversationViewProps {
   projectContext?: ProjectContext
   selectedConversation: ConversationHistory
@@ -84,6 +104,8 @@ interface ConversationViewProps {
     totalTokens: number
     model?: string
   }) => void
+  agents?: PromptAgent[]
+  onOpenSettings?: (section: SettingsSection) => void
 }
 
 interface ChatMessage {
@@ -96,11 +118,16 @@ interface ChatMessage {
     | 'result'
     | 'permission_request'
     | 'permission_response'
+    | 'hook_result'
+    | 'setup_step'
   timestamp: Date
 
   // For text messages
   text?: string
   isUser?: boolean // Distinguish user messages from AI messages
+  isPartial?: boolean // Streaming chunk, replaced when the full message arrives
+  messageId?: string // SDK assistant message ID, where a fork can start
+  parentToolUseId?: string // Task call whose subagent produced this message
 
   // For tool use
   toolName?: string
@@ -126,6 +153,24 @@ interface ChatMessage {
   permissionStatus?: 'pending' | 'accepted' | 'cancelled' | 'timeout'
   respondedBy?: 'user' | 'system'
   newPrompt?: string // For cancelled permissions with override
+  editedInput?: Record<string, unknown> // For permissions accepted with user edits
+
+  // For tool hook results (output is in text)
+  hookEvent?: 'before' | 'after'
+  hookCommand?: string
+  exitCode?: number
+  hookBlocked?: boolean
+
+  // For worktree setup steps (output is in text, no exitCode while running)
+  setupCommand?: string
+}
+
+// Setup commands of a new worktree: running, or failed and waiting for the
+// user to retry or skip
+interface WorktreeSetupState {
+  status: 'running' | 'failed'
+  command?: string
+  exitCode?: number
 }
 
 // Response enum is now imported from conversationMessageHandler
@@ -165,7 +210,9 @@ const getToolDescription = (toolName: string, toolInput: any): string => {
             (toolInput.command.length > 50 ? '...' : '')
         : toolInput.description || ''
     case 'Task':
-      return toolInput.description || ''
+      return [toolInput.subagent_type, toolInput.description]
+        .filter(Boolean)
+        .join(': ')
     case 'Grep':
       return `"${toolInput.pattern}" in ${toolInput.path || 'files'}`
     case 'Glob':
@@ -177,6 +224,69 @@ const getToolDescription = (toolName: string, toolInput: any): string => {
   }
 }
 
+// What a subagent did inside a Task call, listed under that call
+function SubagentActivity({ messages }: { messages: ChatMessage[] }) {
+  const { theme } = useTheme()
+  if (messages.length === 0) return null
+
+  const toolCalls = messages.filter(m => m.type === 'tool_use').length
+
+  return (
+    <details
+      className="mb-2 ml-2 pl-3 border-l-2"
+      open
+      style={{ borderColor: theme.border.primary }}
+    >
+      <summary
+        className="text-xs cursor-pointer select-none"
+        style={{ color: theme.text.tertiary }}
+      >
+        Subagent activity - {toolCalls} tool call{toolCalls === 1 ? '' : 's'}
+      </summary>
+      <div className="mt-1 space-y-1">
+        {messages.map(message => {
+          if (message.type === 'text' && message.text) {
+            return (
+              <p
+                className="text-xs whitespace-pre-wrap line-clamp-4"
+                key={message.id}
+                style={{ color: theme.text.secondary }}
+              >
+                {message.text}
+              </p>
+            )
+          }
+          if (message.type === 'tool_use') {
+            const IconComponent = getToolIcon(message.toolName || '')
+            const failed = messages.some(
+              m =>
+                m.type === 'tool_result' &&
+                m.toolUseId === message.toolUseId &&
+                m.isError
+            )
+            return (
+              <div className="flex items-center gap-2 text-xs" key={message.id}>
+                <IconComponent
+                  className="w-3 h-3 flex-shrink-0"
+                  style={{ color: theme.text.tertiary }}
+                />
+                <span style={{ color: theme.text.primary }}>
+                  {message.toolName}
+                </span>
+                <span className="truncate" style={{ color: theme.text.muted }}>
+                  {getToolDescription(message.toolName || '', message.toolInput)}
+                </span>
+                {failed && <span className="text-red-500">failed</span>}
+              </div>
+            )
+          }
+          return null
+        })}
+      </div>
+    </details>
+  )
+}
+
 export function ConversationView({
   projectContext,
   selectedConversation,
@@ -191,6 +301,8 @@ export function ConversationView({
   setPromptHistory,
   loadAndProcessPromptHistory,
   onTokenUsageUpdate,
+  agents = [],
+  onOpenSettings,
 }: ConversationViewProps) {
   const { theme } = useTheme()
   const themeClasses = createThemeClasses(theme)
@@ -205,12 +317,38 @@ export function ConversationView({
   const [selectedBranch, setSelectedBranch] = useState<string>('')
   const [selectedWorktree, setSelectedWorktree] = useState<string | null>(null)
   const [isAutoAcceptEnabled, setIsAutoAcceptEnabled] = useState(false)
+  const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null)
+  const [selectedModel, setSelectedModel] = useState<string | null>(null)
+  const [selectedBackend, setSelectedBackend] =
+    useState<AgentBackendId>('claude-code')
+  const [replayLogPath, setReplayLogPath] = useState<string | undefined>()
+  const [isPlanFirst, setIsPlanFirst] = useState(false)
+  // Request ID of the pending permission whose tool input is being edited
+  const [editingPermissionId, setEditingPermissionId] = useState<
+    string | null
+  >(null)
+  const [projectDefaultModel, setProjectDefaultModel] = useState<
+    string | undefined
+  >(undefined)
+  const [projectBudget, setProjectBudget] = useState<BudgetLimits | undefined>(
+    undefined
+  )
+  const [isEditingBudget, setIsEditingBudget] = useState(false)
+  const [isRecoveringFromError, setIsRecoveringFromError] = useState(false)
+  const [forkingMessageId, setForkingMessageId] = useState<string | null>(
+    null
+  )
 
   const [isWorktreeValid, setIsWorktreeValid] = useState<boolean>(true)
   const [isConversationLogValid, setIsConversationLogValid] =
     useState<boolean>(true)
   const [isInitializingConversation, setIsInitializingConversation] =
     useState<boolean>(false)
+  const [worktreeSetups, setWorktreeSetups] = useState<
+    Map<string, WorktreeSetupState>
+  >(new Map())
+  // Resolves a failed setup's pause with the user's choice, by promptId
+  const setupDecisionsRef = useRef(new Map<string, (retry: boolean) => void>())
 
   const chatContainerRef = useRef<HTMLDivElement>(null)
   const chatMessagesScrollRef = useRef<HTMLDivElement>(null)
@@ -272,13 +410,26 @@ export function ConversationView({
             console.log('📥 No saved auto-accept state, defaulting to false')
             setIsAutoAcceptEnabled(false)
           }
+
+          // Continue with the backend, agent and model the conversation last ran with
+          setSelectedAgentId(prompt?.agentId || null)
+          setSelectedModel(prompt?.model || null)
+          setSelectedBackend(prompt?.backend || 'claude-code')
         } catch (error) {
           console.error('❌ Error loading auto-accept state:', error)
           setIsAutoAcceptEnabled(false)
+          setSelectedAgentId(null)
+          setSelectedModel(null)
+          setSelectedBackend('claude-code')
         }
       } else {
         // New conversation defaults to false
         setIsAutoAcceptEnabled(false)
+        setSelectedAgentId(null)
+        setSelectedModel(null)
+        setSelectedBackend(
+          (projectContext?.selectedTool as AgentBackendId) || 'claude-code'
+        )
       }
     }
 
@@ -290,6 +441,53 @@ export function ConversationView({
     selectedConversation.projectPath,
   ])
 
+  // Load the project's default model (used when no model is picked) and
+  // budget (shown as the fallback in the conversation budget editor)
+  useEffect(() => {
+    const loadDefaultModel = async () => {
+      if (!projectContext?.projectPath) return
+      try {
+        const settings = await window.App.getProjectSettings(
+          projectContext.projectPath
+        )
+        setProjectDefaultModel(settings?.defaultModel)
+        setProjectBudget(settings?.budget)
+      } catch (error) {
+        console.error('❌ Error loading project default model:', error)
+      }
+    }
+
+    loadDefaultModel()
+  }, [projectContext?.projectPath])
+
+  // Stream setup command output into the selected conversation
+  useEffect(() => {
+    return window.App.onWorktreeSetupOutput(update => {
+      if (selectedConversationRef.current.promptId !== update.promptId) return
+      const message: ChatMessage = {
+        id: `setup-${update.stepId}`,
+        type: 'setup_step',
+        setupCommand: update.command,
+        exitCode: update.exitCode,
+        text: update.output,
+        isError: update.exitCode !== undefined && update.exitCode !== 0,
+        timestamp: new Date(),
+      }
+      setChatMessages(prev => {
+        const index = prev.findIndex(m => m.id === message.id)
+        if (index === -1) return [...prev, message]
+        const updated = [...prev]
+        updated[index] = message
+        return updated
+      })
+    })
+  }, [])
+
+  // Close the budget editor when switching conversations
+  useEffect(() => {
+    setIsEditingBudget(false)
+  }, [selectedConversation.promptId])
+
   // Validate worktree and conversation log existence for existing conversations
   useEffect(() => {
     const validateConversation = async () => {
@@ -375,6 +573,7 @@ export function ConversationView({
 
           fileContent.forEach((entry: any, index: number) => {
             const { timestamp, data, from } = entry
+            const firstEntryMessage = messages.length
 
             // Capture session_id from any message that has it
             if (data.content?.session_id) {
@@ -440,6 +639,7 @@ export function ConversationView({
                     type: 'text',
                     text: block.text,
                     timestamp: new Date(timestamp),
+                    messageId: data.content.message.id,
                   })
                 }
 
@@ -513,9 +713,46 @@ export function ConversationView({
                 permissionStatus: data.content.status,
                 respondedBy: data.content.respondedBy,
                 newPrompt: data.content.newPrompt,
+                editedInput: data.content.editedInput,
+                timestamp: new Date(timestamp),
+              })
+            }
+
+            // 8. Handle project tool hook results
+            if (data.content?.type === 'hook_result') {
+              messages.push({
+                id: `hook-${index}`,
+                type: 'hook_result',
+                toolName: data.content.toolName,
+                hookEvent: data.content.event,
+                hookCommand: data.content.command,
+                exitCode: data.content.exitCode,
+                hookBlocked: data.content.blocked,
+                text: data.content.output,
+                isError: data.content.exitCode !== 0,
+                timestamp: new Date(timestamp),
+              })
+            }
+
+            // 9. Handle worktree setup command results
+            if (data.content?.type === 'setup_step') {
+              messages.push({
+                id: `setup-${index}`,
+                type: 'setup_step',
+                setupCommand: data.content.command,
+                exitCode: data.content.exitCode,
+                text: data.content.output,
+                isError: data.content.exitCode !== 0,
                 timestamp: new Date(timestamp),
               })
             }
+
+            // Subagent messages are shown under the Task call that started them
+            if (data.content?.parent_tool_use_id) {
+              for (const message of messages.slice(firstEntryMessage)) {
+                message.parentToolUseId = data.content.parent_tool_use_id
+              }
+            }
           })
 
           setChatMessages(messages)
@@ -611,6 +848,7 @@ export function ConversationView({
               requestId: request.requestId,
               toolName: request.toolName,
               toolInput: request.toolInput,
+              guardrail: request.guardrail,
               status: 'pending',
             },
           },
@@ -735,8 +973,15 @@ export function ConversationView({
   // handleAcceptPermission - Accept Button Click Handler
   // ============================================================================
   // LOGIC: When user clicks "Accept" button, we send approval to main process
-  // and update the conversation status back to 'running' so Claude can continue
-  const handleAcceptPermission = async () => {
+  // and update the conversation status back to 'running' so Claude can continue.
+  // updatedInput is set when the user edited the tool input before accepting.
+  // alwaysAllow asks the main process to also save a project allow rule.
+  const handleAcceptPermission = async (
+    updatedInput?: Record<string, unknown>,
+    alwaysAllow?: boolean
+  ) => {
+    setEditingPermissionId(null)
+
     const busyState = busyConversations.get(selectedConversation.promptId)
 
     // Validation: Ensure there's actually a pending permission
@@ -770,6 +1015,7 @@ export function ConversationView({
               toolName,
               status: 'accepted',
               respondedBy: 'user',
+              editedInput: updatedInput,
             },
           },
           Response.system
@@ -781,12 +1027,299 @@ export function ConversationView({
 
     // Send acceptance to main process via IPC
     // The main process's canUseTool callback is waiting for this response
-    window.App.acceptToolPermission({ requestId })
+    window.App.acceptToolPermission({ requestId, updatedInput, alwaysAllow })
 
     // ✅ State update handled by main process (in acceptListener callback)
     // No need to manually update here - main process will broadcast the change
   }
 
+  // ============================================================================
+  // handleAlwaysAllowPermission - "Always allow" Button Click Handler
+  // ============================================================================
+  // LOGIC: Accept the pending request and save a project allow rule for this
+  // tool. Bash rules are scoped to the exact command; other tools are allowed
+  // entirely. Rules can be widened or removed in Settings. The main process
+  // builds the rule, since the command shown here has its secrets masked.
+  const handleAlwaysAllowPermission = () =>
+    handleAcceptPermission(undefined, true)
+
+  // ============================================================================
+  // Per-Conversation Run Options (backend, agent, model)
+  // ============================================================================
+  // LOGIC: For existing conversations the selection is persisted right away so
+  // the header and the next run pick it up. New conversations record it on save.
+  const savePromptRunOptions = async (
+    updates: Partial<EnhancedPromptHistoryItem>
+  ) => {
+    if (isNewConversation || !selectedConversation.promptId) return
+
+    try {
+      const projectPath =
+        projectContext?.projectPath || selectedConversation.projectPath
+      const currentHistory = await window.App.getEnhancedPromptHistory(
+        projectPath
+      )
+      const prompt = currentHistory.find(
+        (p: any) => p.id === selectedConversation.promptId
+      )
+      if (!prompt) return
+
+      await window.App.updateEnhancedPrompt({
+        ...prompt,
+        startExecutionTime: new Date(prompt.startExecutionTime),
+        createdAt: new Date(prompt.createdAt),
+        updatedAt: new Date(),
+        ...updates,
+      })
+      await loadAndProcessPromptHistory(projectPath)
+      console.log('✅ Run options saved:', updates)
+    } catch (error) {
+      console.error('❌ Error saving run options:', error)
+    }
+  }
+
+  const handleAgentSelect = (agentId: string | null) => {
+    setSelectedAgentId(agentId)
+    const agent = agents.find(a => a.id === agentId)
+    savePromptRunOptions({ agentId: agent?.id, agentName: agent?.name })
+  }
+
+  // The replay backend needs a recorded log; keep the current backend if the
+  // user closes the file picker
+  const handleBackendSelect = async (backend: AgentBackendId) => {
+    if (backend === 'replay') {
+      const logPath = await window.App.selectReplayLog(
+        projectContext?.projectPath
+      )
+      if (!logPath) return
+      setReplayLogPath(logPath)
+    }
+    setSelectedBackend(backend)
+  }
+
+  const handleModelSelect = (model: string | null) => {
+    setSelectedModel(model)
+    savePromptRunOptions({ model: model || undefined })
+  }
+
+  // Resume a run that was cut off by an app restart. With a stored session
+  // Claude continues the conversation; otherwise the prompt is run again.
+  const handleResumeInterrupted = () => {
+    const busyState = busyConversations.get(selectedConversation.promptId)
+    const currentPrompt = promptHistory.find(
+      p => p.id === selectedConversation.promptId
+    )
+    handleExecute(
+      busyState?.sessionId
+        ? 'The app was closed while you were working. Continue where you left off.'
+        : currentPrompt?.prompt || ''
+    )
+  }
+
+  const handleBudgetSave = (budget: BudgetLimits) => {
+    setIsEditingBudget(false)
+    savePromptRunOptions({ budget })
+  }
+
+  // ============================================================================
+  // Error Recovery Actions
+  // ============================================================================
+  // LOGIC: Classified errors (errorCode, see conversation-errors.ts) get a
+  // recovery action in the status bar. A successful action clears the error
+  // state so the conversation is ready for the next message.
+  const clearConversationError = () =>
+    window.App.clearConversationState(selectedConversation.promptId)
+
+  // The stored session can't be continued, so the next message starts a new
+  // one in the same worktree
+  const handleStartFreshSession = async () => {
+    await savePromptRunOptions({ aiSessionId: undefined })
+    setSelectedConversation(prev => ({ ...prev, aiSessionId: undefined }))
+    await clearConversationError()
+  }
+
+  const handleFixPath = async () => {
+    setIsRecoveringFromError(true)
+    try {
+      const result = await window.App.refreshShellPath()
+      if (!result.success) {
+        alert(
+          `Could not fix PATH: ${result.error}. Install Node.js or start AlmondCoder from a terminal.`
+        )
+        return
+      }
+      console.log('🔧 Found node at', result.nodePath)
+      await clearConversationError()
+    } finally {
+      setIsRecoveringFromError(false)
+    }
+  }
+
+  // The new worktree starts from the conversation's branch on a branch of its
+  // own, which the conversation switches to. Sessions belong to their working directory, so the next message
+  // also starts a fresh session.
+  const handleRecreateWorktree = async () => {
+    const currentPrompt = promptHistory.find(
+      p => p.id === selectedConversation.promptId
+    )
+    if (!projectContext || !currentPrompt) return
+
+    setIsRecoveringFromError(true)
+    try {
+      const result = await window.App.createWorktree(
+        projectContext.projectPath,
+        currentPrompt.branch,
+        currentPrompt.prompt,
+        currentPrompt.id,
+        undefined
+      )
+      if (!result.success) {
+        window.App.updateConversationState({
+          promptId: currentPrompt.id,
+          updates: {
+            status: 'error',
+            error: result.error,
+            errorCode: result.errorCode,
+            errorHint: result.errorHint,
+          },
+        })
+        return
+      }
+
+      const { worktreePath, branchName } = result.worktreeInfo
+      await savePromptRunOptions({
+        worktreePath,
+        branch: branchName,
+        aiSessionId: undefined,
+      })
+      setSelectedConversation(prev => ({
+        ...prev,
+        worktreePath,
+        aiSessionId: undefined,
+      }))
+      await clearConversationError()
+    } finally {
+      setIsRecoveringFromError(false)
+    }
+  }
+
+  // ============================================================================
+  // Fork From Message
+  // ============================================================================
+  // LOGIC: Main creates the fork (worktree at the parent's state as of the
+  // message, conversation log up to it, prompt with forkedFrom) and the view
+  // switches to it. The fork's first message continues from that point.
+  const handleForkFromMessage = async (messageId: string) => {
+    if (!projectContext) return
+
+    setForkingMessageId(messageId)
+    try {
+      const result = await window.App.forkConversation(
+        projectContext.projectPath,
+        selectedConversation.promptId,
+        messageId
+      )
+      if (!result.success) {
+        alert(`Failed to fork conversation: ${result.error}`)
+        return
+      }
+
+      await loadAndProcessPromptHistory(projectContext.projectPath)
+      setSelectedConversation({
+        promptId: result.prompt.id,
+        projectPath: projectContext.projectPath,
+        worktreePath: result.prompt.worktreePath,
+        aiSessionId: undefined,
+        conversationLogPath: result.conversationLogPath,
+        createdAt: new Date(result.prompt.createdAt),
+        updatedAt: new Date(result.prompt.updatedAt),
+      })
+    } finally {
+      setForkingMessageId(null)
+    }
+  }
+
+  const handleErrorRecovery = (errorCode?: ConversationErrorCode) => {
+    switch (errorCode) {
+      case 'auth_failed':
+        onOpenSettings?.('authentication')
+        break
+      case 'context_overflow':
+        handleStartFreshSession()
+        break
+      case 'command_not_found':
+        handleFixPath()
+        break
+      case 'worktree_missing':
+      case 'git_failed':
+        handleRecreateWorktree()
+        break
+    }
+  }
+
+  // ============================================================================
+  // Worktree Setup Commands
+  // ============================================================================
+  // LOGIC: A new worktree runs the project's setup commands (installs, codegen,
+  // migrations) before the agent starts. A failing command pauses the
+  // conversation until the user retries, continuing from that command, or
+  // skips setup and starts the agent in the worktree as it is.
+  const updateWorktreeSetup = (
+    promptId: string,
+    setup: WorktreeSetupState | null
+  ) => {
+    setWorktreeSetups(prev => {
+      const updated = new Map(prev)
+      if (setup) {
+        updated.set(promptId, setup)
+      } else {
+        updated.delete(promptId)
+      }
+      return updated
+    })
+  }
+
+  const runWorktreeSetup = async (
+    projectPath: string,
+    promptId: string,
+    worktreePath: string,
+    conversationLogPath: string
+  ) => {
+    const run = (fromCommandId?: string) => {
+      updateWorktreeSetup(promptId, { status: 'running' })
+      return window.App.runWorktreeSetup({
+        projectPath,
+        promptId,
+        worktreePath,
+        conversationLogPath,
+        fromCommandId,
+      })
+    }
+
+    let result = await run()
+    while (!result.success) {
+      updateWorktreeSetup(promptId, {
+        status: 'failed',
+        command: result.command,
+        exitCode: result.exitCode,
+      })
+      const retry = await new Promise<boolean>(resolve => {
+        setupDecisionsRef.current.set(promptId, resolve)
+      })
+      setupDecisionsRef.current.delete(promptId)
+      if (!retry) {
+        console.log('⏭️ [Setup] Skipped failed setup for:', promptId)
+        break
+      }
+      result = await run(result.failedCommandId)
+    }
+    updateWorktreeSetup(promptId, null)
+  }
+
+  const handleSetupDecision = (retry: boolean) => {
+    setupDecisionsRef.current.get(selectedConversation.promptId)?.(retry)
+  }
+
   const handleExecute = async (promptText: string) => {
     if (!projectContext || !promptText.trim()) {
       console.warn('Cannot execute: missing project context or prompt')
@@ -794,6 +1327,8 @@ export function ConversationView({
     }
 
     const userPromptText = promptText.trim()
+    const selectedAgent = agents.find(agent => agent.id === selectedAgentId)
+    const runModel = selectedModel || projectDefaultModel
 
     // ============================================================================
     // Permission Cancellation Logic
@@ -906,10 +1441,10 @@ export function ConversationView({
         promptId = uuidv4()
 
         // Create conversation log path
-        const projectName =
-          projectContext.projectPath.split('/').pop() || 'unknown'
-        const appDataPath = await window.App.getAppDataPath()
-        conversationLogPath = `${appDataPath}/${projectName}/prompts/conversations/${promptId}.json`
+        conversationLogPath = await window.App.getConversationLogPath(
+          projectContext.projectPath,
+          promptId
+        )
 
         // Save user message to conversation log immediately (before setSelectedConversation)
         // This ensures the useEffect that loads messages will find the user message in the file
@@ -934,7 +1469,11 @@ export function ConversationView({
         )
         console.log('Created Successfully Worktree', worktreeResult)
         if (!worktreeResult.success) {
-          throw new Error(worktreeResult.error || 'Failed to create worktree')
+          throw new Error(
+            worktreeResult.errorHint
+              ? `${worktreeResult.error}\n\n${worktreeResult.errorHint}`
+              : worktreeResult.error || 'Failed to create worktree'
+          )
         }
 
         worktreePath = worktreeResult.worktreeInfo.worktreePath
@@ -972,6 +1511,12 @@ export function ConversationView({
           projectPath: projectContext.projectPath,
           worktreePath,
           autoAcceptEnabled: isAutoAcceptEnabled,
+          agentId: selectedAgent?.id,
+          agentName: selectedAgent?.name,
+          model: runModel,
+          backend: selectedBackend,
+          replayLogPath:
+            selectedBackend === 'replay' ? replayLogPath : undefined,
           createdAt: new Date(),
           updatedAt: new Date(),
         })
@@ -990,6 +1535,13 @@ export function ConversationView({
           }))
         )
 
+        await runWorktreeSetup(
+          projectContext.projectPath,
+          promptId,
+          worktreePath,
+          conversationLogPath
+        )
+
         // Check if prompt file has existing session ID (from previous execution)
         const savedPrompt = updatedHistory.find((p: any) => p.id === promptId)
         sessionId = savedPrompt?.aiSessionId
@@ -1016,11 +1568,28 @@ export function ConversationView({
           )
 
           if (!worktreeResult.success) {
+            // Show it in the status bar with the recreate action
+            window.App.updateConversationState({
+              promptId,
+              updates: {
+                status: 'error',
+                error: worktreeResult.error,
+                errorCode: worktreeResult.errorCode,
+                errorHint: worktreeResult.errorHint,
+              },
+            })
             throw new Error(worktreeResult.error || 'Failed to create worktree')
           }
 
           worktreePath = worktreeResult.worktreeInfo.worktreePath
           conversation.worktreePath = worktreePath
+
+          await runWorktreeSetup(
+            projectContext.projectPath,
+            promptId,
+            worktreePath,
+            conversationLogPath
+          )
         }
 
         // Load session ID from database if not in memory
@@ -1093,7 +1662,7 @@ export function ConversationView({
           setChatMessages(prev => {
             // Double-check still selected before committing update
             if (selectedConversationRef.current.promptId === promptId) {
-              return [...prev, ...messages]
+              return mergeChatMessages(prev, messages)
             }
             return prev // Don't update if conversation changed
           })
@@ -1159,7 +1728,9 @@ export function ConversationView({
             prompt: userPromptText,
             workingDirectory: worktreePath,
             allowedTools: ['Read', 'Glob', 'Grep'],
-            permissionMode: 'default', // Changed: Always use 'default' to enable canUseTool callback
+            // 'plan' makes Claude propose a plan via ExitPlanMode before editing;
+            // otherwise 'default' so every tool goes through canUseTool
+            permissionMode: isPlanFirst ? 'plan' : 'default',
             resume: sessionId,
 
             // ✨ Permission system parameters:
@@ -1167,6 +1738,10 @@ export function ConversationView({
             promptId, // Which conversation is making this request
             conversationTitle: userPromptText.substring(0, 200), // Display name for UI
             autoAcceptEnabled: freshAutoAcceptEnabled, // ✅ FIX: Use fresh value from DB, not stale state
+            agentId: selectedAgent?.id, // Main process resolves system prompt and tools
+            model: runModel,
+            projectPath: projectContext.projectPath, // For project permission rules
+            backend: selectedBackend, // Claude SDK, a CLI agent or a log replay
           },
           handleClaudeMessage // Pass the callback here
         )
@@ -1367,6 +1942,16 @@ export function ConversationView({
                 onExecute={handleExecute}
                 onAbort={handleAbort}
                 onWorktreeSelect={setSelectedWorktree}
+                agents={agents}
+                onAgentSelect={handleAgentSelect}
+                onBackendSelect={handleBackendSelect}
+                onModelSelect={handleModelSelect}
+                onPlanFirstChange={setIsPlanFirst}
+                isPlanFirst={isPlanFirst}
+                projectModel={projectDefaultModel}
+                selectedAgentId={selectedAgentId}
+                selectedBackend={selectedBackend}
+                selectedModel={selectedModel}
                 projectContext={projectContext}
                 selectedBranch={selectedBranch}
               />
@@ -1415,6 +2000,11 @@ export function ConversationView({
               return null
             }
 
+            // Subagent messages - shown under their Task call instead
+            if (message.parentToolUseId) {
+              return null
+            }
+
             // Text message from User or Claude
             if (message.type === 'text') {
               if (message.isUser) {
@@ -1431,8 +2021,18 @@ export function ConversationView({
                 )
               }
               // Claude message - left aligned, minimal styling with optional connecting line
+              const busyStatus = busyConversations.get(
+                selectedConversation.promptId
+              )?.status
+              const canFork =
+                message.messageId &&
+                !message.isPartial &&
+                busyStatus !== 'running' &&
+                busyStatus !== 'waiting_permission' &&
+                busyStatus !== 'queued' &&
+                busyStatus !== 'retrying'
               return (
-                <div className="mb-4 flex" key={message.id}>
+                <div className="mb-4 flex group" key={message.id}>
                   {/* Connecting line */}
                   {hasConnectingLine && (
                     <div
@@ -1449,6 +2049,123 @@ export function ConversationView({
                     style={{ fontSize: 'var(--font-size-base)' }}
                   >
                     {message.text}
+                    {message.isPartial && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                    )}
+                  </div>
+                  {/* Fork button - start a new conversation from here */}
+                  {canFork && (
+                    <button
+                      className={`ml-2 self-start p-1 rounded ${themeClasses.textTertiary} hover:${themeClasses.bgTertiary} transition-opacity ${
+                        forkingMessageId === message.messageId
+                          ? 'opacity-100 animate-pulse'
+                          : 'opacity-0 group-hover:opacity-100'
+                      }`}
+                      disabled={forkingMessageId !== null}
+                      onClick={() =>
+                        message.messageId &&
+                        handleForkFromMessage(message.messageId)
+                      }
+                      title="Fork from here: new conversation and worktree continuing from this message"
+                    >
+                      <GitFork className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              )
+            }
+
+            // Plan review card (ExitPlanMode in plan mode)
+            // LOGIC: The plan is approved/rejected through the normal permission
+            // flow. The tool_result tells us how a past plan was resolved.
+            if (
+              message.type === 'tool_use' &&
+              message.toolName === 'ExitPlanMode'
+            ) {
+              const planResult = chatMessages.find(
+                m =>
+                  m.type === 'tool_result' && m.toolUseId === message.toolUseId
+              )
+              const pendingPermission = busyConversations.get(
+                selectedConversation.promptId
+              )?.pendingPermission
+              const isAwaitingReview =
+                !planResult && pendingPermission?.toolName === 'ExitPlanMode'
+
+              return (
+                <div className="mb-4 flex" key={message.id}>
+                  {hasConnectingLine && (
+                    <div
+                      className="w-0.5 mr-3 border-l-2 border-dotted"
+                      style={{
+                        borderColor: theme.border.hover,
+                      }}
+                    />
+                  )}
+                  <div
+                    className="flex-1 rounded-lg border overflow-hidden"
+                    style={{ borderColor: theme.border.primary }}
+                  >
+                    <div
+                      className="flex items-center justify-between px-4 py-2 border-b"
+                      style={{
+                        backgroundColor: theme.background.labels,
+                        borderColor: theme.border.primary,
+                      }}
+                    >
+                      <div className="flex items-center gap-2">
+                        <ClipboardText
+                          className="w-4 h-4"
+                          style={{ color: theme.text.tertiary }}
+                        />
+                        <span
+                          className="font-medium"
+                          style={{ color: theme.text.primary }}
+                        >
+                          Proposed plan
+                        </span>
+                      </div>
+                      <span
+                        className="text-xs"
+                        style={{ color: theme.text.muted }}
+                      >
+                        {isAwaitingReview
+                          ? 'Awaiting review'
+                          : planResult?.isError
+                            ? 'Rejected'
+                            : planResult
+                              ? 'Approved'
+                              : ''}
+                      </span>
+                    </div>
+                    <div
+                      className={`px-4 py-3 whitespace-pre-wrap select-text cursor-text ${
+                        isLightTheme ? 'text-gray-700' : 'text-gray-300'
+                      }`}
+                      style={{ fontSize: 'var(--font-size-base)' }}
+                    >
+                      {message.toolInput?.plan}
+                    </div>
+                    {isAwaitingReview && (
+                      <div
+                        className="flex items-center justify-between gap-3 px-4 py-2 border-t"
+                        style={{ borderColor: theme.border.primary }}
+                      >
+                        <span
+                          className="text-xs"
+                          style={{ color: theme.text.muted }}
+                        >
+                          To reject, type your feedback below and Claude will
+                          revise the plan.
+                        </span>
+                        <button
+                          className="bg-gray-900 text-white hover:bg-gray-800 px-3 py-1 rounded text-xs font-medium transition-colors"
+                          onClick={() => handleAcceptPermission()}
+                        >
+                          Approve and start editing
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               )
@@ -1517,6 +2234,15 @@ export function ConversationView({
                       )}
                     </div>
 
+                    {/* Nested subagent activity for Task calls */}
+                    {message.toolName === 'Task' && (
+                      <SubagentActivity
+                        messages={chatMessages.filter(
+                          m => m.parentToolUseId === message.toolUseId
+                        )}
+                      />
+                    )}
+
                     {/* Code block for Write tool with content */}
                     {hasWriteContent && (
                       <div
@@ -1876,7 +2602,9 @@ export function ConversationView({
                     }`}
                   >
                     {isAccepted
-                      ? 'Permission accepted'
+                      ? message.editedInput
+                        ? 'Permission accepted with edits'
+                        : 'Permission accepted'
                       : 'Permission cancelled'}{' '}
                     • {message.toolName}
                     {isCancelled &&
@@ -1887,6 +2615,98 @@ export function ConversationView({
               )
             }
 
+            // Tool hook result - command, exit code and output
+            if (message.type === 'hook_result') {
+              return (
+                <div className="mb-4 flex" key={message.id}>
+                  {hasConnectingLine && (
+                    <div
+                      className="w-0.5 mr-3 border-l-2 border-dotted"
+                      style={{
+                        borderColor: isLightTheme
+                          ? 'rgba(209, 213, 219, 0.3)' // light theme border.secondary
+                          : 'rgba(55, 65, 81, 0.3)', // dark theme border.secondary
+                      }}
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div
+                      className={`text-xs ${
+                        message.isError
+                          ? 'text-red-400'
+                          : isLightTheme
+                            ? 'text-gray-500'
+                            : 'text-gray-400'
+                      }`}
+                    >
+                      {message.hookBlocked
+                        ? 'Blocked by hook'
+                        : `Hook ${message.hookEvent === 'before' ? 'before' : 'after'}`}{' '}
+                      • {message.toolName} •{' '}
+                      <span className="font-mono">{message.hookCommand}</span> •
+                      exit {message.exitCode}
+                    </div>
+                    {message.text && (
+                      <pre
+                        className={`mt-1 text-xs font-mono whitespace-pre-wrap max-h-40 overflow-y-auto rounded p-2 ${
+                          isLightTheme
+                            ? 'bg-gray-100 text-gray-700'
+                            : 'bg-gray-800 text-gray-300'
+                        }`}
+                      >
+                        {message.text}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+              )
+            }
+
+            // Worktree setup command - command, exit code and output
+            if (message.type === 'setup_step') {
+              const isRunning = message.exitCode === undefined
+              return (
+                <div className="mb-4 flex" key={message.id}>
+                  {hasConnectingLine && (
+                    <div
+                      className="w-0.5 mr-3 border-l-2 border-dotted"
+                      style={{
+                        borderColor: isLightTheme
+                          ? 'rgba(209, 213, 219, 0.3)' // light theme border.secondary
+                          : 'rgba(55, 65, 81, 0.3)', // dark theme border.secondary
+                      }}
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div
+                      className={`text-xs ${
+                        message.isError
+                          ? 'text-red-400'
+                          : isLightTheme
+                            ? 'text-gray-500'
+                            : 'text-gray-400'
+                      }`}
+                    >
+                      Setup •{' '}
+                      <span className="font-mono">{message.setupCommand}</span>{' '}
+                      • {isRunning ? 'running...' : `exit ${message.exitCode}`}
+                    </div>
+                    {message.text && (
+                      <pre
+                        className={`mt-1 text-xs font-mono whitespace-pre-wrap max-h-40 overflow-y-auto rounded p-2 ${
+                          isLightTheme
+                            ? 'bg-gray-100 text-gray-700'
+                            : 'bg-gray-800 text-gray-300'
+                        }`}
+                      >
+                        {message.text}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+              )
+            }
+
             return null
           })}
         </div>
@@ -1926,6 +2746,47 @@ export function ConversationView({
       ) : (
         !isNewConversation && (
           <div className="flex-shrink-0">
+            {/* Tool Input Editor - Shown when editing a pending tool call */}
+            {(() => {
+              const pendingPermission = busyConversations.get(
+                selectedConversation.promptId
+              )?.pendingPermission
+              if (
+                !pendingPermission ||
+                pendingPermission.requestId !== editingPermissionId
+              ) {
+                return null
+              }
+              return (
+                <ToolInputEditor
+                  key={pendingPermission.requestId}
+                  onApprove={updatedInput =>
+                    handleAcceptPermission(updatedInput)
+                  }
+                  onCancel={() => setEditingPermissionId(null)}
+                  toolInput={pendingPermission.toolInput}
+                  toolName={pendingPermission.toolName}
+                />
+              )
+            })()}
+
+            {/* Budget Editor - Per-conversation limits */}
+            {isEditingBudget &&
+              (() => {
+                const currentPrompt = promptHistory.find(
+                  p => p.id === selectedConversation.promptId
+                )
+                return (
+                  <BudgetEditor
+                    budget={currentPrompt?.budget}
+                    onCancel={() => setIsEditingBudget(false)}
+                    onSave={handleBudgetSave}
+                    projectBudget={projectBudget}
+                    spentCostUsd={currentPrompt?.totalCostUsd}
+                  />
+                )
+              })()}
+
             {/* Status Bar - Above Input */}
             {/* ================================================================ */}
             {/* LOGIC: Show different status based on conversation state:        */}
@@ -1940,13 +2801,61 @@ export function ConversationView({
                   const busyState = busyConversations.get(
                     selectedConversation.promptId
                   )
+                  const setup = worktreeSetups.get(
+                    selectedConversation.promptId
+                  )
+
+                  // Show worktree setup progress, or the command that failed
+                  if (setup?.status === 'running') {
+                    return (
+                      <span className="text-sm text-gray-300">
+                        Running setup commands...
+                      </span>
+                    )
+                  }
+                  if (setup?.status === 'failed') {
+                    return (
+                      <div className="flex flex-col">
+                        <span className="text-sm text-red-300">
+                          Setup failed: {setup.command} exited with{' '}
+                          {setup.exitCode}
+                        </span>
+                        <span className="text-xs text-gray-400">
+                          Retry once it's fixed, or skip setup and start the
+                          agent anyway
+                        </span>
+                      </div>
+                    )
+                  }
 
                   // Show pending permission details
                   if (
                     busyState?.status === 'waiting_permission' &&
                     busyState.pendingPermission
                   ) {
-                    const { toolName } = busyState.pendingPermission
+                    const { toolName, guardrail } = busyState.pendingPermission
+                    if (toolName === 'ExitPlanMode') {
+                      return (
+                        <span className="text-sm text-white">
+                          Plan ready - approve it, or type feedback for a
+                          revised plan
+                        </span>
+                      )
+                    }
+                    // Guardrails ask even with auto-accept on, so say why
+                    if (guardrail) {
+                      return (
+                        <div className="flex flex-col">
+                          <span className="text-sm text-orange-300">
+                            {toolName} - {guardrail.level} risk, needs your
+                            approval
+                          </span>
+                          <span className="text-xs text-gray-400">
+                            {guardrail.reasons.join(' · ')}
+                          </span>
+                        </div>
+                      )
+                    }
                     return (
                       <span className="text-sm text-white">
                         {toolName} - Do you want to accept changes?
@@ -1954,6 +2863,62 @@ export function ConversationView({
                     )
                   }
 
+                  // Show queue position while waiting for a free run slot
+                  if (busyState?.status === 'queued') {
+                    return (
+                      <span className="text-sm text-purple-300">
+                        Queued #{busyState.queuePosition} - starts when a
+                        running conversation finishes
+                      </span>
+                    )
+                  }
+
+                  // Show the transient error and when the next attempt starts
+                  if (busyState?.status === 'retrying') {
+                    return (
+                      <span className="text-sm text-yellow-300">
+                        {busyState.error} - retry {busyState.retryAttempt} of{' '}
+                        {busyState.maxRetryAttempts} in{' '}
+                        <RetryCountdown nextRetryAt={busyState.nextRetryAt} />
+                      </span>
+                    )
+                  }
+
+                  // Show why the run was interrupted (app closed mid-run)
+                  if (busyState?.status === 'interrupted') {
+                    return (
+                      <span className="text-sm text-orange-300">
+                        Interrupted: {busyState.error}
+                      </span>
+                    )
+                  }
+
+                  // Show which budget limit stopped the last run
+                  if (busyState?.status === 'budget_exceeded') {
+                    return (
+                      <span className="text-sm text-orange-300">
+                        Budget exceeded: {busyState.error}. Raise the limit to
+                        continue.
+                      </span>
+                    )
+                  }
+
+                  // Show the error and how to recover from it
+                  if (busyState?.status === 'error') {
+                    return (
+                      <div className="flex flex-col">
+                        <span className="text-sm text-red-300">
+                          Error: {busyState.error}
+                        </span>
+                        {busyState.errorHint && (
+                          <span className="text-xs text-gray-400">
+                            {busyState.errorHint}
+                          </span>
+                        )}
+                      </div>
+                    )
+                  }
+
                   // Show running indicator with spinner
                   if (busyState?.status === 'running') {
                     return (
@@ -1985,8 +2950,114 @@ export function ConversationView({
                 })()}
               </div>
 
-              {/* RIGHT SIDE: Auto Accept toggle + Accept button */}
+              {/* RIGHT SIDE: Budget + Auto Accept toggle + Accept button */}
               <div className="flex items-center gap-3">
+                {/* Queue Controls - Move to the front or leave the queue */}
+                {busyConversations.get(selectedConversation.promptId)
+                  ?.status === 'queued' && (
+                  <>
+                    <button
+                      className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={() =>
+                        window.App.moveQueuedRun(
+                          selectedConversation.promptId,
+                          0
+                        )
+                      }
+                      title="Start this conversation before the other queued ones"
+                    >
+                      Run next
+                    </button>
+                    <button
+                      className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={handleAbort}
+                      title="Remove this conversation from the queue"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                )}
+
+                {/* Setup Controls - Continue after a failed setup command */}
+                {worktreeSetups.get(selectedConversation.promptId)?.status ===
+                  'failed' && (
+                  <>
+                    <button
+                      className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={() => handleSetupDecision(false)}
+                      title="Start the agent without finishing setup"
+                    >
+                      Skip
+                    </button>
+                    <button
+                      className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={() => handleSetupDecision(true)}
+                      title="Run setup again from the failed command"
+                    >
+                      Retry
+                    </button>
+                  </>
+                )}
+
+                {/* Retry Controls - Stop waiting for the next attempt */}
+                {busyConversations.get(selectedConversation.promptId)
+                  ?.status === 'retrying' && (
+                  <button
+                    className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                    onClick={handleAbort}
+                    title="Stop retrying this run"
+                  >
+                    Stop retrying
+                  </button>
+                )}
+
+                {/* Recovery Button - The action for a classified error */}
+                {(() => {
+                  const busyState = busyConversations.get(
+                    selectedConversation.promptId
+                  )
+                  const label =
+                    busyState?.status === 'error' && busyState.errorCode
+                      ? ERROR_RECOVERY_LABELS[busyState.errorCode]
+                      : undefined
+                  if (!label) return null
+                  return (
+                    <button
+                      className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors disabled:opacity-50"
+                      disabled={isRecoveringFromError}
+                      onClick={() => handleErrorRecovery(busyState?.errorCode)}
+                    >
+                      {isRecoveringFromError ? 'Working...' : label}
+                    </button>
+                  )
+                })()}
+
+                {/* Resume Button - Restart an interrupted run */}
+                {busyConversations.get(selectedConversation.promptId)
+                  ?.status === 'interrupted' && (
+                  <button
+                    className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors"
+                    onClick={handleResumeInterrupted}
+                    title="Resume this conversation from its saved session"
+                  >
+                    Resume
+                  </button>
+                )}
+
+                {/* Budget Button - Shows spend, opens the budget editor */}
+                <button
+                  className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-700 transition-colors"
+                  onClick={() => setIsEditingBudget(prev => !prev)}
+                  title="Set cost, turn and time limits for this conversation"
+                >
+                  <CurrencyDollar className="w-3.5 h-3.5" />
+                  {(
+                    promptHistory.find(
+                      p => p.id === selectedConversation.promptId
+                    )?.totalCostUsd || 0
+                  ).toFixed(2)}
+                </button>
+
                 {/* Auto Accept Toggle */}
                 <button
                   className={`relative w-14 h-7 rounded-full transition-colors ${
@@ -2067,15 +3138,51 @@ export function ConversationView({
                 </button>
                 <span className="text-xs text-gray-300">Auto accept</span>
 
+                {/* Edit Button - Adjust the tool input before accepting */}
+                {busyConversations.get(selectedConversation.promptId)
+                  ?.status === 'waiting_permission' &&
+                  busyConversations.get(selectedConversation.promptId)
+                    ?.pendingPermission?.toolName !== 'ExitPlanMode' && (
+                    <button
+                      className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={() =>
+                        setEditingPermissionId(
+                          busyConversations.get(selectedConversation.promptId)
+                            ?.pendingPermission?.requestId || null
+                        )
+                      }
+                      title="Edit the tool input before accepting"
+                    >
+                      Edit
+                    </button>
+                  )}
+
+                {/* Always Allow Button - Not offered for plan review */}
+                {busyConversations.get(selectedConversation.promptId)
+                  ?.status === 'waiting_permission' &&
+                  busyConversations.get(selectedConversation.promptId)
+                    ?.pendingPermission?.toolName !== 'ExitPlanMode' && (
+                    <button
+                      className="border border-gray-500 text-gray-200 hover:bg-gray-700 px-3 py-1.5 rounded text-sm font-medium transition-colors"
+                      onClick={handleAlwaysAllowPermission}
+                      title="Accept and always allow this in this project (editable in Settings)"
+                    >
+                      Always allow
+                    </button>
+                  )}
+
                 {/* Accept Button or Spinner */}
                 {busyConversations.get(selectedConversation.promptId)
                   ?.status === 'waiting_permission' && (
                   <button
                     className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors"
-                    onClick={handleAcceptPermission}
+                    onClick={() => handleAcceptPermission()}
                     title="Accept this tool execution"
                   >
-                    Accept
+                    {busyConversations.get(selectedConversation.promptId)
+                      ?.pendingPermission?.toolName === 'ExitPlanMode'
+                      ? 'Approve plan'
+                      : 'Accept'}
                   </button>
                 )}
               </div>
@@ -2090,7 +3197,11 @@ export function ConversationView({
                 }
                 isExecuting={
                   busyConversations.get(selectedConversation.promptId)
-                    ?.status === 'running'
+                    ?.status === 'running' ||
+                  busyConversations.get(selectedConversation.promptId)
+                    ?.status === 'queued' ||
+                  busyConversations.get(selectedConversation.promptId)
+                    ?.status === 'retrying'
                 }
                 isNewConversation={false}
                 onBranchSelect={setSelectedBranch}
@@ -2105,6 +3216,16 @@ export function ConversationView({
                   }
                 }}
                 onWorktreeSelect={setSelectedWorktree}
+                agents={agents}
+                onAgentSelect={handleAgentSelect}
+                onBackendSelect={handleBackendSelect}
+                onModelSelect={handleModelSelect}
+                onPlanFirstChange={setIsPlanFirst}
+                isPlanFirst={isPlanFirst}
+                projectModel={projectDefaultModel}
+                selectedAgentId={selectedAgentId}
+                selectedBackend={selectedBackend}
+                selectedModel={selectedModel}
                 projectContext={projectContext}
                 selectedBranch={selectedBranch}
               />
@@ -82,6 +82,15 @@ interface ConflictResolution {
   resolvedContent: string
 }
 
+// Conversation branches are named from the project's branch template, so they
+// are recognized by the prompt history; the default prefix still catches
+// branches whose conversation was deleted
+const isConversationBranch = (
+  branchName: string,
+  conversationBranches: Set<string>
+): boolean =>
+  conversationBranches.has(branchName) || branchName.startsWith('almondcoder/')
+
 const checkNodesOverlap = (node1: Node, node2: Node): boolean => {
   const nodeWidth = 180
   const nodeHeight = 60
@@ -137,7 +146,7 @@ const BranchNodeLabel = ({
     )
   }
 
-  // Child branch (almondcoder/): Nested card design
+  // Child (conversation) branch: Nested card design
   return (
     <div
       style={{
@@ -256,6 +265,9 @@ export function Overview({
     new Set(['main', 'master'])
   )
   const [selectedBranch, setSelectedBranch] = useState<string | null>(null)
+  const [conversationBranches, setConversationBranches] = useState<Set<string>>(
+    new Set()
+  )
 
   useEffect(() => {
     if (projectContext?.projectPath) {
@@ -269,7 +281,10 @@ export function Overview({
       // No drag in progress - reset all nodes to normal colors
       setNodes(prevNodes =>
         prevNodes.map(node => {
-          const isParentBranch = !node.id.startsWith('almondcoder/')
+          const isParentBranch = !isConversationBranch(
+            node.id,
+            conversationBranches
+          )
           const branch = gitData?.branches.find(b => b.name === node.id)
           if (!branch) return node
 
@@ -313,14 +328,17 @@ export function Overview({
       // Drag in progress - style the dragged node
       setNodes(prevNodes =>
         prevNodes.map(node => {
-          const isParentBranch = !node.id.startsWith('almondcoder/')
+          const isParentBranch = !isConversationBranch(
+            node.id,
+            conversationBranches
+          )
           const isBeingDragged = node.id === draggedNodeId
           const branch = gitData?.branches.find(b => b.name === node.id)
           if (!branch) return node
 
           const promptText = node.data.promptText || branch.subject || undefined
 
-          // Only apply dark styling to child branches (almondcoder/) being dragged
+          // Only apply dark styling to child (conversation) branches being dragged
           const shouldApplyDragStyle = isBeingDragged && !isParentBranch
 
           const nodeStyle = {
@@ -360,7 +378,7 @@ export function Overview({
         })
       )
     }
-  }, [draggedNodeId, selectedBranch, gitData])
+  }, [draggedNodeId, selectedBranch, gitData, conversationBranches])
 
   const loadGitData = async () => {
     try {
@@ -388,9 +406,16 @@ export function Overview({
         projectContext.projectPath
       )
       const promptMap = new Map(promptHistory.map(p => [p.branch, p.prompt]))
+      const branchesOfConversations = new Set([...promptMap.keys()] as string[])
 
       setGitData(data)
-      generateNodesAndEdges(data, worktreeBranches, promptMap)
+      setConversationBranches(branchesOfConversations)
+      generateNodesAndEdges(
+        data,
+        worktreeBranches,
+        promptMap,
+        branchesOfConversations
+      )
     } catch (error) {
       console.error('Error loading git data:', error)
     } finally {
@@ -401,18 +426,18 @@ export function Overview({
   const generateNodesAndEdges = (
     data: GitBranchGraph,
     worktreeBranches: Set<string>,
-    promptMap: Map<string, string>
+    promptMap: Map<string, string>,
+    conversationBranches: Set<string>
   ) => {
     const nodePositions = new Map<string, { x: number; y: number }>()
 
-    // Filter branches: only show almondcoder/ branches that have worktrees, and all non-almondcoder branches
+    // Filter branches: only show conversation branches that have worktrees, and all other branches
     const filteredBranches = data.branches.filter(branch => {
-      const isAlmondcoderBranch = branch.name.startsWith('almondcoder/')
-      if (isAlmondcoderBranch) {
-        // Only show almondcoder branches that have associated worktrees
+      if (isConversationBranch(branch.name, conversationBranches)) {
+        // Only show conversation branches that have associated worktrees
         return worktreeBranches.has(branch.name)
       }
-      // Show all non-almondcoder branches (like main, master, feature branches, etc.)
+      // Show all other branches (like main, master, feature branches, etc.)
       return true
     })
 
@@ -440,8 +465,11 @@ export function Overview({
       }
 
       // Light theme node styling
-      // Parent branches (non-almondcoder) get gray background, child branches stay white
-      const isParentBranch = !branch.name.startsWith('almondcoder/')
+      // Parent branches get gray background, child (conversation) branches stay white
+      const isParentBranch = !isConversationBranch(
+        branch.name,
+        conversationBranches
+      )
 
       // Check if this node is being dragged over (target of drag)
       const isBeingDraggedOver =
@@ -501,9 +529,9 @@ export function Overview({
     // Build branch tree for sidebar
     const tree: Record<string, string[]> = {}
 
-    // Get parent branches (non-almondcoder branches)
+    // Get parent branches (non-conversation branches)
     const parentBranches = filteredBranches.filter(
-      b => !b.name.startsWith('almondcoder/')
+      b => !isConversationBranch(b.name, conversationBranches)
     )
 
     // Initialize tree with empty arrays for each parent
@@ -511,9 +539,9 @@ export function Overview({
       tree[parent.name] = []
     })
 
-    // Assign almondcoder branches to their parent branches
+    // Assign conversation branches to their parent branches
     const almondcoderBranches = filteredBranches.filter(b =>
-      b.name.startsWith('almondcoder/')
+      isConversationBranch(b.name, conversationBranches)
     )
 
     almondcoderBranches.forEach(almondBranch => {
@@ -609,8 +637,8 @@ export function Overview({
   const handleMergeClick = async () => {
     if (!dropAction || !projectContext) return
 
-    // Validate target branch - should not be an almondcoder/ branch
-    if (dropAction.targetNode.id.startsWith('almondcoder/')) {
+    // Validate target branch - should not be a conversation branch
+    if (isConversationBranch(dropAction.targetNode.id, conversationBranches)) {
       alert(
         'Cannot merge into a worktree branch. Please select a regular branch like main or master.'
       )
@@ -1018,7 +1046,7 @@ export function Overview({
                   )}
                 </button>
 
-                {/* Child Branches (almondcoder/) */}
+                {/* Child (conversation) branches */}
                 {isExpanded && childBranches.length > 0 && (
                   <div className="ml-6 mt-1 space-y-1">
                     {childBranches.map(childBranch => (
@@ -1,6 +1,20 @@
 import { useState, useRef, useEffect } from 'react'
-import { Plus, X, ArrowUp, CaretDown, Square } from '@phosphor-icons/react'
+import {
+  Plus,
+  X,
+  ArrowUp,
+  CaretDown,
+  Square,
+  Robot,
+  Cpu,
+  ClipboardText,
+  Terminal,
+  type Icon,
+} from '@phosphor-icons/react'
 import { useTheme } from '../../theme/ThemeContext'
+import { CLAUDE_MODELS } from '../../lib/models'
+import { AGENT_BACKENDS } from '../../lib/backends'
+import type { AgentBackendId, PromptAgent } from '../../../shared/types'
 
 interface PromptInputProps {
   onExecute: (prompt: string) => void
@@ -14,6 +28,80 @@ interface PromptInputProps {
   onWorktreeSelect: (worktree: string | null) => void
   getAvailableBranchesForNewPrompt: () => string[]
   onNewConversation?: () => void
+  agents?: PromptAgent[]
+  selectedAgentId?: string | null
+  onAgentSelect?: (agentId: string | null) => void
+  selectedModel?: string | null
+  projectModel?: string // Project default, shown on the "default" option
+  onModelSelect?: (model: string | null) => void
+  isPlanFirst?: boolean
+  onPlanFirstChange?: (enabled: boolean) => void
+  selectedBackend?: AgentBackendId
+  onBackendSelect?: (backend: AgentBackendId) => void
+}
+
+interface DropdownOption {
+  id: string | null
+  label: string
+  description: string
+}
+
+interface OptionDropdownProps {
+  icon: Icon
+  title: string
+  options: DropdownOption[]
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+}
+
+// Compact upward-opening picker used for per-run options (backend, agent, model)
+function OptionDropdown({
+  icon: OptionIcon,
+  title,
+  options,
+  selectedId,
+  onSelect,
+}: OptionDropdownProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const selected = options.find(option => option.id === selectedId)
+
+  return (
+    <div className="relative">
+      <button
+        className="flex items-center gap-2 px-3 py-1.5 text-xs rounded border transition-colors text-gray-700 bg-gray-50 hover:bg-gray-100 border-gray-300"
+        onClick={() => setIsOpen(!isOpen)}
+        title={`${title}: ${selected?.label || options[0]?.label}`}
+      >
+        <OptionIcon className="w-3 h-3" />
+        <span className="truncate max-w-[120px]">
+          {selected?.label || options[0]?.label}
+        </span>
+        <CaretDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 rounded-lg shadow-xl z-20 min-w-[240px] max-h-48 overflow-y-auto bg-white border border-gray-300">
+          {options.map(option => (
+            <button
+              className={`w-full text-left px-4 py-2.5 first:rounded-t-lg last:rounded-b-lg transition-colors hover:bg-gray-50 ${
+                option.id === selectedId ? 'bg-gray-50' : ''
+              }`}
+              key={option.id ?? 'none'}
+              onClick={() => {
+                onSelect(option.id)
+                setIsOpen(false)
+              }}
+            >
+              <div className="text-sm text-gray-700">{option.label}</div>
+              <div className="text-xs mt-0.5 truncate text-gray-500">
+                {option.description}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
 }
 
 export function PromptInput({
@@ -28,6 +116,16 @@ export function PromptInput({
   onWorktreeSelect,
   getAvailableBranchesForNewPrompt,
   onNewConversation,
+  agents = [],
+  selectedAgentId = null,
+  onAgentSelect,
+  selectedModel = null,
+  projectModel,
+  onModelSelect,
+  isPlanFirst = false,
+  onPlanFirstChange,
+  selectedBackend = 'claude-code',
+  onBackendSelect,
 }: PromptInputProps) {
   const { theme } = useTheme()
   const isLightTheme = true
@@ -40,6 +138,12 @@ export function PromptInput({
   const [pillSearchText, setPillSearchText] = useState('')
   const [isBranchDropdownOpen, setIsBranchDropdownOpen] = useState(false)
 
+  const defaultModel = CLAUDE_MODELS.find(model => model.id === projectModel)
+  const defaultModelLabel = defaultModel
+    ? `Default (${defaultModel.label})`
+    : 'Default model'
+  const isClaudeBackend = selectedBackend === 'claude-code'
+
   const pillDropdownRef = useRef<HTMLDivElement>(null)
 
   // Close pill dropdown when clicking outside
@@ -310,6 +414,80 @@ export function PromptInput({
               ))}
             </div>
 
+            {/* Plan First Toggle - Runs in plan mode and asks for plan approval */}
+            {onPlanFirstChange && isClaudeBackend && (
+              <button
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded border transition-colors ${
+                  isPlanFirst
+                    ? 'text-white bg-gray-900 hover:bg-gray-800 border-gray-900'
+                    : 'text-gray-700 bg-gray-50 hover:bg-gray-100 border-gray-300'
+                }`}
+                onClick={() => onPlanFirstChange(!isPlanFirst)}
+                title={
+                  isPlanFirst
+                    ? 'Plan first is ON - Claude proposes a plan for review before editing'
+                    : 'Plan first is OFF - Claude starts working right away'
+                }
+              >
+                <ClipboardText className="w-3 h-3" />
+                <span>Plan first</span>
+              </button>
+            )}
+
+            {/* Backend Dropdown - A conversation keeps the backend it started with */}
+            {isNewConversation && onBackendSelect && (
+              <OptionDropdown
+                icon={Terminal}
+                onSelect={id => onBackendSelect(id as AgentBackendId)}
+                options={AGENT_BACKENDS}
+                selectedId={selectedBackend}
+                title="Agent backend"
+              />
+            )}
+
+            {/* Agent Dropdown - Applies the agent's system prompt and tools */}
+            {agents.length > 0 && onAgentSelect && (
+              <OptionDropdown
+                icon={Robot}
+                onSelect={onAgentSelect}
+                options={[
+                  {
+                    id: null,
+                    label: 'No agent',
+                    description: 'Default Claude Code behaviour',
+                  },
+                  ...agents.map(agent => ({
+                    id: agent.id,
+                    label: agent.name,
+                    description:
+                      agent.tools.length > 0
+                        ? agent.tools.join(', ')
+                        : 'All tools',
+                  })),
+                ]}
+                selectedId={selectedAgentId}
+                title="Prompt agent"
+              />
+            )}
+
+            {/* Model Dropdown - Empty selection uses the project/provider default */}
+            {onModelSelect && isClaudeBackend && (
+              <OptionDropdown
+                icon={Cpu}
+                onSelect={onModelSelect}
+                options={[
+                  {
+                    id: null,
+                    label: defaultModelLabel,
+                    description: 'Project or provider default',
+                  },
+                  ...CLAUDE_MODELS,
+                ]}
+                selectedId={selectedModel}
+                title="Model"
+              />
+            )}
+
             {/* Branch Dropdown - Only show for new conversations */}
             {isNewConversation && (
               <div className="relative">
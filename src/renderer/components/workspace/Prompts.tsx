@@ -3,16 +3,20 @@ import {
   ChatCircle,
   GitDiff,
   GitBranch,
+  GitFork,
   Plus,
   GridFour,
   Info,
   Terminal,
   Keyboard,
+  Robot,
+  Cpu,
 } from '@phosphor-icons/react'
 import { useTheme, createThemeClasses } from '../../theme/ThemeContext'
 import { AgentView } from './AgentView'
 import { ConversationView } from './ConversationView'
 import { DiffView } from './DiffView'
+import type { SettingsSection } from './Settings'
 
 import type {
   EnhancedPromptHistoryItem,
@@ -30,9 +34,10 @@ interface ProjectContext {
 
 interface PromptsProps {
   projectContext?: ProjectContext
+  onOpenSettings?: (section: SettingsSection) => void
 }
 
-export function Prompts({ projectContext }: PromptsProps) {
+export function Prompts({ projectContext, onOpenSettings }: PromptsProps) {
   const { theme } = useTheme()
   const themeClasses = createThemeClasses(theme)
   const isLightTheme = true
@@ -80,6 +85,12 @@ export function Prompts({ projectContext }: PromptsProps) {
             sessionId: state.sessionId,
             pendingPermission: state.pendingPermission,
             error: state.error,
+            errorCode: state.errorCode,
+            errorHint: state.errorHint,
+            queuePosition: state.queuePosition,
+            retryAttempt: state.retryAttempt,
+            maxRetryAttempts: state.maxRetryAttempts,
+            nextRetryAt: state.nextRetryAt,
           })
         })
 
@@ -120,6 +131,12 @@ export function Prompts({ projectContext }: PromptsProps) {
             sessionId: state.sessionId,
             pendingPermission: state.pendingPermission,
             error: state.error,
+            errorCode: state.errorCode,
+            errorHint: state.errorHint,
+            queuePosition: state.queuePosition,
+            retryAttempt: state.retryAttempt,
+            maxRetryAttempts: state.maxRetryAttempts,
+            nextRetryAt: state.nextRetryAt,
           })
 
           return newMap
@@ -325,12 +342,23 @@ export function Prompts({ projectContext }: PromptsProps) {
         return 'bg-green-500'
       case 'old':
         return 'bg-gray-500'
+      case 'interrupted':
+        return 'bg-orange-500'
     }
   }
 
   // Get conversation state color and label
   const getConversationStatusColor = (
-    status: 'idle' | 'running' | 'waiting_permission' | 'completed' | 'error'
+    status:
+      | 'idle'
+      | 'running'
+      | 'waiting_permission'
+      | 'completed'
+      | 'error'
+      | 'budget_exceeded'
+      | 'queued'
+      | 'interrupted'
+      | 'retrying'
   ) => {
     const colors = {
       running: {
@@ -353,6 +381,26 @@ export function Prompts({ projectContext }: PromptsProps) {
         label: 'Error',
         icon: '🔴',
       },
+      budget_exceeded: {
+        bg: 'bg-orange-500',
+        label: 'Budget exceeded',
+        icon: '🟠',
+      },
+      queued: {
+        bg: 'bg-purple-500',
+        label: 'Queued',
+        icon: '🟣',
+      },
+      interrupted: {
+        bg: 'bg-orange-500',
+        label: 'Interrupted',
+        icon: '🟠',
+      },
+      retrying: {
+        bg: 'bg-yellow-500',
+        label: 'Retrying',
+        icon: '🟡',
+      },
       idle: {
         bg: 'bg-gray-500',
         label: 'Idle',
@@ -404,6 +452,28 @@ export function Prompts({ projectContext }: PromptsProps) {
     return selectedPrompt?.branch || ''
   }
 
+  // Get the prompt agent name for the selected conversation
+  const getAgentName = (): string => {
+    if (selectedConversation.promptId === '+new') {
+      return ''
+    }
+    const selectedPrompt = promptHistory.find(
+      p => p.id === selectedConversation.promptId
+    )
+    return selectedPrompt?.agentName || ''
+  }
+
+  // Get the model chosen for the selected conversation
+  const getModelName = (): string => {
+    if (selectedConversation.promptId === '+new') {
+      return ''
+    }
+    const selectedPrompt = promptHistory.find(
+      p => p.id === selectedConversation.promptId
+    )
+    return selectedPrompt?.model || ''
+  }
+
   // Get branch name for context widget
   const getBranchForWidget = (): string => {
     if (selectedConversation.promptId === '+new') {
@@ -619,11 +689,11 @@ export function Prompts({ projectContext }: PromptsProps) {
                   console.log('Selected prompt:', prompt.id)
                   setViewMode('prompts')
 
-                  // Extract project name from projectPath (e.g., /Users/user/almondcoder/test_git -> test_git)
-                  const projectName =
-                    prompt.projectPath.split('/').pop() || 'unknown'
-                  const appDataPath = await window.App.getAppDataPath()
-                  const conversationLogPath = `${appDataPath}/${projectName}/prompts/conversations/${prompt.id}.json`
+                  const conversationLogPath =
+                    await window.App.getConversationLogPath(
+                      prompt.projectPath,
+                      prompt.id
+                    )
 
                   setSelectedConversation({
                     promptId: prompt.id,
@@ -683,6 +753,46 @@ export function Prompts({ projectContext }: PromptsProps) {
                       <GitBranch className="w-3 h-3 flex-shrink-0" />
                       <span className="truncate">{prompt.branch}</span>
                     </div>
+
+                    {/* Fork Origin - The conversation this one branched off */}
+                    {prompt.forkedFrom &&
+                      (() => {
+                        const parent = promptHistory.find(
+                          p => p.id === prompt.forkedFrom?.promptId
+                        )
+                        return (
+                          <div
+                            className={`flex items-center gap-1 text-xs ${themeClasses.textTertiary} mt-1`}
+                            title={`Forked ${new Date(prompt.forkedFrom.forkedAt).toLocaleString()} at commit ${prompt.forkedFrom.commit.substring(0, 7)}`}
+                          >
+                            <GitFork className="w-3 h-3 flex-shrink-0" />
+                            <span className="truncate">
+                              Forked from{' '}
+                              {parent
+                                ? parent.prompt.substring(0, 40)
+                                : 'a deleted conversation'}
+                            </span>
+                          </div>
+                        )
+                      })()}
+
+                    {/* Queue Position - While waiting for a free run slot */}
+                    {busyConversations.get(prompt.id)?.status === 'queued' && (
+                      <div className="text-xs text-purple-400 mt-1">
+                        Queued #
+                        {busyConversations.get(prompt.id)?.queuePosition}
+                      </div>
+                    )}
+
+                    {/* Retry Attempt - While waiting out a transient error */}
+                    {busyConversations.get(prompt.id)?.status ===
+                      'retrying' && (
+                      <div className="text-xs text-yellow-400 mt-1">
+                        Retrying{' '}
+                        {busyConversations.get(prompt.id)?.retryAttempt}/
+                        {busyConversations.get(prompt.id)?.maxRetryAttempts}
+                      </div>
+                    )}
                   </div>
                 </div>
               </button>
@@ -728,6 +838,26 @@ export function Prompts({ projectContext }: PromptsProps) {
                     </span>
                   </div>
                 )}
+                {getAgentName() && (
+                  <div
+                    className={`flex items-center gap-1 px-2 py-1 rounded ${themeClasses.bgSecondary} border ${themeClasses.borderPrimary}`}
+                  >
+                    <Robot className="w-3 h-3" />
+                    <span className={`text-xs ${themeClasses.textSecondary}`}>
+                      {getAgentName()}
+                    </span>
+                  </div>
+                )}
+                {getModelName() && (
+                  <div
+                    className={`flex items-center gap-1 px-2 py-1 rounded ${themeClasses.bgSecondary} border ${themeClasses.borderPrimary}`}
+                  >
+                    <Cpu className="w-3 h-3" />
+                    <span className={`text-xs ${themeClasses.textSecondary}`}>
+                      {getModelName()}
+                    </span>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -844,6 +974,7 @@ export function Prompts({ projectContext }: PromptsProps) {
         {viewMode === 'agents' && (
           <AgentView
             agents={agents}
+            projectPath={projectContext?.projectPath}
             setAgents={setAgents}
             triggerNewAgent={triggerNewAgent}
           />
@@ -852,12 +983,14 @@ export function Prompts({ projectContext }: PromptsProps) {
         {/* Prompt View - Only show when not in agents mode */}
         {viewMode === 'prompts' && conversationViewMode === 'conversation' && (
           <ConversationView
+            agents={agents}
             availableBranches={availableBranches}
             busyConversations={busyConversations}
             getAvailableBranchesForNewPrompt={getAvailableBranchesForNewPrompt}
             isPromptBusy={isPromptBusy}
             loadAndProcessPromptHistory={loadAndProcessPromptHistory}
             newConversation={newConversation}
+            onOpenSettings={onOpenSettings}
             onTokenUsageUpdate={usage => {
               setConversationTokenUsage(prev => {
                 const newMap = new Map(prev)
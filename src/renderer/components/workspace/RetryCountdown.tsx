@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react'
+
+interface RetryCountdownProps {
+  nextRetryAt?: number // Epoch ms
+}
+
+// Seconds until a 'retrying' conversation makes its next attempt
+export function RetryCountdown({ nextRetryAt }: RetryCountdownProps) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const seconds = Math.max(Math.ceil(((nextRetryAt ?? now) - now) / 1000), 0)
+  return <span>{seconds}s</span>
+}
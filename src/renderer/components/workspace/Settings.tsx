@@ -1,5 +1,18 @@
-import { useState } from 'react'
-import { TextAa, Monitor, Key } from '@phosphor-icons/react'
+import { useState, useEffect } from 'react'
+import {
+  TextAa,
+  Monitor,
+  Key,
+  GearSix,
+  ShieldCheck,
+  CurrencyDollar,
+  Queue,
+  Plugs,
+  Lightning,
+  LockKey,
+  ShieldWarning,
+  GitBranch,
+} from '@phosphor-icons/react'
 import {
   useTheme,
   createThemeClasses,
@@ -7,8 +20,31 @@ import {
   type FontFamily,
 } from '../../theme/ThemeContext'
 import { ProviderTabs } from '../auth/ProviderTabs'
+import { PermissionRulesSettings } from '../settings/PermissionRulesSettings'
+import { BudgetSettings } from '../settings/BudgetSettings'
+import { McpServerSettings } from '../settings/McpServerSettings'
+import { ToolHookSettings } from '../settings/ToolHookSettings'
+import { EnvVariableSettings } from '../settings/EnvVariableSettings'
+import { GuardrailSettings } from '../settings/GuardrailSettings'
+import { WorktreeSettings } from '../settings/WorktreeSettings'
+import { RetrySettings } from '../settings/RetrySettings'
+import { CLAUDE_MODELS } from '../../lib/models'
+
+export type SettingsSection =
+  | 'appearance'
+  | 'general'
+  | 'permissions'
+  | 'guardrails'
+  | 'budget'
+  | 'hooks'
+  | 'environment'
+  | 'worktrees'
+  | 'runs'
+  | 'mcp'
+  | 'authentication'
 
-type SettingsSection = 'appearance' | 'general' | 'authentication'
+// Choices for the max number of conversations running at once
+const CONCURRENT_RUN_OPTIONS = [1, 2, 3, 4, 6, 8]
 
 const fontSizeDisplayNames: Record<FontSize, string> = {
   xs: 'Extra Small',
@@ -26,14 +62,89 @@ const fontFamilyDisplayNames: Record<FontFamily, string> = {
   serif: 'Serif',
 }
 
-export function Settings() {
+interface SettingsProps {
+  projectPath?: string
+  initialSection?: SettingsSection
+}
+
+export function Settings({
+  projectPath,
+  initialSection = 'appearance',
+}: SettingsProps) {
   const { theme, fontPreferences, setFontSize, setFontFamily } = useTheme()
   const themeClasses = createThemeClasses(theme)
   const [activeSection, setActiveSection] =
-    useState<SettingsSection>('appearance')
+    useState<SettingsSection>(initialSection)
+  const [defaultModel, setDefaultModel] = useState<string | undefined>(
+    undefined
+  )
+  const [maxConcurrentRuns, setMaxConcurrentRuns] = useState<
+    number | undefined
+  >(undefined)
+
+  // Load app-wide settings (concurrency limit)
+  useEffect(() => {
+    window.App.getAppSettings()
+      .then(settings => setMaxConcurrentRuns(settings?.maxConcurrentRuns))
+      .catch(error => console.error('Failed to load app settings:', error))
+  }, [])
+
+  const handleMaxConcurrentRunsChange = async (limit: number) => {
+    setMaxConcurrentRuns(limit)
+    try {
+      await window.App.saveAppSettings({ maxConcurrentRuns: limit })
+    } catch (error) {
+      console.error('Failed to save max concurrent runs:', error)
+    }
+  }
+
+  // Load project-level settings (default model)
+  useEffect(() => {
+    if (!projectPath) return
+
+    window.App.getProjectSettings(projectPath)
+      .then(settings => setDefaultModel(settings?.defaultModel))
+      .catch(error => console.error('Failed to load project settings:', error))
+  }, [projectPath])
+
+  const handleDefaultModelChange = async (model: string | undefined) => {
+    setDefaultModel(model)
+    if (!projectPath) return
+
+    try {
+      await window.App.saveProjectSettings(projectPath, { defaultModel: model })
+    } catch (error) {
+      console.error('Failed to save default model:', error)
+    }
+  }
 
   const sidebarItems = [
     { id: 'appearance' as const, label: 'Appearance', icon: TextAa },
+    ...(projectPath
+      ? [
+          { id: 'general' as const, label: 'General', icon: GearSix },
+          {
+            id: 'permissions' as const,
+            label: 'Permissions',
+            icon: ShieldCheck,
+          },
+          {
+            id: 'guardrails' as const,
+            label: 'Guardrails',
+            icon: ShieldWarning,
+          },
+          { id: 'budget' as const, label: 'Budget', icon: CurrencyDollar },
+          { id: 'hooks' as const, label: 'Hooks', icon: Lightning },
+          {
+            id: 'environment' as const,
+            label: 'Environment',
+            icon: LockKey,
+          },
+          { id: 'worktrees' as const, label: 'Worktrees', icon: GitBranch },
+        ]
+      : []),
+    { id: 'runs' as const, label: 'Runs', icon: Queue },
+    { id: 'mcp' as const, label: 'MCP Servers', icon: Plugs },
     { id: 'authentication' as const, label: 'Authentication', icon: Key },
   ]
 
@@ -127,6 +238,83 @@ export function Settings() {
     </div>
   )
 
+  const renderGeneralSection = () => (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Default Model
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          Used for new conversations in this project. You can still pick a
+          different model per conversation.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          {[
+            {
+              id: undefined,
+              label: 'Provider Default',
+              description: 'Use the model configured for your provider',
+            },
+            ...CLAUDE_MODELS,
+          ].map(model => (
+            <button
+              className={`p-4 rounded-lg border text-left transition-all ${
+                defaultModel === model.id
+                  ? `${themeClasses.borderFocus} ${themeClasses.bgTertiary}`
+                  : `${themeClasses.borderSecondary} ${themeClasses.bgCard} hover:${themeClasses.bgTertiary}`
+              }`}
+              key={model.id ?? 'default'}
+              onClick={() => handleDefaultModelChange(model.id)}
+            >
+              <div className={`font-medium ${themeClasses.textPrimary} mb-1`}>
+                {model.label}
+              </div>
+              <div className={`text-sm ${themeClasses.textSecondary}`}>
+                {model.description}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+
+  const renderRunsSection = () => (
+    <div className="space-y-6">
+      <div>
+        <h3
+          className={`text-lg font-semibold ${themeClasses.textPrimary} mb-2`}
+        >
+          Concurrent Runs
+        </h3>
+        <p className={`text-sm ${themeClasses.textSecondary} mb-4`}>
+          How many conversations can run at once across all projects. Extra runs
+          wait in a queue and start as soon as a run finishes.
+        </p>
+        <div className="grid grid-cols-6 gap-3">
+          {CONCURRENT_RUN_OPTIONS.map(limit => (
+            <button
+              className={`p-3 rounded-lg border text-center transition-all ${
+                (maxConcurrentRuns ?? 3) === limit
+                  ? `${themeClasses.borderFocus} ${themeClasses.bgTertiary}`
+                  : `${themeClasses.borderSecondary} ${themeClasses.bgCard} hover:${themeClasses.bgTertiary}`
+              }`}
+              key={limit}
+              onClick={() => handleMaxConcurrentRunsChange(limit)}
+            >
+              <div className={`font-medium ${themeClasses.textPrimary}`}>
+                {limit}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+      <RetrySettings />
+    </div>
+  )
+
   const renderAuthenticationSection = () => (
     <div className="space-y-6">
       <div>
@@ -148,6 +336,34 @@ export function Settings() {
     switch (activeSection) {
       case 'appearance':
         return renderAppearanceSection()
+      case 'general':
+        return renderGeneralSection()
+      case 'permissions':
+        return projectPath ? (
+          <PermissionRulesSettings projectPath={projectPath} />
+        ) : null
+      case 'guardrails':
+        return projectPath ? (
+          <GuardrailSettings projectPath={projectPath} />
+        ) : null
+      case 'budget':
+        return projectPath ? <BudgetSettings projectPath={projectPath} /> : null
+      case 'hooks':
+        return projectPath ? (
+          <ToolHookSettings projectPath={projectPath} />
+        ) : null
+      case 'environment':
+        return projectPath ? (
+          <EnvVariableSettings projectPath={projectPath} />
+        ) : null
+      case 'worktrees':
+        return projectPath ? (
+          <WorktreeSettings projectPath={projectPath} />
+        ) : null
+      case 'runs':
+        return renderRunsSection()
+      case 'mcp':
+        return <McpServerSettings projectPath={projectPath} />
       case 'authentication':
         return renderAuthenticationSection()
       default:
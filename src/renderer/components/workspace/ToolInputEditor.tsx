@@ -0,0 +1,135 @@
+import { useState } from 'react'
+
+// Editable fields per tool. Tools not listed here are edited as raw JSON.
+const EDITABLE_FIELDS: Record<
+  string,
+  Array<{ key: string; label: string; multiline?: boolean }>
+> = {
+  Bash: [{ key: 'command', label: 'Command', multiline: true }],
+  Read: [{ key: 'file_path', label: 'File path' }],
+  Write: [
+    { key: 'file_path', label: 'File path' },
+    { key: 'content', label: 'Content', multiline: true },
+  ],
+  Edit: [
+    { key: 'file_path', label: 'File path' },
+    { key: 'old_string', label: 'Replace', multiline: true },
+    { key: 'new_string', label: 'With', multiline: true },
+  ],
+}
+
+interface ToolInputEditorProps {
+  toolName: string
+  toolInput: Record<string, unknown>
+  onApprove: (updatedInput: Record<string, unknown>) => void
+  onCancel: () => void
+}
+
+/**
+ * Lets the user adjust a pending tool call (e.g. fix a Bash command or a file
+ * path) before approving it. The edited input replaces Claude's original input.
+ */
+export function ToolInputEditor({
+  toolName,
+  toolInput,
+  onApprove,
+  onCancel,
+}: ToolInputEditorProps) {
+  const fields = EDITABLE_FIELDS[toolName]
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (fields || []).map(field => [
+        field.key,
+        String(toolInput?.[field.key] ?? ''),
+      ])
+    )
+  )
+  const [jsonText, setJsonText] = useState(() =>
+    JSON.stringify(toolInput ?? {}, null, 2)
+  )
+  const [jsonError, setJsonError] = useState<string | null>(null)
+
+  const handleApprove = () => {
+    if (fields) {
+      onApprove({ ...toolInput, ...values })
+      return
+    }
+
+    try {
+      onApprove(JSON.parse(jsonText))
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const textareaClassName =
+    'w-full px-3 py-2 rounded border border-gray-600 bg-[#1E1E1E] text-gray-100 font-mono text-xs outline-none focus:border-gray-400 resize-y'
+
+  return (
+    <div className="bg-[#2D2D2D] border-t border-gray-700 px-4 py-3 space-y-3">
+      <div className="text-xs font-medium text-gray-300">
+        Edit {toolName} input before approving
+      </div>
+
+      {fields ? (
+        fields.map(field => (
+          <div key={field.key}>
+            <div className="text-xs text-gray-400 mb-1">{field.label}</div>
+            {field.multiline ? (
+              <textarea
+                className={textareaClassName}
+                onChange={e =>
+                  setValues(prev => ({ ...prev, [field.key]: e.target.value }))
+                }
+                rows={field.key === 'command' ? 2 : 5}
+                value={values[field.key]}
+              />
+            ) : (
+              <input
+                className={textareaClassName}
+                onChange={e =>
+                  setValues(prev => ({ ...prev, [field.key]: e.target.value }))
+                }
+                type="text"
+                value={values[field.key]}
+              />
+            )}
+          </div>
+        ))
+      ) : (
+        <div>
+          <textarea
+            className={textareaClassName}
+            onChange={e => {
+              setJsonText(e.target.value)
+              setJsonError(null)
+            }}
+            rows={6}
+            value={jsonText}
+          />
+          {jsonError && (
+            <div className="text-xs text-red-400 mt-1">
+              Invalid JSON: {jsonError}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          className="px-3 py-1.5 rounded text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+          onClick={onCancel}
+        >
+          Discard edits
+        </button>
+        <button
+          className="bg-white text-gray-900 hover:bg-gray-100 px-4 py-1.5 rounded text-sm font-medium transition-colors"
+          onClick={handleApprove}
+        >
+          Accept edited
+        </button>
+      </div>
+    </div>
+  )
+}
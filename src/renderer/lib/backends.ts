@@ -0,0 +1,34 @@
+import type { AgentBackendId } from '../../shared/types'
+
+// Agents that can run a conversation. Codex and Gemini CLI must be installed
+// and signed in; they can't ask for tool permissions one call at a time, so
+// they run read-only and refuse auto-accept, agent tool lists and budgets.
+// Matches getUnsupportedPolicies in the main process
+export interface BackendOption {
+  id: AgentBackendId
+  label: string
+  description: string
+}
+
+export const AGENT_BACKENDS: BackendOption[] = [
+  {
+    id: 'claude-code',
+    label: 'Claude Code',
+    description: 'Claude Agent SDK, asks before using tools',
+  },
+  {
+    id: 'codex',
+    label: 'Codex',
+    description: 'OpenAI Codex CLI, read-only, no auto-accept or budgets',
+  },
+  {
+    id: 'gemini-cli',
+    label: 'Gemini CLI',
+    description: 'Google Gemini CLI, read-only, no auto-accept or budgets',
+  },
+  {
+    id: 'replay',
+    label: 'Replay',
+    description: 'Plays back a recorded conversation log, no API calls',
+  },
+]
@@ -0,0 +1,25 @@
+// Model aliases understood by Claude Code. They resolve to the latest model of
+// each family for the active provider (Anthropic, Bedrock or Vertex).
+export interface ModelOption {
+  id: string
+  label: string
+  description: string
+}
+
+export const CLAUDE_MODELS: ModelOption[] = [
+  {
+    id: 'opus',
+    label: 'Opus',
+    description: 'Most capable, best for implementation',
+  },
+  {
+    id: 'sonnet',
+    label: 'Sonnet',
+    description: 'Balanced speed and capability',
+  },
+  {
+    id: 'haiku',
+    label: 'Haiku',
+    description: 'Fastest and cheapest, good for exploration',
+  },
+]
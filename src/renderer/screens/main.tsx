@@ -142,7 +142,7 @@ export function MainScreen() {
       // Verify the project path still exists and is a git repository
       const isGitRepo = await App.isGitRepository(project.path)
       if (!isGitRepo) {
-        alert('This project is no longer a valid Git repository.')
+        await handleRelinkProject(project)
         return
       }
 
@@ -179,6 +179,32 @@ export function MainScreen() {
     }
   }
 
+  // A moved project keeps its conversations and settings under its stable ID;
+  // relinking points them at the new location
+  const handleRelinkProject = async (project: (typeof recentProjects)[0]) => {
+    const shouldRelink = confirm(
+      `${project.path} is no longer a Git repository. If the project was moved, select its new location to keep its conversations and settings.`
+    )
+    if (!shouldRelink) return
+
+    const newPath = await App.selectFolder()
+    if (!newPath) return
+
+    const result = await App.relinkProject(project.path, newPath)
+    if (!result.success) {
+      alert(`Failed to relink the project: ${result.error}`)
+      await loadRecentProjects()
+      return
+    }
+
+    trackEvent('project_relinked', { project_name: project.name })
+    await handleProjectSelect({
+      ...project,
+      name: newPath.split('/').pop() || project.name,
+      path: newPath,
+    })
+  }
+
   const handleCloneRepository = () => {
     setIsCloneModalOpen(true)
   }
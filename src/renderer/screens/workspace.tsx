@@ -1,10 +1,19 @@
 import { useState, useEffect } from 'react'
 import { useLocation } from 'react-router-dom'
-import { ChatsTeardropIcon, GitMerge, User } from '@phosphor-icons/react'
+import {
+  ChatsTeardropIcon,
+  ClipboardText,
+  GitMerge,
+  User,
+} from '@phosphor-icons/react'
 import { useTheme, createThemeClasses } from '../theme/ThemeContext'
 import { Overview } from '../components/workspace/Overview'
 import { Prompts } from '../components/workspace/Prompts'
-import { Settings as SettingsComponent } from '../components/workspace/Settings'
+import { AuditLog } from '../components/workspace/AuditLog'
+import {
+  Settings as SettingsComponent,
+  type SettingsSection,
+} from '../components/workspace/Settings'
 import { trackPageView, trackEvent } from '../services/posthog'
 
 interface LocationState {
@@ -46,6 +55,13 @@ export function WorkspaceScreen() {
     }
   }, [projectContext?.projectPath])
   const [activeSection, setActiveSection] = useState('prompts')
+  const [settingsSection, setSettingsSection] = useState<SettingsSection>()
+
+  // Recovery actions in a conversation (e.g. re-authenticate) open Settings
+  const openSettings = (section: SettingsSection) => {
+    setSettingsSection(section)
+    setActiveSection('account')
+  }
 
   // Track page view when section changes
   useEffect(() => {
@@ -58,6 +74,7 @@ export function WorkspaceScreen() {
   const topMenuItems = [
     { icon: ChatsTeardropIcon, label: 'Prompts', key: 'prompts' },
     { icon: GitMerge, label: 'Merge', key: 'merge' },
+    { icon: ClipboardText, label: 'Audit Log', key: 'audit' },
   ]
 
   const bottomMenuItems = [{ icon: User, label: 'Account', key: 'account' }]
@@ -65,13 +82,30 @@ export function WorkspaceScreen() {
   const renderContent = () => {
     switch (activeSection) {
       case 'prompts':
-        return <Prompts projectContext={projectContext} />
+        return (
+          <Prompts
+            onOpenSettings={openSettings}
+            projectContext={projectContext}
+          />
+        )
       case 'merge':
         return <Overview projectContext={projectContext} />
+      case 'audit':
+        return <AuditLog projectContext={projectContext} />
       case 'account':
-        return <SettingsComponent />
+        return (
+          <SettingsComponent
+            initialSection={settingsSection}
+            projectPath={projectContext?.projectPath}
+          />
+        )
       default:
-        return <Prompts projectContext={projectContext} />
+        return (
+          <Prompts
+            onOpenSettings={openSettings}
+            projectContext={projectContext}
+          />
+        )
     }
   }
 
@@ -131,7 +165,10 @@ export function WorkspaceScreen() {
                   : `${themeClasses.textSecondary} hover:bg-[rgba(0,0,0,0.05)]`
               }`}
               key={index}
-              onClick={() => setActiveSection(item.key)}
+              onClick={() => {
+                setSettingsSection(undefined)
+                setActiveSection(item.key)
+              }}
               title={item.label}
             >
               <item.icon className="w-6 h-6" />
@@ -11,7 +11,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid'
-import type { ConversationHistory, EnhancedPromptHistoryItem } from '../../shared/types'
+import type { ConversationHistory, EnhancedPromptHistoryItem, PromptAgent } from '../../shared/types'
 import { createMessageHandler, type MessageHandlerConfig, Response } from './conversationMessageHandler'
 import { trackEvent } from './posthog'
 
@@ -27,6 +27,9 @@ export interface ExecutionOptions {
   isNewConversation: boolean
   selectedBranch?: string
   autoAcceptEnabled: boolean
+  agent?: PromptAgent // System prompt and tools are resolved by id in main
+  model?: string // Model alias for this run; unset uses the provider default
+  planFirst?: boolean // Run in plan mode; the plan is approved via ExitPlanMode
 
   // Callbacks
   onMessage?: (messages: any[]) => void
@@ -66,6 +69,9 @@ export async function executeConversation(
     isNewConversation,
     selectedBranch,
     autoAcceptEnabled,
+    agent,
+    model,
+    planFirst = false,
   } = options
 
   console.log('🚀 [ConversationExecutor] Starting execution...')
@@ -77,6 +83,8 @@ export async function executeConversation(
     prompt_length: promptText.length,
     branch: selectedBranch || 'unknown',
     auto_accept_enabled: autoAcceptEnabled,
+    agent: agent?.name,
+    model: model || 'default',
     project_path: projectContext.projectPath,
   })
 
@@ -85,7 +93,7 @@ export async function executeConversation(
     // Phase 1: Setup Conversation Context
     // ============================================================================
     const context = isNewConversation
-      ? await setupNewConversation(projectContext, selectedBranch!, promptText)
+      ? await setupNewConversation(projectContext, selectedBranch!, promptText, agent, model)
       : await setupExistingConversation(projectContext, conversation, selectedBranch, promptText)
 
     console.log('✅ [ConversationExecutor] Context setup complete:', {
@@ -121,11 +129,14 @@ export async function executeConversation(
         prompt: promptText,
         workingDirectory: context.worktreePath,
         allowedTools: ['Read', 'Glob', 'Grep'],
-        permissionMode: 'default',
+        permissionMode: planFirst ? 'plan' : 'default',
         resume: context.sessionId,
         promptId: context.promptId,
         conversationTitle: promptText.substring(0, 200),
         autoAcceptEnabled,
+        agentId: agent?.id,
+        model,
+        projectPath: projectContext.projectPath,
       },
       messageHandler
     )
@@ -171,7 +182,9 @@ export async function executeConversation(
 async function setupNewConversation(
   projectContext: ProjectContext,
   selectedBranch: string,
-  promptText: string
+  promptText: string,
+  agent?: PromptAgent,
+  model?: string
 ) {
   console.log('📝 [ConversationExecutor] Setting up new conversation...')
 
@@ -182,9 +195,7 @@ async function setupNewConversation(
   const promptId = uuidv4()
 
   // Create conversation log path
-  const projectName = projectContext.projectPath.split('/').pop() || 'unknown'
-  const appDataPath = await window.App.getAppDataPath()
-  const conversationLogPath = `${appDataPath}/${projectName}/prompts/conversations/${promptId}.json`
+  const conversationLogPath = await window.App.getConversationLogPath(projectContext.projectPath, promptId)
 
   // Write initial user message to log
   console.log('💬 [ConversationExecutor] Writing initial user message to log...')
@@ -231,6 +242,9 @@ async function setupNewConversation(
     projectPath: projectContext.projectPath,
     worktreePath,
     autoAcceptEnabled: false, // Will be updated later
+    agentId: agent?.id,
+    agentName: agent?.name,
+    model,
     createdAt: new Date(),
     updatedAt: new Date(),
   } as EnhancedPromptHistoryItem)
@@ -36,6 +36,13 @@ export interface ChatMessage {
   duration?: number
   cost?: number
   numTurns?: number
+  isPartial?: boolean // Streaming chunk; replaced once the full message arrives
+  messageId?: string // SDK assistant message ID, where a fork can start
+  parentToolUseId?: string // Task call whose subagent produced this message
+  hookEvent?: 'before' | 'after' // For tool hook results
+  hookCommand?: string
+  exitCode?: number
+  hookBlocked?: boolean
 }
 
 export enum Response {
@@ -119,6 +126,7 @@ export function convertSDKMessageToChat(sdkMessage: any): ChatMessage[] {
             type: 'text',
             text: block.text,
             timestamp,
+            messageId: sdkMessage.message.id,
           })
         } else if (block.type === 'tool_use') {
           messages.push({
@@ -149,6 +157,42 @@ export function convertSDKMessageToChat(sdkMessage: any): ChatMessage[] {
       })
       break
 
+    case 'stream_event': {
+      // Only top-level text deltas are streamed; subagent output (which has a
+      // parent_tool_use_id) and tool input deltas wait for the final message
+      const event = sdkMessage.event
+      if (
+        !sdkMessage.parent_tool_use_id &&
+        event?.type === 'content_block_delta' &&
+        event.delta?.type === 'text_delta'
+      ) {
+        messages.push({
+          id: `stream-${sdkMessage.session_id}-${event.index}`,
+          type: 'text',
+          text: event.delta.text,
+          isPartial: true,
+          timestamp,
+        })
+      }
+      break
+    }
+
+    case 'hook_result':
+      // Sent by the main process when a project tool hook has run
+      messages.push({
+        id: `hook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        type: 'hook_result',
+        toolName: sdkMessage.toolName,
+        hookEvent: sdkMessage.event,
+        hookCommand: sdkMessage.command,
+        exitCode: sdkMessage.exitCode,
+        hookBlocked: sdkMessage.blocked,
+        text: sdkMessage.output,
+        isError: sdkMessage.exitCode !== 0,
+        timestamp,
+      })
+      break
+
     case 'result':
       messages.push({
         id: `result-${sdkMessage.session_id || Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -161,9 +205,52 @@ export function convertSDKMessageToChat(sdkMessage: any): ChatMessage[] {
       break
   }
 
+  // Subagent messages are shown under the Task call that started them
+  if (sdkMessage.parent_tool_use_id) {
+    return messages.map(message => ({
+      ...message,
+      parentToolUseId: sdkMessage.parent_tool_use_id,
+    }))
+  }
+
   return messages
 }
 
+/**
+ * Merge incoming chat messages into the current list
+ *
+ * Partial messages carry only the new text delta, so they are appended to the
+ * partial message with the same id. Any complete message means the streamed
+ * content has been finalized, so all partial messages are dropped first.
+ */
+export function mergeChatMessages<T extends ChatMessage>(
+  prev: T[],
+  incoming: T[]
+): T[] {
+  const hasFinalMessage = incoming.some(message => !message.isPartial)
+  const merged = hasFinalMessage
+    ? prev.filter(message => !message.isPartial)
+    : [...prev]
+
+  for (const message of incoming) {
+    const existingIndex = message.isPartial
+      ? merged.findIndex(m => m.id === message.id)
+      : -1
+
+    if (existingIndex >= 0) {
+      const existing = merged[existingIndex]
+      merged[existingIndex] = {
+        ...existing,
+        text: (existing.text || '') + (message.text || ''),
+      }
+    } else {
+      merged.push(message)
+    }
+  }
+
+  return merged
+}
+
 /**
  * Create a message handler for a specific conversation
  *
@@ -199,6 +286,7 @@ export function createMessageHandler(config: MessageHandlerConfig) {
     type: string
     data: string
     promptId?: string
+    partial?: boolean
   }): Promise<void> {
     // ============================================================================
     // Message Filtering: Prevent Cross-Conversation Contamination
@@ -217,18 +305,37 @@ export function createMessageHandler(config: MessageHandlerConfig) {
     // CRITICAL CHECK 2: Only process messages for THIS conversation
     // Each handler should only process messages that belong to its conversation
     if (data.promptId !== capturedPromptId) {
-      console.log(
-        `⏭️  [MessageHandler] Ignoring message for different conversation (received: ${data.promptId.substring(0, 8)}, expected: ${capturedPromptId.substring(0, 8)})`
-      )
+      if (!data.partial) {
+        console.log(
+          `⏭️  [MessageHandler] Ignoring message for different conversation (received: ${data.promptId.substring(0, 8)}, expected: ${capturedPromptId.substring(0, 8)})`
+        )
+      }
       return
     }
 
-    console.log(`✅ [MessageHandler] Processing message for ${capturedPromptId.substring(0, 8)}`)
+    if (!data.partial) {
+      console.log(`✅ [MessageHandler] Processing message for ${capturedPromptId.substring(0, 8)}`)
+    }
 
     try {
       // Parse the SDK message
       const sdkMessage = JSON.parse(data.data)
 
+      // ============================================================================
+      // Partial Messages: UI only
+      // ============================================================================
+      // Streaming chunks are superseded by the final assistant message, so they
+      // are never written to the log and carry nothing else worth persisting
+      if (sdkMessage.type === 'stream_event') {
+        if (config.isSelectedConversation() && config.onMessage) {
+          const chatMessages = convertSDKMessageToChat(sdkMessage)
+          if (chatMessages.length > 0) {
+            config.onMessage(chatMessages)
+          }
+        }
+        return
+      }
+
       console.log('📨 [MessageHandler] SDK message type:', sdkMessage.type)
 
       // ============================================================================
@@ -282,8 +389,12 @@ export function createMessageHandler(config: MessageHandlerConfig) {
           console.log(`📊 [MessageHandler] Token usage: ${inputTokens}/${outputTokens} (total: ${totalTokens})`)
         }
 
-        // Mark as completed in database
-        await markConversationCompleted(capturedProjectPath, capturedPromptId)
+        // Mark as completed in database (and add this run's cost)
+        await markConversationCompleted(
+          capturedProjectPath,
+          capturedPromptId,
+          sdkMessage.total_cost_usd
+        )
 
         if (config.onComplete) {
           config.onComplete(sdkMessage)
@@ -328,10 +439,12 @@ async function persistSessionId(
 
 /**
  * Mark conversation as completed in database
+ * The run's cost is added to the conversation total used by budget limits
  */
 async function markConversationCompleted(
   projectPath: string,
-  promptId: string
+  promptId: string,
+  runCostUsd?: number
 ): Promise<void> {
   try {
     const history = await window.App.getEnhancedPromptHistory(projectPath)
@@ -341,6 +454,7 @@ async function markConversationCompleted(
       await window.App.updateEnhancedPrompt({
         ...prompt,
         status: 'completed',
+        totalCostUsd: (prompt.totalCostUsd || 0) + (runCostUsd || 0),
         updatedAt: new Date(),
       })
       console.log('✅ [MessageHandler] Marked conversation as completed')
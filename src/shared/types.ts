@@ -18,7 +18,8 @@ export interface WindowCreationByIPC {
 }
 
 // Enhanced Prompt Tracking Types
-export type PromptStatus = 'busy' | 'completed' | 'old'
+export type PromptStatus = 'busy' | 'completed' | 'old' | 'interrupted'
+export type AgentBackendId = 'claude-code' | 'codex' | 'gemini-cli' | 'replay'
 export type BranchStatus = 'active' | 'deleted'
 
 export interface ConversationMessage {
@@ -50,11 +51,30 @@ export interface EnhancedPromptHistoryItem {
   worktreePath?: string
   aiSessionId?: string
   autoAcceptEnabled?: boolean // Persists auto-accept toggle state (default: false)
+  agentId?: string // Prompt agent used for the latest run (see PromptAgent)
+  agentName?: string // Agent name at the time it was selected, for display
+  model?: string // Model alias chosen for this conversation; unset uses the default
+  backend?: AgentBackendId // Agent that runs this conversation; unset means 'claude-code'
+  replayLogPath?: string // Recorded conversation log, for the 'replay' backend
+  budget?: BudgetLimits // Per-conversation caps; each set field overrides the project budget
+  totalCostUsd?: number // Spend across all runs of this conversation (from SDK result messages)
+  forkedFrom?: ConversationForkOrigin // Set when this conversation was forked from another one
   isExecuting?: boolean
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * Where a forked conversation branched off its parent (see conversation-fork.ts)
+ */
+export interface ConversationForkOrigin {
+  promptId: string // Parent conversation
+  messageId: string // Assistant message the fork continues from
+  sessionId?: string // Parent session, resumed at messageId by the fork's first run; unset when the transcript is sent instead
+  commit: string // Parent worktree commit the fork's worktree started from
+  forkedAt: Date
+}
+
 export interface WorktreeInfo {
   worktreePath: string
   promptId: string
@@ -72,9 +92,167 @@ export interface ProjectSettings {
       family: string // 'inter' | 'system' | 'mono' | 'serif'
     }
   }
+  defaultModel?: string // Model alias for new conversations (e.g. 'sonnet'); unset uses the provider default
+  permissionRules?: ToolPermissionRule[] // Checked in canUseTool before asking the user
+  budget?: BudgetLimits // Default caps for every conversation in this project
+  mcpServers?: McpServerEntry[] // stdio MCP servers for this project's conversations
+  toolHooks?: ToolHook[] // Shell commands run before/after matching tool calls
+  guardrails?: GuardrailPolicy // Risk checks for Bash commands and file paths
+  envVariables?: ProjectEnvVariable[] // Set in the agent's environment for every run
+  loadDotEnv?: boolean // Also load .env from the conversation's worktree
+  worktreeRoot?: string // Folder for conversation worktrees (default ~/.almondcoder)
+  branchNameTemplate?: string // e.g. 'user/{ticket}-{slug}' (default 'almondcoder/{slug}-{id}')
+  worktreeLinks?: WorktreeLinkPolicy // How ignored files (node_modules, .env...) reach new worktrees
+  setupCommands?: WorktreeSetupCommand[] // Run in new worktrees before the agent starts
   // Add other settings here in the future (e.g., editor preferences, terminal settings, etc.)
 }
 
+// App-wide settings, stored in ~/.almondcoder/app-settings.json
+export interface AppSettings {
+  maxConcurrentRuns?: number // Conversations running at once; more are queued (default 3)
+  mcpServers?: McpServerEntry[] // stdio MCP servers for every project's conversations
+  retryPolicy?: RetryPolicy // Retries for overloaded, rate-limit and network errors
+}
+
+/**
+ * How runs that fail with a transient provider error are retried. Each retry
+ * resumes the session after a backoff that doubles up to maxDelaySeconds.
+ */
+export interface RetryPolicy {
+  enabled: boolean
+  maxAttempts: number // Retries after the first failure
+  initialDelaySeconds: number
+  maxDelaySeconds: number
+}
+
+/**
+ * A shell command run in the conversation's worktree around matching tool
+ * calls. Its output is shown in the conversation and passed to Claude.
+ */
+export interface ToolHook {
+  id: string
+  event: 'before' | 'after' // Before the tool runs, or after it succeeds
+  toolNames: string[] // Tools that trigger the hook; empty means every tool
+  command: string
+  blockOnFailure?: boolean // 'before' hooks only: a non-zero exit denies the tool call
+  enabled: boolean
+  createdAt: Date
+}
+
+/**
+ * A shell command run in a conversation's worktree: after the worktree is
+ * created (pnpm install, codegen, migrations) or before it is removed when
+ * merged or discarded (stopping services, dropping a test database)
+ */
+export interface WorktreeSetupCommand {
+  id: string
+  command: string
+  phase: 'setup' | 'cleanup'
+  enabled: boolean
+  createdAt: Date
+}
+
+// Streamed to the renderer while setup commands run (see worktree-setup.ts)
+export interface WorktreeSetupOutput {
+  promptId: string
+  stepId: string // One per command run; a retry gets a new one
+  command: string
+  output: string // Output so far (the tail of long output)
+  exitCode?: number // Set when the command has finished
+}
+
+export type GuardrailRiskLevel = 'low' | 'medium' | 'high' | 'critical'
+
+/**
+ * Risk checks on Bash commands and file paths (see guardrails.ts). Tool calls
+ * at or above askAt need manual approval even with auto-accept or an allow
+ * rule; calls at or above blockAt are denied.
+ */
+export interface GuardrailPolicy {
+  enabled: boolean
+  askAt: GuardrailRiskLevel
+  blockAt: GuardrailRiskLevel | 'never'
+  allowedPaths?: string[] // Outside the worktree but fine to write to (e.g. /tmp)
+}
+
+export interface GuardrailAssessment {
+  level: GuardrailRiskLevel
+  reasons: string[] // Why the call scored that level, shown on the permission card
+}
+
+/**
+ * An environment variable for this project's agent runs. Secret values are
+ * stored in the OS keychain instead of the project metadata.
+ */
+export interface ProjectEnvVariable {
+  id: string
+  name: string
+  value?: string // Unset for secrets
+  isSecret: boolean
+  enabled: boolean
+  createdAt: Date
+}
+
+/**
+ * A local stdio MCP server, launched by the SDK for each conversation run
+ */
+export interface McpServerEntry {
+  id: string
+  name: string // Server key; Claude sees its tools as mcp__<name>__<tool>
+  command: string
+  args: string[]
+  env?: Record<string, string>
+  enabled: boolean
+  createdAt: Date
+}
+
+/**
+ * How an ignored path from the project is brought into a new worktree:
+ * - symlink: link to the project's copy (the default)
+ * - hardlink: hard-link each file, so tools resolving real paths stay inside the worktree
+ * - clone: copy-on-write copy where the filesystem supports it, a plain copy otherwise
+ * - copy: independent copy
+ * - skip: leave it out
+ */
+export type WorktreeLinkStrategy =
+  | 'symlink'
+  | 'hardlink'
+  | 'clone'
+  | 'copy'
+  | 'skip'
+
+export interface WorktreeLinkRule {
+  id: string
+  pattern: string // gitignore-style glob, e.g. 'node_modules/' or '*.log'
+  strategy: WorktreeLinkStrategy
+}
+
+// The first matching rule wins; paths no rule matches use defaultStrategy
+export interface WorktreeLinkPolicy {
+  defaultStrategy: WorktreeLinkStrategy
+  rules: WorktreeLinkRule[]
+}
+
+// One ignored path and what will happen to it in new worktrees
+export interface WorktreeLinkPlanItem {
+  path: string // Relative to the project root
+  isDirectory: boolean
+  strategy: WorktreeLinkStrategy
+  pattern?: string // Rule that chose the strategy; unset for the default
+}
+
+/**
+ * A project's stable identity, stored in ~/.almondcoder/projects.json (see
+ * project-identity.ts)
+ */
+export interface ProjectRegistryEntry {
+  id: string // Hash of the real path and root commit at registration
+  folderName: string // '<name>-<id>', the project's folder in ~/.almondcoder
+  projectPath: string // Current real path; updated when a moved project is relinked
+  rootCommit?: string // Checked on relink, so data isn't attached to another repo
+  createdAt: string
+}
+
 export interface ProjectMetadata {
   projectName: string
   projectPath: string
@@ -84,15 +262,30 @@ export interface ProjectMetadata {
   settings?: ProjectSettings
 }
 
+/**
+ * Hard limits for a conversation, enforced in the main process by aborting
+ * the SDK query. Unset (or 0) means no limit.
+ */
+export interface BudgetLimits {
+  maxCostUsd?: number // Total spend across all runs of the conversation
+  maxTurns?: number // Agent turns per run (passed to the SDK as maxTurns)
+  maxDurationMinutes?: number // Wall time per run
+}
+
 export interface PromptAgent {
   id: string
   name: string
-  systemPrompt: string
-  tools: string[]
+  systemPrompt: string // Appended to the claude_code system prompt preset
+  tools: string[] // Tools the agent may use; empty means no restriction
+  isSubagent?: boolean // Also offered to every Claude run as a Task subagent
+  description?: string // When Claude should delegate to it (subagents only)
+  subagentModel?: SubagentModel // Model the subagent runs on; unset inherits the run's
   createdAt: Date
   updatedAt: Date
 }
 
+export type SubagentModel = 'sonnet' | 'opus' | 'haiku' | 'inherit'
+
 // ============================================================================
 // Permission System Types
 // ============================================================================
@@ -108,6 +301,7 @@ export interface PendingPermission {
   toolName: string // Name of the tool requesting permission (e.g., 'Write', 'Edit', 'Bash')
   toolInput: any // The input parameters the tool will use
   timestamp: Date // When the permission was requested
+  guardrail?: GuardrailAssessment // Set when guardrails require manual approval
 }
 
 /**
@@ -123,16 +317,56 @@ export interface BusyConversation {
   // - 'completed': Conversation finished successfully
   // - 'error': Conversation encountered an error
   // - 'aborted': Conversation was stopped by user
-  status: 'running' | 'waiting_permission' | 'completed' | 'error' | 'aborted'
+  // - 'budget_exceeded': Stopped because a cost, turn or time limit was hit
+  // - 'queued': Waiting for a free run slot (see AppSettings.maxConcurrentRuns)
+  // - 'interrupted': The app quit during the run; it can be resumed from sessionId
+  // - 'retrying': A transient provider error; the run resumes at nextRetryAt
+  status:
+    | 'running'
+    | 'waiting_permission'
+    | 'completed'
+    | 'error'
+    | 'aborted'
+    | 'budget_exceeded'
+    | 'queued'
+    | 'interrupted'
+    | 'retrying'
 
   sessionId?: string // Claude SDK session ID for resumption
-  error?: string // Error message if status is 'error'
+  queuePosition?: number // 1-based position in the run queue while 'queued'
+  retryAttempt?: number // Retries so far, set from the first retry on
+  maxRetryAttempts?: number
+  nextRetryAt?: number // Epoch ms of the next attempt while 'retrying'
+  error?: string // Error message if status is 'error' (or which limit was hit)
+  errorCode?: ConversationErrorCode // What kind of failure 'error' is
+  errorHint?: string // How to recover from it, shown under the error
 
   // When status is 'waiting_permission', this contains details about what tool
   // is waiting for approval. This allows the UI to show exactly what Claude wants to do.
   pendingPermission?: PendingPermission
 }
 
+/**
+ * Kinds of conversation failure the conversation view offers a recovery
+ * action for (see conversation-errors.ts):
+ * - 'auth_failed': Not logged in, or the API key/OAuth token was rejected
+ * - 'context_overflow': The session grew past the model's context window
+ * - 'command_not_found': The agent couldn't be started because node (or the
+ *   backend's CLI) isn't on PATH
+ * - 'worktree_missing': The conversation's worktree directory is gone
+ * - 'git_failed': A git command (worktree add/remove, branch) failed
+ * - 'provider_unavailable': Overloaded, rate-limited or offline, after retries
+ * - 'unknown': Anything else
+ */
+export type ConversationErrorCode =
+  | 'auth_failed'
+  | 'context_overflow'
+  | 'command_not_found'
+  | 'worktree_missing'
+  | 'git_failed'
+  | 'provider_unavailable'
+  | 'unknown'
+
 /**
  * Tool permission request sent from main process to renderer
  * Used via IPC to notify the UI that a tool needs permission
@@ -144,6 +378,7 @@ export interface ToolPermissionRequest {
   toolName: string // Name of the tool (e.g., 'Write', 'Bash')
   toolInput: any // Tool parameters (e.g., file_path, command)
   timestamp: number // Unix timestamp when request was made
+  guardrail?: GuardrailAssessment // Why approval is required even with auto-accept
 }
 
 /**
@@ -155,6 +390,118 @@ export interface ToolPermissionResponse {
   newPrompt?: string // If cancelling, the new prompt user typed
 }
 
+/**
+ * One canUseTool decision, appended to the project's audit log
+ * (~/.almondcoder/<project>/audit-log.jsonl)
+ */
+export interface AuditLogEntry {
+  id: string
+  timestamp: string // ISO time of the decision
+  promptId: string
+  conversationTitle?: string
+  toolName: string
+  toolInput: any // Input the tool ran with (the edited input if the user changed it); secrets masked
+  decision: 'auto_accepted' | 'user_accepted' | 'denied'
+  decidedBy:
+    | 'user'
+    | 'auto_accept'
+    | 'permission_rule'
+    | 'guardrail'
+    | 'agent' // Tool not in the selected agent's list
+    | 'non_interactive' // Headless run with no one to ask
+  reason?: string // Matching rule, guardrail findings or the user's alternative instruction
+  inputEdited?: boolean // The user changed the input before accepting
+}
+
+/**
+ * Persistent per-project rule that allows or denies a tool without asking.
+ * Deny rules take precedence over allow rules.
+ */
+export interface ToolPermissionRule {
+  id: string
+  toolName: string // Tool the rule applies to (e.g., 'Bash', 'Read')
+  pattern?: string // Glob with * wildcards matched against the command/path/URL; empty matches all
+  behavior: 'allow' | 'deny'
+  createdAt: Date
+}
+
+// ============================================================================
+// Agent Message Types
+// ============================================================================
+// Every agent backend streams messages in this normalized format over
+// 'command-output', and the renderer converts it for display. It is the subset
+// of the Claude Agent SDK message format the UI understands, so Claude
+// messages pass through unchanged while CLI backends (Codex, Gemini) translate
+// their own JSON events into it.
+
+export type AgentContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | {
+      type: 'tool_result'
+      tool_use_id: string
+      content: any
+      is_error?: boolean
+    }
+
+export interface AgentUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+}
+
+export type AgentMessage =
+  | {
+      type: 'system'
+      subtype: string // 'init' starts a session
+      session_id: string
+      model?: string
+      cwd?: string
+    }
+  | {
+      type: 'assistant'
+      session_id: string
+      parent_tool_use_id?: string | null
+      message: {
+        id?: string
+        model?: string
+        content: AgentContentBlock[]
+        usage?: AgentUsage
+      }
+    }
+  | {
+      type: 'user'
+      session_id: string
+      message: { content: AgentContentBlock[] | string }
+    }
+  | {
+      type: 'stream_event' // Partial text, display only
+      session_id: string
+      parent_tool_use_id?: string | null
+      event: any
+    }
+  | {
+      type: 'result'
+      subtype: string // 'success', 'error_max_turns', 'error_during_execution'
+      session_id: string
+      is_error?: boolean
+      duration_ms?: number
+      num_turns?: number
+      result?: string // Final assistant text
+      total_cost_usd?: number
+      usage?: AgentUsage
+    }
+  | {
+      type: 'hook_result' // Project tool hook output (see ToolHook)
+      event: 'before' | 'after'
+      command: string
+      toolName: string
+      exitCode: number
+      output: string
+      blocked: boolean
+    }
+
 // ============================================================================
 // Todo System Types
 // ============================================================================